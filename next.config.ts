@@ -1,12 +1,19 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   async headers() {
+    // Most API routes change stored data or spend API quota, so they are same-origin
+    // unless one trusted origin is allowed explicitly
+    const allowedOrigin = process.env.CORS_ALLOWED_ORIGIN;
+    if (!allowedOrigin) {
+      return [];
+    }
+
     return [
       {
         source: '/api/:path*',
         headers: [
-          { key: 'Access-Control-Allow-Origin', value: '*' },
-          { key: 'Access-Control-Allow-Methods', value: 'GET,POST,OPTIONS' },
+          { key: 'Access-Control-Allow-Origin', value: allowedOrigin },
+          { key: 'Access-Control-Allow-Methods', value: 'GET,POST,PUT,PATCH,DELETE,OPTIONS' },
           { key: 'Access-Control-Allow-Headers', value: 'Content-Type' },
         ],
       },
@@ -14,4 +21,4 @@ const nextConfig = {
   },
 }
 
-module.exports = nextConfig
\ No newline at end of file
+module.exports = nextConfig
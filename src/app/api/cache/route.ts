@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server';
+import { invalidRequest } from '@/lib/api-response';
+import { clearCache, getCacheSummary, isCacheNamespace, CACHE_NAMESPACES } from '@/lib/response-cache';
+
+// Admin access requires CACHE_ADMIN_TOKEN to be set and sent as "Authorization: Bearer <token>";
+// without a token the endpoint is disabled, so no other site can read or clear the cache
+const checkAccess = (request: Request) => {
+  const token = process.env.CACHE_ADMIN_TOKEN;
+  if (!token) {
+    return NextResponse.json({ error: 'Cache admin is disabled; set CACHE_ADMIN_TOKEN to enable it' }, { status: 403 });
+  }
+  if (request.headers.get('authorization') !== `Bearer ${token}`) {
+    return NextResponse.json({ error: 'Cache admin token required' }, { status: 401 });
+  }
+  return null;
+};
+
+const serverError = (message: string, error: unknown) => {
+  console.error('Cache API error:', error);
+
+  const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+
+  return NextResponse.json({
+    error: message,
+    details: errorMessage
+  }, { status: 500 });
+};
+
+// Number of cached responses per namespace
+export async function GET(request: Request) {
+  const denied = checkAccess(request);
+  if (denied) return denied;
+
+  try {
+    return NextResponse.json({ entries: await getCacheSummary() });
+  } catch (error) {
+    return serverError('Failed to read the response cache', error);
+  }
+}
+
+// Clear the whole cache, or one namespace with ?namespace=pubmed|llm|perplexity|serp|tavily
+export async function DELETE(request: Request) {
+  const denied = checkAccess(request);
+  if (denied) return denied;
+
+  try {
+    const namespace = new URL(request.url).searchParams.get('namespace');
+    if (namespace && !isCacheNamespace(namespace)) {
+      return invalidRequest([{ field: 'namespace', message: `must be one of ${CACHE_NAMESPACES.join(', ')}` }]);
+    }
+
+    const removed = await clearCache(isCacheNamespace(namespace) ? namespace : undefined);
+    return NextResponse.json({ cleared: namespace || 'all', removed });
+  } catch (error) {
+    return serverError('Failed to clear the response cache', error);
+  }
+}
@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { parseCitedByRequest, type CitedByResponse } from '@/lib/api-contracts';
+import { invalidRequest, parseJsonBody } from '@/lib/api-response';
+import { CITED_BY_PAGE_SIZE, findCitingPapers } from '@/lib/citations';
+import { resolvePrompts } from '@/lib/prompt-templates';
+import { withPrompts } from '@/lib/prompts';
+
+// Scoring a page of citing papers with Claude can take a while
+export const maxDuration = 300;
+
+// Papers citing a PMID, one page at a time:
+// { pmid, offset?, limit?, discussionText?, prompts? } — the discussion text turns on Claude scoring
+// with the given prompt templates
+export async function POST(request: Request) {
+  try {
+    const parsed = await parseJsonBody(request, body => parseCitedByRequest(body, CITED_BY_PAGE_SIZE));
+    if (!parsed.ok) {
+      return invalidRequest(parsed.fields);
+    }
+
+    const { pmid, prompts: selection, ...options } = parsed.value;
+    const resolved = await resolvePrompts(selection, 'prompts');
+    if ('fields' in resolved) {
+      return invalidRequest(resolved.fields);
+    }
+
+    return NextResponse.json<CitedByResponse>(
+      await withPrompts(resolved.prompts, () => findCitingPapers(pmid, options))
+    );
+  } catch (error) {
+    console.error('Citations API error:', error);
+
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+
+    return NextResponse.json({
+      error: 'Failed to load citing papers',
+      details: errorMessage
+    }, { status: 500 });
+  }
+}
@@ -1,43 +1,31 @@
 import { NextResponse } from 'next/server';
+import { parseCompletionRequest, type CompletionResponse } from '@/lib/api-contracts';
+import { invalidRequest, parseJsonBody } from '@/lib/api-response';
+import { complete, getLlmSettings } from '@/lib/llm';
+import { cacheHeaders, trackCache } from '@/lib/response-cache';
 
-const CLAUDE_API_KEY = process.env.CLAUDE_API_KEY;
-
+// { prompt, maxTokens? } → { text, provider, model }, answered by the provider configured
+// for the completion task (Claude unless LLM_PROVIDER / LLM_COMPLETION_PROVIDER says otherwise)
 export async function POST(request: Request) {
   try {
-    const body = await request.json();
-    
-    const response = await fetch('https://api.anthropic.com/v1/messages', {
-      method: 'POST',
-      headers: new Headers({
-        'Content-Type': 'application/json',
-        'x-api-key': CLAUDE_API_KEY || '',
-        'anthropic-version': '2023-06-01'
-      }),
-      body: JSON.stringify({
-        model: "claude-3-5-sonnet-20241022",
-        max_tokens: 1000,
-        messages: [{
-          role: "user",
-          content: body.prompt
-        }]
-      })
-    });
-
-    if (!response.ok) {
-      throw new Error(`Claude API responded with status: ${response.status}`);
+    const parsed = await parseJsonBody(request, parseCompletionRequest);
+    if (!parsed.ok) {
+      return invalidRequest(parsed.fields);
     }
 
-    const data = await response.json();
-    return NextResponse.json(data);
+    const { prompt, maxTokens } = parsed.value;
+    const { provider, model } = getLlmSettings('completion');
+    const { value: text, stats } = await trackCache(() => complete('completion', prompt, { maxTokens }));
+    return NextResponse.json<CompletionResponse>({ text, provider, model }, { headers: cacheHeaders(stats) });
   } catch (error) {
-    console.error('Claude API error:', error);
+    console.error('LLM API error:', error);
     
     // error 타입을 체크하여 안전하게 처리
     const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
     
     return NextResponse.json(
-      { error: 'Failed to call Claude API', details: errorMessage },
+      { error: 'Failed to call the language model', details: errorMessage },
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
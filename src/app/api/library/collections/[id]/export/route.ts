@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import { invalidRequest } from '@/lib/api-response';
+import { EXPORT_FORMATS, exportFileName, exportPapers, isExportFormat } from '@/lib/export';
+import { paperKey } from '@/lib/paper-identity';
+import { getCollection } from '@/lib/library';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Download a saved collection as BibTeX, RIS, CSL-JSON or CSV (?format=), with saved notes included
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const format = new URL(request.url).searchParams.get('format') || 'bibtex';
+
+    if (!isExportFormat(format)) {
+      return invalidRequest([{ field: 'format', message: `must be one of ${Object.keys(EXPORT_FORMATS).join(', ')}` }]);
+    }
+
+    const collection = await getCollection(id);
+    if (!collection) {
+      return NextResponse.json({ error: 'Collection not found' }, { status: 404 });
+    }
+
+    const content = exportPapers(collection.entries.map(entry => entry.paper), format, {
+      notes: Object.fromEntries(collection.entries.map(entry => [paperKey(entry.paper), entry.note]))
+    });
+
+    return new Response(content, {
+      headers: {
+        'Content-Type': `${EXPORT_FORMATS[format].mimeType}; charset=utf-8`,
+        'Content-Disposition': `attachment; filename="${exportFileName(collection.name, format)}"`
+      }
+    });
+  } catch (error) {
+    console.error('Library API error:', error);
+
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+
+    return NextResponse.json({
+      error: 'Failed to export collection',
+      details: errorMessage
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server';
+import { parseAddPapersRequest } from '@/lib/api-contracts';
+import { invalidRequest, parseJsonBody } from '@/lib/api-response';
+import { addPapersToCollection, removePaperFromCollection } from '@/lib/library';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const notFound = () => NextResponse.json({ error: 'Collection not found' }, { status: 404 });
+
+const serverError = (message: string, error: unknown) => {
+  console.error('Library API error:', error);
+
+  const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+
+  return NextResponse.json({
+    error: message,
+    details: errorMessage
+  }, { status: 500 });
+};
+
+// Add papers (e.g. from the current search results) to a collection
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const parsed = await parseJsonBody(request, parseAddPapersRequest);
+    if (!parsed.ok) {
+      return invalidRequest(parsed.fields);
+    }
+
+    const collection = await addPapersToCollection(id, parsed.value.papers);
+    return collection ? NextResponse.json({ collection }) : notFound();
+  } catch (error) {
+    return serverError('Failed to add papers to collection', error);
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const paperId = new URL(request.url).searchParams.get('paperId');
+
+    if (!paperId) {
+      return invalidRequest([{ field: 'paperId', message: 'is required' }]);
+    }
+
+    const collection = await removePaperFromCollection(id, paperId);
+    return collection ? NextResponse.json({ collection }) : notFound();
+  } catch (error) {
+    return serverError('Failed to remove paper from collection', error);
+  }
+}
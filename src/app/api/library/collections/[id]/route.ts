@@ -0,0 +1,55 @@
+import { NextResponse } from 'next/server';
+import { parseCollectionUpdate } from '@/lib/api-contracts';
+import { invalidRequest, parseJsonBody } from '@/lib/api-response';
+import { deleteCollection, getCollection, updateCollection } from '@/lib/library';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const notFound = () => NextResponse.json({ error: 'Collection not found' }, { status: 404 });
+
+const serverError = (message: string, error: unknown) => {
+  console.error('Library API error:', error);
+
+  const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+
+  return NextResponse.json({
+    error: message,
+    details: errorMessage
+  }, { status: 500 });
+};
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const collection = await getCollection(id);
+    return collection ? NextResponse.json({ collection }) : notFound();
+  } catch (error) {
+    return serverError('Failed to load collection', error);
+  }
+}
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const parsed = await parseJsonBody(request, parseCollectionUpdate);
+    if (!parsed.ok) {
+      return invalidRequest(parsed.fields);
+    }
+
+    const collection = await updateCollection(id, parsed.value);
+    return collection ? NextResponse.json({ collection }) : notFound();
+  } catch (error) {
+    return serverError('Failed to update collection', error);
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    return (await deleteCollection(id)) ? NextResponse.json({ deleted: true }) : notFound();
+  } catch (error) {
+    return serverError('Failed to delete collection', error);
+  }
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { parseCollectionInput } from '@/lib/api-contracts';
+import { invalidRequest, parseJsonBody } from '@/lib/api-response';
+import { createCollection, listCollections } from '@/lib/library';
+
+export async function GET() {
+  try {
+    return NextResponse.json({ collections: await listCollections() });
+  } catch (error) {
+    console.error('Library API error:', error);
+
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+
+    return NextResponse.json({
+      error: 'Failed to load collections',
+      details: errorMessage
+    }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const parsed = await parseJsonBody(request, parseCollectionInput);
+    if (!parsed.ok) {
+      return invalidRequest(parsed.fields);
+    }
+
+    const { name, description } = parsed.value;
+    const collection = await createCollection(name, description);
+    return NextResponse.json({ collection }, { status: 201 });
+  } catch (error) {
+    console.error('Library API error:', error);
+
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+
+    return NextResponse.json({
+      error: 'Failed to create collection',
+      details: errorMessage
+    }, { status: 500 });
+  }
+}
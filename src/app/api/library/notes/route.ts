@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { parseSaveNoteRequest } from '@/lib/api-contracts';
+import { invalidRequest, parseJsonBody } from '@/lib/api-response';
+import { getNotes, savePaperNote } from '@/lib/library';
+
+export async function GET() {
+  try {
+    return NextResponse.json({ notes: await getNotes() });
+  } catch (error) {
+    console.error('Library API error:', error);
+
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+
+    return NextResponse.json({
+      error: 'Failed to load notes',
+      details: errorMessage
+    }, { status: 500 });
+  }
+}
+
+// Save the note for a paper, adding the paper to the library if needed
+export async function PUT(request: Request) {
+  try {
+    const parsed = await parseJsonBody(request, parseSaveNoteRequest);
+    if (!parsed.ok) {
+      return invalidRequest(parsed.fields);
+    }
+
+    const { paper, note } = parsed.value;
+    return NextResponse.json({ entry: await savePaperNote(paper, note) });
+  } catch (error) {
+    console.error('Library API error:', error);
+
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+
+    return NextResponse.json({
+      error: 'Failed to save note',
+      details: errorMessage
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,69 @@
+import { NextResponse } from 'next/server';
+import { parsePromptTemplateUpdate, type PromptTemplateResponse } from '@/lib/api-contracts';
+import { invalidRequest, parseJsonBody } from '@/lib/api-response';
+import {
+  addPromptTemplateVersion,
+  deletePromptTemplate,
+  getPromptTemplate,
+  isBuiltInTemplate
+} from '@/lib/prompt-templates';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const notFound = () => NextResponse.json({ error: 'Prompt template not found' }, { status: 404 });
+
+const builtIn = () => NextResponse.json({
+  error: 'Built-in prompt templates cannot be changed; create a new template instead'
+}, { status: 400 });
+
+const serverError = (message: string, error: unknown) => {
+  console.error('Prompts API error:', error);
+
+  const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+
+  return NextResponse.json({
+    error: message,
+    details: errorMessage
+  }, { status: 500 });
+};
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const template = await getPromptTemplate(id);
+    return template ? NextResponse.json<PromptTemplateResponse>({ template }) : notFound();
+  } catch (error) {
+    return serverError('Failed to load prompt template', error);
+  }
+}
+
+// { instructions, name?, description? } → the template with the instructions saved as a new version
+export async function PUT(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    if (isBuiltInTemplate(id)) return builtIn();
+
+    const parsed = await parseJsonBody(request, parsePromptTemplateUpdate);
+    if (!parsed.ok) {
+      return invalidRequest(parsed.fields);
+    }
+
+    const template = await addPromptTemplateVersion(id, parsed.value);
+    return template ? NextResponse.json<PromptTemplateResponse>({ template }) : notFound();
+  } catch (error) {
+    return serverError('Failed to save prompt template', error);
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    if (isBuiltInTemplate(id)) return builtIn();
+
+    return (await deletePromptTemplate(id)) ? NextResponse.json({ deleted: true }) : notFound();
+  } catch (error) {
+    return serverError('Failed to delete prompt template', error);
+  }
+}
@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import {
+  parsePromptTemplateInput,
+  type PromptTemplateResponse,
+  type PromptTemplatesResponse
+} from '@/lib/api-contracts';
+import { invalidRequest, parseJsonBody } from '@/lib/api-response';
+import { createPromptTemplate, listPromptTemplates } from '@/lib/prompt-templates';
+
+// Built-in templates first, then the user's
+export async function GET() {
+  try {
+    return NextResponse.json<PromptTemplatesResponse>({ templates: await listPromptTemplates() });
+  } catch (error) {
+    console.error('Prompts API error:', error);
+
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+
+    return NextResponse.json({
+      error: 'Failed to load prompt templates',
+      details: errorMessage
+    }, { status: 500 });
+  }
+}
+
+// { name, task, description?, instructions } → the new template at version 1
+export async function POST(request: Request) {
+  try {
+    const parsed = await parseJsonBody(request, parsePromptTemplateInput);
+    if (!parsed.ok) {
+      return invalidRequest(parsed.fields);
+    }
+
+    const template = await createPromptTemplate(parsed.value);
+    return NextResponse.json<PromptTemplateResponse>({ template }, { status: 201 });
+  } catch (error) {
+    console.error('Prompts API error:', error);
+
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+
+    return NextResponse.json({
+      error: 'Failed to create prompt template',
+      details: errorMessage
+    }, { status: 500 });
+  }
+}
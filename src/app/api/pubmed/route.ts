@@ -1,101 +1,104 @@
 import { NextResponse } from 'next/server';
+import {
+  parsePubmedQuery,
+  parseResolveSeedsRequest,
+  type PubmedDoiResponse,
+  type PubmedLinksResponse,
+  type PubmedMeshResponse,
+  type PubmedPapersResponse,
+  type PubmedSearchResponse,
+  type ResolveSeedsResponse
+} from '@/lib/api-contracts';
+import { invalidRequest, parseJsonBody } from '@/lib/api-response';
+import { esearch, elink, findPmidByDoi } from '@/lib/eutils';
+import { lookupMesh } from '@/lib/mesh';
+import { fetchPaperDetails, fetchPapersByKey } from '@/lib/papers';
+import { applyFilters } from '@/lib/query-builder';
+import { cacheHeaders, trackCache } from '@/lib/response-cache';
+import { extractReferenceIds } from '@/lib/search';
+import { resolveSeeds } from '@/lib/seeds';
 
-const PUBMED_API_KEY = process.env.PUBMED_API_KEY;
-const DELAY = 1000; // 1 second delay
-
-const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+type PubmedResponse =
+  | PubmedSearchResponse
+  | PubmedPapersResponse
+  | PubmedDoiResponse
+  | PubmedLinksResponse
+  | PubmedMeshResponse;
 
 export async function GET(request: Request) {
   try {
-    const { searchParams } = new URL(request.url);
-    const term = searchParams.get('term');
-    const type = searchParams.get('type') || 'search';
-    const retmax = searchParams.get('retmax') || '20'; // Default to 20 results
-
-    await sleep(DELAY);
-
-    if (type === 'search') {
-      // The esearch endpoint to get PMIDs
-      const searchUrl = `https://eutils.ncbi.nlm.nih.gov/entrez/eutils/esearch.fcgi?db=pubmed&term=${encodeURIComponent(term || '')}&apikey=${PUBMED_API_KEY}&retmax=${retmax}&retmode=json`;
-      const response = await fetch(searchUrl);
-      const data = await response.json();
-
-      if (data.error) {
-        console.error('PubMed API error, retrying:', data.error);
-        await sleep(DELAY * 2);
-        const retryResponse = await fetch(searchUrl);
-        return NextResponse.json(await retryResponse.json());
-      }
-
-      return NextResponse.json(data);
-    } 
-    else if (type === 'summary') {
-      const ids = term?.split(',');
-      
-      // First get basic summary using esummary
-      const summaryUrl = `https://eutils.ncbi.nlm.nih.gov/entrez/eutils/esummary.fcgi?db=pubmed&id=${ids?.join(',')}&apikey=${PUBMED_API_KEY}&retmode=json&version=2.0`;
-      const summaryResponse = await fetch(summaryUrl);
-      const summaryData = await summaryResponse.json();
-
-      if (summaryData.error) {
-        console.error('PubMed summary API error, retrying:', summaryData.error);
-        await sleep(DELAY * 2);
-        const retryResponse = await fetch(summaryUrl);
-        return NextResponse.json(await retryResponse.json());
-      }
-
-      // Then get full article data including abstract using efetch
-      const fetchUrl = `https://eutils.ncbi.nlm.nih.gov/entrez/eutils/efetch.fcgi?db=pubmed&id=${ids?.join(',')}&apikey=${PUBMED_API_KEY}&retmode=xml&linkname=pubmed_pubmed_refs`;
-      const fetchResponse = await fetch(fetchUrl);
-      const fetchData = await fetchResponse.text();
-
-      // Combine the data
-      return NextResponse.json({
-        summary: summaryData,
-        full: fetchData
-      });
+    const parsed = parsePubmedQuery(new URL(request.url).searchParams);
+    if (!parsed.ok) {
+      return invalidRequest(parsed.fields);
     }
-    else if (type === 'citations') {
-      // Get papers that cite the given PMID using elink
-      const citationUrl = `https://eutils.ncbi.nlm.nih.gov/entrez/eutils/elink.fcgi?dbfrom=pubmed&db=pubmed&id=${term}&cmd=neighbor_score&linkname=pubmed_pubmed_citedin&apikey=${PUBMED_API_KEY}&retmode=json`;
-      const citationResponse = await fetch(citationUrl);
-      const citationData = await citationResponse.json();
+    const query = parsed.value;
 
-      if (citationData.error) {
-        console.error('PubMed citation API error, retrying:', citationData.error);
-        await sleep(DELAY * 2);
-        const retryResponse = await fetch(citationUrl);
-        return NextResponse.json(await retryResponse.json());
+    // X-Cache reports whether the E-utilities responses came from the response cache
+    const { value: data, stats } = await trackCache(async (): Promise<PubmedResponse> => {
+      switch (query.type) {
+        case 'search': {
+          const term = applyFilters(query.term, query.filters);
+          const searchData = await esearch(term, String(query.retmax));
+          return {
+            ids: searchData.esearchresult?.idlist || [],
+            count: Number(searchData.esearchresult?.count) || 0,
+            query: term
+          };
+        }
+        case 'summary':
+          // Parsed paper records for a list of PMIDs
+          return { papers: await fetchPaperDetails(query.ids) };
+        case 'papers':
+          // Parsed paper records (structured abstract, MeSH, authors, references);
+          // "doi:<doi>" entries are resolved to PubMed or kept as DOI-only papers
+          return { papers: await fetchPapersByKey(query.ids) };
+        case 'doi':
+          // Resolve a DOI to its PMID with an esearch on [DOI]
+          return { doi: query.doi, pmid: await findPmidByDoi(query.doi) };
+        case 'citations':
+          // PMIDs of papers that cite the given PMID (elink citedin)
+          return { pmid: query.pmid, ids: extractReferenceIds(await elink(query.pmid, 'pubmed_pubmed_citedin')) };
+        case 'references':
+          // PMIDs of papers referenced by the given PMID (elink refs)
+          return { pmid: query.pmid, ids: extractReferenceIds(await elink(query.pmid, 'pubmed_pubmed_refs')) };
+        case 'mesh':
+          // MeSH descriptors for a concept, with entry terms and tree locations
+          return { descriptors: await lookupMesh(query.term, query.retmax) };
       }
+    });
 
-      return NextResponse.json(citationData);
-    }
-    else if (type === 'references') {
-      // Get papers referenced by the given PMID using elink
-      const referencesUrl = `https://eutils.ncbi.nlm.nih.gov/entrez/eutils/elink.fcgi?dbfrom=pubmed&db=pubmed&id=${term}&cmd=neighbor_score&linkname=pubmed_pubmed_refs&apikey=${PUBMED_API_KEY}&retmode=json`;
-      const referencesResponse = await fetch(referencesUrl);
-      const referencesData = await referencesResponse.json();
+    return NextResponse.json(data, { headers: cacheHeaders(stats) });
+  } catch (error) {
+    console.error('PubMed API error:', error);
 
-      if (referencesData.error) {
-        console.error('PubMed references API error, retrying:', referencesData.error);
-        await sleep(DELAY * 2);
-        const retryResponse = await fetch(referencesUrl);
-        return NextResponse.json(await retryResponse.json());
-      }
+    // Check error type for safer error handling
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+
+    return NextResponse.json({
+      error: 'Failed to fetch from PubMed',
+      details: errorMessage
+    }, { status: 500 });
+  }
+}
 
-      return NextResponse.json(referencesData);
+// Resolve imported references ({ seeds: [{ pmid, doi, title }] }) to parsed PubMed records
+export async function POST(request: Request) {
+  try {
+    const parsed = await parseJsonBody(request, parseResolveSeedsRequest);
+    if (!parsed.ok) {
+      return invalidRequest(parsed.fields);
     }
 
-    return NextResponse.json({ error: 'Invalid request type' }, { status: 400 });
+    const { value, stats } = await trackCache(() => resolveSeeds(parsed.value.seeds));
+    return NextResponse.json<ResolveSeedsResponse>(value, { headers: cacheHeaders(stats) });
   } catch (error) {
     console.error('PubMed API error:', error);
-    
-    // Check error type for safer error handling
+
     const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
-    
-    return NextResponse.json({ 
-      error: 'Failed to fetch from PubMed',
-      details: errorMessage 
+
+    return NextResponse.json({
+      error: 'Failed to resolve references in PubMed',
+      details: errorMessage
     }, { status: 500 });
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { readJsonBody } from '@/lib/api-response';
+import { withPrompts } from '@/lib/prompts';
+import { runSearch } from '@/lib/search';
+import { isSearchRequestError, parseSearchRequest } from '@/lib/search-request';
+import { recordSession } from '@/lib/sessions';
+
+// A full search can take several minutes (Perplexity + Claude scoring per paper)
+export const maxDuration = 300;
+
+export async function POST(request: Request) {
+  try {
+    const searchRequest = await parseSearchRequest(await readJsonBody(request));
+    if (isSearchRequestError(searchRequest)) {
+      const { error, fields, status } = searchRequest;
+      return NextResponse.json({ error, fields }, { status });
+    }
+
+    const { discussionText, config, seeds } = searchRequest;
+    console.log('Search API - Discussion:', discussionText.substring(0, 100) + '...');
+
+    const result = await withPrompts(searchRequest.prompts, () => runSearch(discussionText, config, undefined, seeds));
+    const session = await recordSession(searchRequest, result);
+    return NextResponse.json({ ...result, sessionId: session.id });
+  } catch (error) {
+    console.error('Search API error:', error);
+
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+
+    return NextResponse.json({
+      error: 'Failed to run search',
+      details: errorMessage
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,79 @@
+import { NextResponse } from 'next/server';
+import { readJsonBody } from '@/lib/api-response';
+import { withPrompts } from '@/lib/prompts';
+import { runSearch } from '@/lib/search';
+import {
+  isSearchRequestError,
+  parseSearchRequest,
+  type SearchRequest,
+  type SearchRequestError
+} from '@/lib/search-request';
+import { recordSession } from '@/lib/sessions';
+import { encodeEvent } from '@/lib/sse';
+import type { SearchEventHandler } from '@/lib/types';
+
+export const maxDuration = 300;
+
+// Same pipeline as /api/search, but progress is streamed as Server-Sent Events
+// and the final result is sent as a `result` event.
+export async function POST(request: Request) {
+  // Re-runs read the stored session, which can fail before streaming starts
+  let searchRequest: SearchRequest | SearchRequestError;
+  try {
+    searchRequest = await parseSearchRequest(await readJsonBody(request));
+  } catch (error) {
+    console.error('Search stream error:', error);
+
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+
+    return NextResponse.json({
+      error: 'Failed to run search',
+      details: errorMessage
+    }, { status: 500 });
+  }
+
+  if (isSearchRequestError(searchRequest)) {
+    const { error, fields, status } = searchRequest;
+    return NextResponse.json({ error, fields }, { status });
+  }
+
+  const { discussionText, config, seeds } = searchRequest;
+
+  // Set once the client disconnects so the pipeline stops writing to the stream
+  let closed = false;
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send: SearchEventHandler = event => {
+        if (!closed) {
+          controller.enqueue(encodeEvent(event));
+        }
+      };
+
+      try {
+        const result = await withPrompts(searchRequest.prompts, () => runSearch(discussionText, config, send, seeds));
+        const session = await recordSession(searchRequest, result);
+        send({ type: 'result', result: { ...result, sessionId: session.id } });
+      } catch (error) {
+        console.error('Search stream error:', error);
+        send({ type: 'error', message: error instanceof Error ? error.message : 'An unknown error occurred' });
+      } finally {
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      closed = true;
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive'
+    }
+  });
+}
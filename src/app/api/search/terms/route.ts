@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import { parseSearchTermsRequest, type SearchTermsResponse } from '@/lib/api-contracts';
+import { invalidRequest, readJsonBody } from '@/lib/api-response';
+import { withPrompts } from '@/lib/prompts';
+import { countSearchTerms, generateQueryTerms } from '@/lib/search-terms';
+import { isSearchRequestError, parseSearchRequest } from '@/lib/search-request';
+import { resolveSeeds, searchContext } from '@/lib/seeds';
+
+// Seed lookup, term generation and one esearch per term
+export const maxDuration = 120;
+
+// First step of a reviewed search: generate the terms a search would use (or take edited ones)
+// and report their PubMed hit counts. The reviewed terms are then sent as config.terms.
+export async function POST(request: Request) {
+  try {
+    const body = await readJsonBody(request);
+    const parsed = parseSearchTermsRequest(body);
+    if (!parsed.ok) {
+      return invalidRequest(parsed.fields);
+    }
+
+    if ('terms' in parsed.value) {
+      const { terms, config } = parsed.value;
+      return NextResponse.json({ terms: await countSearchTerms(terms, config?.query) } satisfies SearchTermsResponse);
+    }
+
+    const searchRequest = await parseSearchRequest(body);
+    if (isSearchRequestError(searchRequest)) {
+      const { error, fields, status } = searchRequest;
+      return NextResponse.json({ error, fields }, { status });
+    }
+
+    const { discussionText, config, seeds } = searchRequest;
+    const { papers: seedPapers } = seeds.length > 0 ? await resolveSeeds(seeds) : { papers: [] };
+    const terms = await withPrompts(searchRequest.prompts, () =>
+      generateQueryTerms(searchContext(discussionText, seedPapers), config));
+    return NextResponse.json({ terms: await countSearchTerms(terms, config.query) } satisfies SearchTermsResponse);
+  } catch (error) {
+    console.error('Search terms API error:', error);
+
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+
+    return NextResponse.json({
+      error: 'Failed to generate search terms',
+      details: errorMessage
+    }, { status: 500 });
+  }
+}
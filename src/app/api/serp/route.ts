@@ -1,32 +1,33 @@
 import { NextResponse } from 'next/server';
-import { getJson } from 'serpapi';
-
-const SERP_API_KEY = process.env.SERP_API_KEY;
+import { parseExternalSearchRequest, type ExternalSearchResponse } from '@/lib/api-contracts';
+import { invalidRequest, parseJsonBody } from '@/lib/api-response';
+import { scholarToPaper } from '@/lib/external-search';
+import { cacheHeaders, trackCache } from '@/lib/response-cache';
+import { isSerpConfigured, searchGoogleScholar } from '@/lib/serp';
 
+// { query, maxResults? } → { papers }: Google Scholar hits as unscored papers
 export async function POST(request: Request) {
   try {
-    const body = await request.json();
-    const { query } = body;
+    const parsed = await parseJsonBody(request, parseExternalSearchRequest);
+    if (!parsed.ok) {
+      return invalidRequest(parsed.fields);
+    }
 
+    const { query, maxResults } = parsed.value;
     console.log('SERP API - Search query:', query);
 
-    if (!SERP_API_KEY) {
+    if (!isSerpConfigured()) {
       console.error('SERP API key not configured');
       return NextResponse.json({
         error: 'SERP API key is not configured'
       }, { status: 500 });
     }
 
-    const params = {
-      engine: "google_scholar",
-      q: query,
-      api_key: SERP_API_KEY,
-      num: 10
-    };
-
-    const response = await getJson(params);
+    const { value: response, stats } = await trackCache(() => searchGoogleScholar(query, maxResults));
     
-    return NextResponse.json(response);
+    return NextResponse.json<ExternalSearchResponse>({
+      papers: (response.organic_results || []).slice(0, maxResults).map(scholarToPaper)
+    }, { headers: cacheHeaders(stats) });
   } catch (error) {
     console.error('SERP API error:', error);
     
@@ -37,4 +38,4 @@ export async function POST(request: Request) {
       details: errorMessage
     }, { status: 500 });
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { getSessionDiff } from '@/lib/sessions';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Papers new / removed / re-scored since another session (?against=<id>),
+// defaulting to the session this one re-ran
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const against = new URL(request.url).searchParams.get('against') || undefined;
+    const diff = await getSessionDiff(id, against);
+
+    if (!diff) {
+      return NextResponse.json({ error: 'Session or baseline session not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ diff });
+  } catch (error) {
+    console.error('Sessions API error:', error);
+
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+
+    return NextResponse.json({
+      error: 'Failed to compare sessions',
+      details: errorMessage
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import { deleteScreening } from '@/lib/screenings';
+import { deleteSession, getSession } from '@/lib/sessions';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const notFound = () => NextResponse.json({ error: 'Session not found' }, { status: 404 });
+
+const serverError = (message: string, error: unknown) => {
+  console.error('Sessions API error:', error);
+
+  const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+
+  return NextResponse.json({
+    error: message,
+    details: errorMessage
+  }, { status: 500 });
+};
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const session = await getSession(id);
+    return session ? NextResponse.json({ session }) : notFound();
+  } catch (error) {
+    return serverError('Failed to load session', error);
+  }
+}
+
+// Deleting a session also discards its screening
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    if (!(await deleteSession(id))) return notFound();
+
+    await deleteScreening(id);
+    return NextResponse.json({ deleted: true });
+  } catch (error) {
+    return serverError('Failed to delete session', error);
+  }
+}
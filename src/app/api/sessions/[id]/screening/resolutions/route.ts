@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import { parseScreeningResolution, type ScreeningResponse } from '@/lib/api-contracts';
+import { invalidRequest, readJsonBody } from '@/lib/api-response';
+import { screeningStatus, screeningView } from '@/lib/screening-flow';
+import { getScreening, resolveConflict } from '@/lib/screenings';
+import { getSession } from '@/lib/sessions';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// { paperKey, decision, reason? } → the screening with the reviewers' conflict on the paper settled,
+// as ?reviewer=<name> sees it
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const [session, screening] = await Promise.all([getSession(id), getScreening(id)]);
+    if (!session || !screening) {
+      return NextResponse.json({ error: 'Screening not found' }, { status: 404 });
+    }
+
+    const parsed = parseScreeningResolution(await readJsonBody(request), screening);
+    if (!parsed.ok) {
+      return invalidRequest(parsed.fields);
+    }
+
+    // A settled conflict can be settled differently
+    const { status, resolved } = screeningStatus(screening, parsed.value.paperKey);
+    if (status !== 'conflict' && !resolved) {
+      return NextResponse.json({ error: 'The reviewers have no conflict on this paper' }, { status: 400 });
+    }
+
+    const updated = await resolveConflict(id, parsed.value);
+    const reviewer = new URL(request.url).searchParams.get('reviewer') || undefined;
+    return updated
+      ? NextResponse.json<ScreeningResponse>({ screening: screeningView(updated, session, reviewer) })
+      : NextResponse.json({ error: 'Screening not found' }, { status: 404 });
+  } catch (error) {
+    console.error('Screening API error:', error);
+
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+
+    return NextResponse.json({
+      error: 'Failed to resolve screening conflict',
+      details: errorMessage
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,71 @@
+import { NextResponse } from 'next/server';
+import { parseScreeningSetup, type ScreeningResponse } from '@/lib/api-contracts';
+import { invalidRequest, parseJsonBody } from '@/lib/api-response';
+import { screeningView } from '@/lib/screening-flow';
+import { deleteScreening, getScreening, saveScreening } from '@/lib/screenings';
+import { getSession } from '@/lib/sessions';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const notFound = () => NextResponse.json({ error: 'Session not found' }, { status: 404 });
+
+const serverError = (message: string, error: unknown) => {
+  console.error('Screening API error:', error);
+
+  const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+
+  return NextResponse.json({
+    error: message,
+    details: errorMessage
+  }, { status: 500 });
+};
+
+// The screening of the session's papers as ?reviewer=<name> sees it
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const session = await getSession(id);
+    if (!session) return notFound();
+
+    const screening = await getScreening(id);
+    const reviewer = new URL(request.url).searchParams.get('reviewer') || undefined;
+    return NextResponse.json<ScreeningResponse>({
+      screening: screening && screeningView(screening, session, reviewer)
+    });
+  } catch (error) {
+    return serverError('Failed to load screening', error);
+  }
+}
+
+// { reviewers, exclusionReasons } → starts screening, or updates the exclusion reasons
+export async function PUT(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const session = await getSession(id);
+    if (!session) return notFound();
+
+    const parsed = await parseJsonBody(request, parseScreeningSetup);
+    if (!parsed.ok) {
+      return invalidRequest(parsed.fields);
+    }
+
+    const screening = await saveScreening(id, parsed.value);
+    return NextResponse.json<ScreeningResponse>({ screening: screeningView(screening, session) });
+  } catch (error) {
+    return serverError('Failed to save screening', error);
+  }
+}
+
+// Discards every decision taken on the session's papers
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    return (await deleteScreening(id))
+      ? NextResponse.json({ deleted: true })
+      : NextResponse.json({ error: 'Screening not found' }, { status: 404 });
+  } catch (error) {
+    return serverError('Failed to delete screening', error);
+  }
+}
@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server';
+import { parseScreeningVote, type ScreeningResponse } from '@/lib/api-contracts';
+import { invalidRequest, readJsonBody } from '@/lib/api-response';
+import { paperKey } from '@/lib/paper-identity';
+import { screeningView } from '@/lib/screening-flow';
+import { getScreening, recordVote } from '@/lib/screenings';
+import { getSession } from '@/lib/sessions';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// { reviewer, paperKey, decision, reason? } → the screening as that reviewer sees it
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const [session, screening] = await Promise.all([getSession(id), getScreening(id)]);
+    if (!session || !screening) {
+      return NextResponse.json({ error: 'Screening not found' }, { status: 404 });
+    }
+
+    const parsed = parseScreeningVote(await readJsonBody(request), screening);
+    if (!parsed.ok) {
+      return invalidRequest(parsed.fields);
+    }
+    if (!session.papers.some(paper => paperKey(paper) === parsed.value.paperKey)) {
+      return invalidRequest([{ field: 'paperKey', message: 'must be a paper of the session' }]);
+    }
+
+    const updated = await recordVote(id, parsed.value);
+    return updated
+      ? NextResponse.json<ScreeningResponse>({ screening: screeningView(updated, session, parsed.value.reviewer) })
+      : NextResponse.json({ error: 'Screening not found' }, { status: 404 });
+  } catch (error) {
+    console.error('Screening API error:', error);
+
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+
+    return NextResponse.json({
+      error: 'Failed to record screening decision',
+      details: errorMessage
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { listSessions } from '@/lib/sessions';
+
+// Search history, most recent first (without the paper lists)
+export async function GET() {
+  try {
+    return NextResponse.json({ sessions: await listSessions() });
+  } catch (error) {
+    console.error('Sessions API error:', error);
+
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+
+    return NextResponse.json({
+      error: 'Failed to load search history',
+      details: errorMessage
+    }, { status: 500 });
+  }
+}
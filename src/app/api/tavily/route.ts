@@ -1,15 +1,19 @@
 import { NextResponse } from 'next/server';
-import { tavily } from '@tavily/core';
+import { parseExternalSearchRequest, type ExternalSearchResponse } from '@/lib/api-contracts';
+import { invalidRequest, parseJsonBody } from '@/lib/api-response';
+import { webToPaper } from '@/lib/external-search';
+import { cacheHeaders, trackCache } from '@/lib/response-cache';
+import { isTavilyConfigured, searchTavily } from '@/lib/tavily';
 
 // 환경 변수 로그
-const TAVILY_API_KEY = process.env.TAVILY_API_KEY;
-console.log('API Route - TAVILY_API_KEY exists:', !!TAVILY_API_KEY);
+console.log('API Route - TAVILY_API_KEY exists:', isTavilyConfigured());
 
+// { query, maxResults? } → { answer, papers }: web hits as unscored papers
 export async function POST(request: Request) {
   console.log('API Route - Tavily POST request received');
   try {
     // API 키 확인
-    if (!TAVILY_API_KEY) {
+    if (!isTavilyConfigured()) {
       console.error('API Route - Tavily API key is missing');
       return NextResponse.json(
         { error: 'Tavily API key is not configured' },
@@ -17,22 +21,20 @@ export async function POST(request: Request) {
       );
     }
     
-    const body = await request.json();
-    const { query } = body;
-    
+    const parsed = await parseJsonBody(request, parseExternalSearchRequest);
+    if (!parsed.ok) {
+      return invalidRequest(parsed.fields);
+    }
+
+    const { query, maxResults } = parsed.value;
     console.log('API Route - Tavily query:', query);
     
-    const tvly = tavily({ apiKey: TAVILY_API_KEY });
-    // options 객체 추가
-    const results = await tvly.search(query, {
-      searchDepth: "advanced",
-      maxResults: 5,
-      includeAnswer: true,
-      includeRawContent: false,
-      includeImages: false
-    });
+    const { value: results, stats } = await trackCache(() => searchTavily(query, maxResults));
     
-    return NextResponse.json(results);
+    return NextResponse.json<ExternalSearchResponse>({
+      answer: results.answer,
+      papers: results.results.slice(0, maxResults).map(webToPaper)
+    }, { headers: cacheHeaders(stats) });
   } catch (error) {
     console.error('API Route - Tavily search error:', error);
     
@@ -43,4 +45,4 @@ export async function POST(request: Request) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
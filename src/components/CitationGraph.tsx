@@ -0,0 +1,138 @@
+'use client';
+import React, { useMemo } from 'react';
+import { Network } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { buildCitationGraph } from '@/lib/citation-graph';
+import { paperKey } from '@/lib/paper-identity';
+import type { Paper } from '@/lib/types';
+
+const WIDTH = 900;
+const HEIGHT = 520;
+
+interface CitationGraphProps {
+  papers: Paper[];
+  selectedPaper: Paper | null;
+  // Selecting a node also loads its references and citing papers, expanding the graph
+  onSelect: (paper: Paper) => void;
+}
+
+const nodeRadius = (paper: Paper) => 4 + Math.max(0, paper.relevanceScore) * 1.2;
+
+// Citation network of the loaded papers: node size is the relevance score,
+// arrows point from the citing paper to the cited one
+export const CitationGraph = ({ papers, selectedPaper, onSelect }: CitationGraphProps) => {
+  const graph = useMemo(() => buildCitationGraph(papers, WIDTH, HEIGHT), [papers]);
+  const selectedKey = selectedPaper ? paperKey(selectedPaper) : null;
+  const positions = new Map(graph.nodes.map(node => [node.key, node]));
+
+  const hubs = graph.nodes
+    .filter(node => node.citedByResults >= graph.hubThreshold)
+    .sort((a, b) => b.citedByResults - a.citedByResults);
+
+  return (
+    <Card className="mb-6">
+      <CardHeader className="pb-2">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg flex items-center">
+            <Network className="mr-2 h-5 w-5" />
+            Citation Network
+          </CardTitle>
+          <div className="flex gap-2">
+            <Badge variant="outline">{graph.nodes.length} papers</Badge>
+            <Badge variant="outline">{graph.edges.length} citations</Badge>
+          </div>
+        </div>
+        <CardDescription>
+          Click a paper to load its references and citing papers. Orange papers are cited by
+          {' '}{graph.hubThreshold} or more of the loaded papers.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="grid gap-4 lg:grid-cols-4">
+        <svg
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          className="w-full lg:col-span-3 rounded-lg border border-gray-200 bg-white"
+        >
+          <defs>
+            <marker id="arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto">
+              <path d="M 0 0 L 10 5 L 0 10 z" fill="#9ca3af" />
+            </marker>
+          </defs>
+
+          {graph.edges.map(edge => {
+            const source = positions.get(edge.source)!;
+            const target = positions.get(edge.target)!;
+            const distance = Math.max(Math.hypot(target.x - source.x, target.y - source.y), 1);
+            // Stop the line at the target's edge so the arrow head stays visible
+            const inset = nodeRadius(target.paper) + 2;
+            const isSelected = edge.source === selectedKey || edge.target === selectedKey;
+
+            return (
+              <line
+                key={`${edge.source}>${edge.target}`}
+                x1={source.x}
+                y1={source.y}
+                x2={target.x - ((target.x - source.x) / distance) * inset}
+                y2={target.y - ((target.y - source.y) / distance) * inset}
+                stroke={isSelected ? '#2563eb' : '#d1d5db'}
+                strokeWidth={isSelected ? 1.5 : 1}
+                markerEnd="url(#arrow)"
+              />
+            );
+          })}
+
+          {graph.nodes.map(node => {
+            const isHub = node.citedByResults >= graph.hubThreshold;
+            const fill = node.paper.isMainPaper || node.paper.isSeed
+              ? '#7c3aed'
+              : isHub ? '#f97316' : '#60a5fa';
+
+            return (
+              <g key={node.key} onClick={() => onSelect(node.paper)} className="cursor-pointer">
+                <title>
+                  {`${node.paper.title} (${node.paper.year})\n${node.paper.notScored ? 'Not scored' : `Score ${node.paper.relevanceScore}/10`} · cited by ${node.citedByResults} loaded papers`}
+                </title>
+                <circle
+                  cx={node.x}
+                  cy={node.y}
+                  r={nodeRadius(node.paper)}
+                  fill={fill}
+                  fillOpacity={0.85}
+                  stroke={node.key === selectedKey ? '#1d4ed8' : '#ffffff'}
+                  strokeWidth={node.key === selectedKey ? 3 : 1}
+                />
+              </g>
+            );
+          })}
+        </svg>
+
+        <div className="text-xs space-y-3">
+          <div className="space-y-1">
+            <p className="flex items-center gap-2"><span className="inline-block h-3 w-3 rounded-full bg-violet-600" /> Main / seed paper</p>
+            <p className="flex items-center gap-2"><span className="inline-block h-3 w-3 rounded-full bg-orange-500" /> Hub (co-cited by many results)</p>
+            <p className="flex items-center gap-2"><span className="inline-block h-3 w-3 rounded-full bg-blue-400" /> Other paper</p>
+          </div>
+
+          <div>
+            <h4 className="font-medium mb-1">Hub papers</h4>
+            {hubs.length > 0 ? (
+              <ul className="space-y-1">
+                {hubs.slice(0, 10).map(node => (
+                  <li
+                    key={node.key}
+                    className="cursor-pointer text-blue-700 hover:underline line-clamp-2"
+                    onClick={() => onSelect(node.paper)}
+                  >
+                    ({node.citedByResults}) {node.paper.title}
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-gray-500">No paper is cited by {graph.hubThreshold} or more loaded papers yet</p>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
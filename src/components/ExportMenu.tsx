@@ -0,0 +1,56 @@
+'use client';
+import React, { useState } from 'react';
+import { Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { EXPORT_FORMATS, exportFileName, exportPapers, type ExportFormat } from '@/lib/export';
+import type { Paper } from '@/lib/types';
+
+interface ExportMenuProps {
+  papers: Paper[];
+  label: string;
+  // Used for the downloaded file name
+  name: string;
+  notes?: Record<string, string>;
+}
+
+// Format picker that downloads the given papers for a reference manager
+export const ExportMenu = ({ papers, label, name, notes }: ExportMenuProps) => {
+  const [format, setFormat] = useState<ExportFormat>('bibtex');
+
+  const handleExport = () => {
+    const blob = new Blob([exportPapers(papers, format, { notes })], {
+      type: `${EXPORT_FORMATS[format].mimeType};charset=utf-8`
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = exportFileName(name, format);
+    link.click();
+    // Revoking right away can cancel the download before the browser has started it
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <select
+        value={format}
+        onChange={(e) => setFormat(e.target.value as ExportFormat)}
+        className="h-8 rounded-md border border-gray-300 bg-white px-2 text-xs"
+      >
+        {Object.entries(EXPORT_FORMATS).map(([value, { label: formatLabel }]) => (
+          <option key={value} value={value}>{formatLabel}</option>
+        ))}
+      </select>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={handleExport}
+        disabled={papers.length === 0}
+        className="text-gray-600 border-gray-300 hover:bg-gray-50"
+      >
+        <Download className="mr-1 h-4 w-4" />
+        {label}
+      </Button>
+    </div>
+  );
+};
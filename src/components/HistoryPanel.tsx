@@ -0,0 +1,213 @@
+'use client';
+import React, { useState, useEffect, useCallback } from 'react';
+import { ClipboardCheck, GitCompare, History, FolderOpen, RotateCcw, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import * as sessionsClient from '@/lib/sessions-client';
+import { PROMPT_TASKS, PROMPT_TASK_LABELS, type SearchSession, type SearchSessionSummary, type SessionDiff } from '@/lib/types';
+
+interface HistoryPanelProps {
+  // Bump to reload the history after a search finished
+  refreshKey: number;
+  activeSessionId?: string;
+  disabled?: boolean;
+  onOpen: (session: SearchSession) => void;
+  onRerun: (session: SearchSessionSummary) => void;
+  onCompare: (diff: SessionDiff) => void;
+  onScreen: (session: SearchSessionSummary) => void;
+}
+
+// Past searches, with open / re-run / compare / screen actions
+export const HistoryPanel = ({
+  refreshKey,
+  activeSessionId,
+  disabled,
+  onOpen,
+  onRerun,
+  onCompare,
+  onScreen
+}: HistoryPanelProps) => {
+  const [sessions, setSessions] = useState<SearchSessionSummary[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [error, setError] = useState('');
+
+  const loadSessions = useCallback(async () => {
+    try {
+      setSessions(await sessionsClient.fetchSessions());
+      setError('');
+    } catch (err) {
+      console.error('Error loading search history:', err);
+      setError('Could not load search history');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions, refreshKey]);
+
+  const toggleSelected = (id: string) => {
+    // Keep at most two sessions selected for comparison
+    setSelectedIds(prev => prev.includes(id)
+      ? prev.filter(selected => selected !== id)
+      : [...prev, id].slice(-2));
+  };
+
+  const handleOpen = async (id: string) => {
+    try {
+      onOpen(await sessionsClient.fetchSession(id));
+    } catch (err) {
+      console.error('Error opening session:', err);
+      setError('Could not open the search');
+    }
+  };
+
+  const handleCompare = async () => {
+    // Compare the newer session against the older one
+    const [newer, older] = sessions.filter(session => selectedIds.includes(session.id));
+    if (!newer || !older) return;
+    try {
+      onCompare(await sessionsClient.fetchSessionDiff(newer.id, older.id));
+    } catch (err) {
+      console.error('Error comparing sessions:', err);
+      setError('Could not compare the searches');
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await sessionsClient.deleteSession(id);
+      setSelectedIds(prev => prev.filter(selected => selected !== id));
+      await loadSessions();
+    } catch (err) {
+      console.error('Error deleting session:', err);
+      setError('Could not delete the search');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg flex items-center">
+            <History className="mr-2 h-5 w-5" />
+            Search History
+          </CardTitle>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleCompare}
+            disabled={selectedIds.length !== 2}
+            title="Compare the two selected searches"
+          >
+            <GitCompare className="mr-1 h-4 w-4" />
+            Compare
+          </Button>
+        </div>
+        <CardDescription>Reopen, re-run or compare previous searches</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {error && <p className="text-xs text-red-600 mb-2">{error}</p>}
+
+        {sessions.length > 0 ? (
+          <ScrollArea className="h-64">
+            <ul className="space-y-2 pr-3">
+              {sessions.map(session => (
+                <li
+                  key={session.id}
+                  className={`rounded-lg border p-2 text-sm
+                    ${session.id === activeSessionId ? 'border-blue-600 bg-blue-50' : 'border-gray-200'}`}
+                >
+                  <div className="flex items-start gap-2">
+                    <Checkbox
+                      checked={selectedIds.includes(session.id)}
+                      onCheckedChange={() => toggleSelected(session.id)}
+                      className="mt-1"
+                    />
+                    <div className="min-w-0 flex-1">
+                      <p className="line-clamp-2 text-xs text-gray-800">{session.discussionText}</p>
+                      <div className="flex flex-wrap gap-1 mt-1">
+                        <Badge variant="outline" className="text-xs">
+                          {new Date(session.createdAt).toLocaleString()}
+                        </Badge>
+                        <Badge variant="outline" className="text-xs">
+                          {session.paperCount} papers
+                        </Badge>
+                        {session.pmid && (
+                          <Badge variant="outline" className="text-xs">
+                            PMID: {session.pmid}
+                          </Badge>
+                        )}
+                        {session.parentId && (
+                          <Badge variant="outline" className="text-xs bg-gray-100">
+                            Re-run
+                          </Badge>
+                        )}
+                        {/* Custom prompt templates the search ran with */}
+                        {session.prompts && PROMPT_TASKS
+                          .filter(task => !session.prompts?.[task].templateId.startsWith('builtin-'))
+                          .map(task => (
+                            <Badge
+                              key={task}
+                              variant="outline"
+                              className="text-xs bg-purple-50 text-purple-800"
+                              title={PROMPT_TASK_LABELS[task]}
+                            >
+                              {session.prompts?.[task].name} v{session.prompts?.[task].version}
+                            </Badge>
+                          ))}
+                      </div>
+                    </div>
+                  </div>
+                  <div className="flex justify-end gap-1 mt-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 w-7 p-0 text-gray-600 hover:text-blue-600"
+                      onClick={() => handleOpen(session.id)}
+                      title="Open results"
+                    >
+                      <FolderOpen className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 w-7 p-0 text-gray-600 hover:text-blue-600"
+                      onClick={() => onRerun(session)}
+                      disabled={disabled}
+                      title="Re-run search"
+                    >
+                      <RotateCcw className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 w-7 p-0 text-gray-600 hover:text-blue-600"
+                      onClick={() => onScreen(session)}
+                      title="Screen papers for a systematic review"
+                    >
+                      <ClipboardCheck className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 w-7 p-0 text-gray-600 hover:text-red-600"
+                      onClick={() => handleDelete(session.id)}
+                      title="Delete from history"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </ScrollArea>
+        ) : (
+          <p className="text-xs text-gray-500">No searches yet</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,198 @@
+'use client';
+import React, { useState, useEffect, useCallback } from 'react';
+import { FolderOpen, FolderPlus, Library, Plus, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import * as libraryClient from '@/lib/library-client';
+import type { Collection, CollectionWithPapers, Paper } from '@/lib/types';
+
+interface LibraryPanelProps {
+  // Bump to reload the collection list after papers were added elsewhere
+  refreshKey: number;
+  activeCollectionId?: string;
+  onOpenCollection: (collection: CollectionWithPapers) => void;
+}
+
+// Saved collections, with create / open / delete actions
+export const LibraryPanel = ({ refreshKey, activeCollectionId, onOpenCollection }: LibraryPanelProps) => {
+  const [collections, setCollections] = useState<Collection[]>([]);
+  const [newName, setNewName] = useState('');
+  const [error, setError] = useState('');
+
+  const loadCollections = useCallback(async () => {
+    try {
+      setCollections(await libraryClient.fetchCollections());
+      setError('');
+    } catch (err) {
+      console.error('Error loading collections:', err);
+      setError('Could not load the library');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadCollections();
+  }, [loadCollections, refreshKey]);
+
+  const handleCreate = async () => {
+    if (!newName.trim()) return;
+    try {
+      await libraryClient.createCollection(newName.trim());
+      setNewName('');
+      await loadCollections();
+    } catch (err) {
+      console.error('Error creating collection:', err);
+      setError('Could not create the collection');
+    }
+  };
+
+  const handleOpen = async (id: string) => {
+    try {
+      onOpenCollection(await libraryClient.fetchCollection(id));
+    } catch (err) {
+      console.error('Error opening collection:', err);
+      setError('Could not open the collection');
+    }
+  };
+
+  const handleDelete = async (collection: Collection) => {
+    if (!window.confirm(`Delete collection "${collection.name}"? Saved notes are kept.`)) return;
+    try {
+      await libraryClient.deleteCollection(collection.id);
+      await loadCollections();
+    } catch (err) {
+      console.error('Error deleting collection:', err);
+      setError('Could not delete the collection');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg flex items-center">
+          <Library className="mr-2 h-5 w-5" />
+          Library
+        </CardTitle>
+        <CardDescription>Reopen saved collections without re-running the search</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex gap-2">
+          <Input
+            placeholder="New collection name..."
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+          />
+          <Button variant="outline" onClick={handleCreate} disabled={!newName.trim()}>
+            <FolderPlus className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {error && <p className="text-xs text-red-600">{error}</p>}
+
+        {collections.length > 0 ? (
+          <ul className="space-y-2">
+            {collections.map(collection => (
+              <li
+                key={collection.id}
+                className={`flex items-center justify-between rounded-lg border p-2 text-sm
+                  ${collection.id === activeCollectionId ? 'border-blue-600 bg-blue-50' : 'border-gray-200'}`}
+              >
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{collection.name}</p>
+                  <Badge variant="outline" className="text-xs mt-1">
+                    {collection.paperIds.length} papers
+                  </Badge>
+                </div>
+                <div className="flex gap-1">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0 text-gray-600 hover:text-blue-600"
+                    onClick={() => handleOpen(collection.id)}
+                    title="Open collection"
+                  >
+                    <FolderOpen className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0 text-gray-600 hover:text-red-600"
+                    onClick={() => handleDelete(collection)}
+                    title="Delete collection"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-xs text-gray-500">No collections yet</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+interface AddToCollectionProps {
+  papers: Paper[];
+  label: string;
+  refreshKey: number;
+  onAdded: (collection: CollectionWithPapers) => void;
+}
+
+// Collection picker that saves the given papers into the chosen collection
+export const AddToCollection = ({ papers, label, refreshKey, onAdded }: AddToCollectionProps) => {
+  const [collections, setCollections] = useState<Collection[]>([]);
+  const [collectionId, setCollectionId] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    libraryClient.fetchCollections()
+      .then(setCollections)
+      .catch(err => console.error('Error loading collections:', err));
+  }, [refreshKey]);
+
+  const handleAdd = async () => {
+    if (!collectionId || papers.length === 0) return;
+    setSaving(true);
+    try {
+      onAdded(await libraryClient.addPapersToCollection(collectionId, papers));
+    } catch (err) {
+      console.error('Error adding papers to collection:', err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (collections.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <select
+        value={collectionId}
+        onChange={(e) => setCollectionId(e.target.value)}
+        className="h-8 rounded-md border border-gray-300 bg-white px-2 text-xs"
+      >
+        <option value="">Choose collection...</option>
+        {collections.map(collection => (
+          <option key={collection.id} value={collection.id}>{collection.name}</option>
+        ))}
+      </select>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={handleAdd}
+        disabled={!collectionId || saving || papers.length === 0}
+        className="text-blue-600 border-blue-600 hover:bg-blue-50"
+      >
+        <Plus className="mr-1 h-4 w-4" />
+        {label}
+      </Button>
+    </div>
+  );
+};
@@ -0,0 +1,134 @@
+'use client';
+import React, { useCallback, useEffect, useState } from 'react';
+import { Search, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import type { ApiErrorBody, PubmedMeshResponse } from '@/lib/api-contracts';
+import { meshTerm } from '@/lib/query-builder';
+import type { MeshDescriptor } from '@/lib/types';
+
+interface MeshLookupProps {
+  // Free text to look up, e.g. a search term; field tags and Boolean operators are dropped
+  concept: string;
+  // What choosing a descriptor does, e.g. "Add to term"
+  actionLabel: string;
+  onSelect: (descriptor: MeshDescriptor, explode: boolean) => void;
+  onClose: () => void;
+}
+
+const ENTRY_TERMS_SHOWN = 8;
+
+const plainConcept = (term: string) =>
+  term
+    .replace(/\[[^\]]*\]/g, ' ')
+    .replace(/\b(AND|OR|NOT)\b/g, ' ')
+    .replace(/["()*]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// Look up the MeSH descriptors for a concept and pick one, exploded (with its narrower
+// descriptors) or not; shows the scope note, entry terms and where it sits in the MeSH trees
+export const MeshLookup = ({ concept, actionLabel, onSelect, onClose }: MeshLookupProps) => {
+  const [text, setText] = useState(() => plainConcept(concept));
+  const [descriptors, setDescriptors] = useState<MeshDescriptor[] | null>(null);
+  const [explode, setExplode] = useState(true);
+  const [loading, setLoading] = useState(false);
+  const [status, setStatus] = useState('');
+
+  const lookUp = useCallback(async (value: string) => {
+    if (!value.trim()) return;
+
+    setLoading(true);
+    setStatus('');
+    try {
+      const response = await fetch(`/api/pubmed?type=mesh&term=${encodeURIComponent(value.trim())}`);
+      const data: PubmedMeshResponse | ApiErrorBody = await response.json();
+      if ('error' in data) {
+        throw new Error(data.error);
+      }
+      setDescriptors(data.descriptors);
+      if (data.descriptors.length === 0) {
+        setStatus('No MeSH descriptor found; try a broader or differently worded concept');
+      }
+    } catch (error) {
+      console.error('Error looking up MeSH:', error);
+      setStatus('Could not look up MeSH');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Look up the initial concept right away
+  useEffect(() => {
+    lookUp(plainConcept(concept));
+  }, [concept, lookUp]);
+
+  return (
+    <div className="space-y-2 rounded-lg border border-blue-200 bg-blue-50/40 p-3">
+      <div className="flex items-center gap-2">
+        <Input
+          aria-label="Concept to look up in MeSH"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && lookUp(text)}
+          className="h-8 text-xs"
+        />
+        <Button size="sm" variant="outline" onClick={() => lookUp(text)} disabled={loading || !text.trim()}>
+          <Search className="mr-1 h-4 w-4" />
+          {loading ? 'Looking up...' : 'MeSH'}
+        </Button>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-700" title="Close">
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <Checkbox id="meshExplode" checked={explode} onCheckedChange={(checked) => setExplode(!!checked)} />
+        <Label htmlFor="meshExplode" className="text-xs">
+          Explode (include narrower descriptors)
+        </Label>
+      </div>
+
+      {status && <p className="text-xs text-gray-600">{status}</p>}
+
+      {descriptors && descriptors.length > 0 && (
+        <ul className="max-h-72 space-y-2 overflow-y-auto">
+          {descriptors.map(descriptor => (
+            <li key={descriptor.uid} className="rounded-md border border-gray-200 bg-white p-2 text-xs">
+              <div className="flex items-start justify-between gap-2">
+                <div>
+                  <span className="font-medium">{descriptor.name}</span>
+                  <span className="ml-2 text-gray-500">{descriptor.ui}</span>
+                </div>
+                <Button size="sm" className="h-7" onClick={() => onSelect(descriptor, explode)}>
+                  {actionLabel}
+                </Button>
+              </div>
+              {descriptor.scopeNote && <p className="mt-1 line-clamp-2 text-gray-600">{descriptor.scopeNote}</p>}
+              {descriptor.trees.length > 0 && (
+                <ul className="mt-1 text-gray-600">
+                  {descriptor.trees.map(tree => (
+                    <li key={tree.treeNumber}>
+                      <span className="font-mono">{tree.treeNumber}</span>{' '}
+                      {tree.parent ? `${tree.parent.name} › ` : ''}{descriptor.name}
+                      {tree.narrower > 0 && ` (${tree.narrower} narrower)`}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {descriptor.entryTerms.length > 0 && (
+                <p className="mt-1 text-gray-500">
+                  Entry terms: {descriptor.entryTerms.slice(0, ENTRY_TERMS_SHOWN).join('; ')}
+                  {descriptor.entryTerms.length > ENTRY_TERMS_SHOWN && ` and ${descriptor.entryTerms.length - ENTRY_TERMS_SHOWN} more`}
+                </p>
+              )}
+              <p className="mt-1 font-mono text-gray-500">{meshTerm(descriptor.name, explode)}</p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
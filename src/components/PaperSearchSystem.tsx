@@ -1,6 +1,6 @@
 'use client';
-import React, { useState, useEffect, useCallback } from 'react';
-import { Search, Save, BookOpen, FileText, Clock, Star, ExternalLink, Copy } from 'lucide-react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { Search, Save, BookOpen, FileText, Clock, Star, ExternalLink, Copy, GitCompare, X, Network, SlidersHorizontal, ListChecks } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
@@ -10,33 +10,66 @@ import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Label } from '@/components/ui/label';
+import { AddToCollection, LibraryPanel } from '@/components/LibraryPanel';
+import { HistoryPanel } from '@/components/HistoryPanel';
+import { ExportMenu } from '@/components/ExportMenu';
+import { SeedImport } from '@/components/SeedImport';
+import { CitationGraph } from '@/components/CitationGraph';
+import { PromptTemplatesPanel } from '@/components/PromptTemplatesPanel';
+import { ScreeningPanel } from '@/components/ScreeningPanel';
+import { QueryBuilder } from '@/components/QueryBuilder';
+import { SearchTermsReview, type ReviewedTerm } from '@/components/SearchTermsReview';
 import _ from 'lodash';
-
-interface Paper {
-  id: string;
-  pmid: string;
-  title: string;
-  authors: string;
-  journal: string;
-  year: string;
-  abstract: string;
-  pubDate: string;
-  relevanceScore: number;
-  summary: string;
-  doi?: string;
-  url?: string;
-  citations?: string[];
-  references?: string[];
-  isExpanded?: boolean;
-}
-
-interface SearchConfig {
-  maxResults: number;
-  includeReferences: boolean;
-  includeCitations: boolean;
-}
-
-const DEFAULT_MAX_RESULTS = 20;
+import type {
+  ApiErrorBody,
+  CitedByRequest,
+  CitedByResponse,
+  PubmedPapersResponse,
+  SearchRequestBody,
+  SearchTermsResponse
+} from '@/lib/api-contracts';
+import {
+  CITATION_STYLES,
+  DEFAULT_CITATION_STYLE,
+  formatCitation,
+  formatReferenceList,
+  type CitationStyle
+} from '@/lib/citation';
+import { doiOnlyPaper } from '@/lib/doi';
+import { computeStructuralSignals, rankByBlendedScore } from '@/lib/citation-ranking';
+import * as libraryClient from '@/lib/library-client';
+import { paperKey } from '@/lib/paper-identity';
+import { mergeDuplicates } from '@/lib/paper-merge';
+import type { PaperDetails } from '@/lib/papers';
+import * as promptsClient from '@/lib/prompts-client';
+import { compileFilters, hasQueryFilters } from '@/lib/query-builder';
+import * as sessionsClient from '@/lib/sessions-client';
+import { readEventStream } from '@/lib/sse';
+import {
+  DEFAULT_MAX_RESULTS,
+  DEFAULT_SEARCH_CONFIG,
+  MAX_SEARCH_RESULTS,
+  MAX_SNOWBALL_HOPS,
+  MAX_SNOWBALL_PAPERS,
+  PROMPT_TASKS,
+  PROMPT_TASK_LABELS,
+  type Paper,
+  type PaperSource,
+  type CollectionWithPapers,
+  type DuplicateStats,
+  type PromptTemplate,
+  type SearchConfig,
+  type SearchEvent,
+  type SearchSession,
+  type SearchSessionSummary,
+  type SessionDiff
+} from '@/lib/types';
+
+const SOURCE_LABELS: Record<PaperSource, string> = {
+  pubmed: 'PubMed',
+  scholar: 'Google Scholar',
+  web: 'Web'
+};
 
 const PaperSearchSystem = () => {
   const [discussionText, setDiscussionText] = useState('');
@@ -46,15 +79,34 @@ const PaperSearchSystem = () => {
   const [selectedPaper, setSelectedPaper] = useState<Paper | null>(null);
   const [notes, setNotes] = useState<Record<string, string>>({});
   const [loading, setLoading] = useState(false);
-  const [searchConfig, setSearchConfig] = useState<SearchConfig>({
-    maxResults: DEFAULT_MAX_RESULTS,
-    includeReferences: true,
-    includeCitations: true,
-  });
+  const [searchConfig, setSearchConfig] = useState<SearchConfig>(DEFAULT_SEARCH_CONFIG);
+  const [showQueryBuilder, setShowQueryBuilder] = useState(false);
+  // Terms generated ahead of the search for review; null runs the search with fresh terms
+  const [reviewedTerms, setReviewedTerms] = useState<ReviewedTerm[] | null>(null);
+  const [suggestedTerms, setSuggestedTerms] = useState<ReviewedTerm[]>([]);
+  const [generatingTerms, setGeneratingTerms] = useState(false);
+  const [duplicateStats, setDuplicateStats] = useState<DuplicateStats | null>(null);
   const [filterText, setFilterText] = useState('');
   const [searchProgress, setSearchProgress] = useState({ current: 0, total: 0 });
+  const [searchStatus, setSearchStatus] = useState('');
+  const [searchErrors, setSearchErrors] = useState<string[]>([]);
   const [expandedAbstracts, setExpandedAbstracts] = useState<Record<string, boolean>>({});
   const [activeTab, setActiveTab] = useState('all');
+  const [activeCollection, setActiveCollection] = useState<CollectionWithPapers | null>(null);
+  const [libraryRefreshKey, setLibraryRefreshKey] = useState(0);
+  const [noteStatus, setNoteStatus] = useState('');
+  const [activeSessionId, setActiveSessionId] = useState<string | undefined>();
+  const [historyRefreshKey, setHistoryRefreshKey] = useState(0);
+  const [sessionDiff, setSessionDiff] = useState<SessionDiff | null>(null);
+  const [screeningSession, setScreeningSession] = useState<SearchSessionSummary | null>(null);
+  const [checkedPapers, setCheckedPapers] = useState<Record<string, boolean>>({});
+  const [citationStyle, setCitationStyle] = useState<CitationStyle>(DEFAULT_CITATION_STYLE);
+  const [seedPapers, setSeedPapers] = useState<PaperDetails[]>([]);
+  const [loadingCitations, setLoadingCitations] = useState(false);
+  const [showGraph, setShowGraph] = useState(false);
+  const [promptTemplates, setPromptTemplates] = useState<PromptTemplate[]>([]);
+  const [showPromptTemplates, setShowPromptTemplates] = useState(false);
+  const [blendRanking, setBlendRanking] = useState(true);
 
   // Function to copy text to clipboard
   const copyToClipboard = (text: string) => {
@@ -68,816 +120,357 @@ const PaperSearchSystem = () => {
       });
   };
 
-  // Function to generate search terms using Claude API
-  const generateSearchTerms = async (text: string) => {
-    try {
-      const response = await fetch('/api/claude', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          prompt: `You are a scientific research assistant tasked with generating detailed PubMed search terms.
-
-Given the following research discussion, generate 8-12 diverse and specific PubMed search terms. 
-Include both specific concepts and broader related areas. Include terms for:
-1. Main concepts directly mentioned
-2. Related biological mechanisms or pathways
-3. Key techniques or methodologies relevant to this research
-4. Potential applications or clinical relevance
-5. Consider including 1-2 authors if any prominent researchers are known in this field
-
-Format each search term for optimal PubMed results using appropriate search operators.
-Return only the search terms, one per line, with no additional text:
-
-${text}`
-        })
-      });
-
-      if (!response.ok) {
-        throw new Error('Claude API request failed');
-      }
-
-      const data = await response.json();
-      const searchTerms = data.content[0].text.trim().split('\n');
-      return searchTerms.filter((term: string) => term.length > 0);
-    } catch (error) {
-      console.error('Error generating search terms:', error);
-      return [text];
+  // Load parsed PubMed records for the given PMIDs (or doi: keys, encoded since DOIs may contain + & # ;)
+  const loadPapers = async (ids: string[]): Promise<PaperDetails[]> => {
+    const response = await fetch(`/api/pubmed?type=papers&term=${ids.map(encodeURIComponent).join(',')}`);
+    if (!response.ok) {
+      throw new Error('PubMed paper fetch failed');
     }
-  };
 
-  // Function to analyze paper using Claude API
-  const analyzePaperRelevance = async (paperContent: string, discussionContent: string) => {
-    try {
-      const response = await fetch('/api/claude', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          prompt: `Task: Analyze the relevance of a research paper to given discussion content.
-
-Discussion content:
-${discussionContent}
-
-Paper content:
-${paperContent}
-
-Respond with a JSON object in this exact format (and nothing else):
-{
-  "relevanceScore": <number between 1 and 10>,
-  "summary": "<three line summary with each line separated by \\n>"
-}`
-        })
-      });
-
-      if (!response.ok) {
-        throw new Error('Claude API request failed');
-      }
-
-      const data = await response.json();
-      const result = JSON.parse(data.content[0].text);
-      return {
-        relevanceScore: result.relevanceScore,
-        summary: result.summary
-      };
-    } catch (error) {
-      console.error('Error analyzing paper:', error);
-      return {
-        relevanceScore: 5,
-        summary: "1. Error analyzing paper\n2. Please try again later\n3. Service temporarily unavailable"
-      };
-    }
-  };
-
-  // Function to parse XML data
-  const parseXMLResponse = (xmlText: string) => {
-    const parser = new DOMParser();
-    return parser.parseFromString(xmlText, 'text/xml');
+    const data: PubmedPapersResponse = await response.json();
+    return data.papers;
   };
 
-  // Extract DOI from XML article
-  const extractDOI = (article: Element): string | undefined => {
-    const articleIds = article.querySelectorAll('ArticleId');
-    for (let i = 0; i < articleIds.length; i++) {
-      if (articleIds[i].getAttribute('IdType') === 'doi') {
-        return articleIds[i].textContent || undefined;
-      }
-    }
-    return undefined;
+  // Add papers that aren't in the list yet; records of papers already listed are merged into them
+  const mergePapers = (newPapers: Paper[]) => {
+    setPapers(prev => mergeDuplicates([...prev, ...newPapers]).papers);
   };
 
-  // Extract citations and references
-  const extractReferences = (article: Element): string[] => {
-    const references: string[] = [];
-    const referenceList = article.querySelectorAll('Reference');
-
-    for (let i = 0; i < referenceList.length; i++) {
-      // 여러 유형의 ID 처리
-      const pmid = referenceList[i].querySelector('ArticleId[IdType="pubmed"]');
-      const doi = referenceList[i].querySelector('ArticleId[IdType="doi"]');
-      const refArticleId = referenceList[i].querySelector('ArticleId');
-
-      if (pmid && pmid.textContent) {
-        references.push(pmid.textContent);
-      } else if (doi && doi.textContent) {
-        // DOI가 있지만 PMID가 없는 경우 처리 (필요시)
-        console.log('Reference with DOI but no PMID:', doi.textContent);
-      } else if (refArticleId && refArticleId.textContent) {
-        references.push(refArticleId.textContent);
-      }
-    }
-
-    return references;
-  }
-
-  // Function to search PubMed
-  const searchPubMed = async (searchTerm: string, maxResults = DEFAULT_MAX_RESULTS) => {
-    try {
-      console.log('Searching for term:', searchTerm, 'max results:', maxResults);
-
-      // First, search for IDs with increased retmax parameter
-      const searchResponse = await fetch(`/api/pubmed?type=search&term=${encodeURIComponent(searchTerm)}&retmax=${maxResults}`);
-      if (!searchResponse.ok) {
-        throw new Error('PubMed search failed');
-      }
-
-      const searchData = await searchResponse.json();
-      console.log('Search data:', searchData);
-
-      const ids = searchData.esearchresult?.idlist || [];
-      console.log('Found IDs:', ids);
-
-      if (ids.length === 0) {
-        return [];
-      }
-
-      // Process in batches to avoid overloading the API
-      const batchSize = 5;
-      const batches = [];
-      for (let i = 0; i < ids.length; i += batchSize) {
-        batches.push(ids.slice(i, i + batchSize));
-      }
-
-      let allPapers: Paper[] = [];
-
-      for (let i = 0; i < batches.length; i++) {
-        const batchIds = batches[i];
-        // Update progress
-        setSearchProgress({
-          current: i * batchSize,
-          total: ids.length
-        });
-
-        // Get summaries and full data for these IDs
-        const summaryResponse = await fetch(`/api/pubmed?type=summary&term=${batchIds.join(',')}`);
-        if (!summaryResponse.ok) {
-          throw new Error('PubMed summary fetch failed');
-        }
-
-        const summaryData = await summaryResponse.json();
-
-        // XML parsing
-        const xmlDoc = parseXMLResponse(summaryData.full);
-        const articles = xmlDoc.getElementsByTagName('PubmedArticle');
-
-        // Process the papers data
-        const summaryResult = summaryData.summary.result;
-        const batchPapers = Object.entries(summaryResult || {})
-          .filter(([key]) => key !== 'uids')
-          .map(([_, paper]) => {
-            const typedPaper = paper as {
-              uid: string;
-              title: string;
-              authors: Array<{ name: string }>;
-              source: string;
-              pubdate: string;
-            };
-
-            // Get abstract and other data from XML
-            const articleId = typedPaper.uid;
-            let abstractText = 'No abstract available';
-            let doi: string | undefined;
-            let references: string[] = [];
-
-            // Find the corresponding article in XML
-            for (let i = 0; i < articles.length; i++) {
-              const pmid = articles[i].querySelector('PMID')?.textContent;
-              if (pmid === articleId) {
-                // Extract abstract
-                const abstractElement = articles[i].querySelector('Abstract AbstractText');
-                if (abstractElement) {
-                  abstractText = abstractElement.textContent || abstractText;
-                }
-
-                // Extract DOI
-                doi = extractDOI(articles[i]);
-
-                // Extract references
-                references = extractReferences(articles[i]);
-
-                break;
-              }
-            }
-
-            // Construct paper URL
-            const pmcId = doi ? `https://doi.org/${doi}` : `https://pubmed.ncbi.nlm.nih.gov/${articleId}/`;
-
-            return {
-              id: typedPaper.uid,
-              pmid: typedPaper.uid,
-              title: typedPaper.title || 'No title available',
-              authors: Array.isArray(typedPaper.authors)
-                ? typedPaper.authors.map(author => author.name).join(', ')
-                : 'Unknown authors',
-              journal: typedPaper.source || 'Unknown journal',
-              year: typedPaper.pubdate?.split(' ')[0] || 'Unknown year',
-              abstract: abstractText,
-              pubDate: typedPaper.pubdate || 'Unknown date',
-              doi: doi,
-              url: pmcId,
-              references: references
-            };
-          });
-
-        // Analyze each paper using Claude
-        const analysisPromises = batchPapers.map(async paper => {
-          const paperContent = `Title: ${paper.title}\nAbstract: ${paper.abstract}`;
-          const analysis = await analyzePaperRelevance(paperContent, discussionText);
-          return {
-            ...paper,
-            relevanceScore: analysis.relevanceScore,
-            summary: analysis.summary
-          };
-        });
-
-        const papersWithAnalysis = await Promise.all(analysisPromises);
-        allPapers = [...allPapers, ...papersWithAnalysis];
-
-        // Short pause to avoid rate limiting
-        await new Promise(resolve => setTimeout(resolve, 1000));
-      }
-
-      console.log('All papers with analysis:', allPapers);
-      return allPapers;
-    } catch (error) {
-      console.error('Error searching PubMed:', error);
-      return [];
+  // Load the next page of papers citing `paper` from PubMed's cited-by links (elink citedin)
+  const loadCitingPapers = async (paper: Paper): Promise<Paper> => {
+    const request: Partial<CitedByRequest> = {
+      pmid: paper.pmid,
+      offset: paper.citationsOffset || 0,
+      discussionText: searchConfig.scoreCitations ? discussionText : undefined,
+      prompts: searchConfig.prompts
+    };
+    const response = await fetch('/api/citations', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(request)
+    });
+    if (!response.ok) {
+      throw new Error('Cited-by lookup failed');
     }
-  };
 
-  // Function to find papers that cite a given PMID
-  const findCitingPapers = async (pmid: string, maxResults = 10) => {
-    try {
-      const searchResponse = await fetch(`/api/pubmed?type=search&term=${pmid}[PMID]+AND+cited[sb]&retmax=${maxResults}`);
-      if (!searchResponse.ok) {
-        throw new Error('PubMed citation search failed');
-      }
-
-      const searchData = await searchResponse.json();
-      const citationIds = searchData.esearchresult?.idlist || [];
-
-      if (citationIds.length === 0) {
-        return [];
-      }
-
-      // Use the same processing as the main search
-      const summaryResponse = await fetch(`/api/pubmed?type=summary&term=${citationIds.join(',')}`);
-      if (!summaryResponse.ok) {
-        throw new Error('PubMed citation summary fetch failed');
-      }
-
-      const summaryData = await summaryResponse.json();
-      const xmlDoc = parseXMLResponse(summaryData.full);
-      const articles = xmlDoc.getElementsByTagName('PubmedArticle');
-      const summaryResult = summaryData.summary.result;
-
-      const citingPapers = Object.entries(summaryResult || {})
-        .filter(([key]) => key !== 'uids')
-        .map(([_, paper]) => {
-          const typedPaper = paper as {
-            uid: string;
-            title: string;
-            authors: Array<{ name: string }>;
-            source: string;
-            pubdate: string;
-          };
-
-          // Get abstract and other data from XML
-          const articleId = typedPaper.uid;
-          let abstractText = 'No abstract available';
-          let doi: string | undefined;
-
-          // Find the corresponding article in XML
-          for (let i = 0; i < articles.length; i++) {
-            const articlePmid = articles[i].querySelector('PMID')?.textContent;
-            if (articlePmid === articleId) {
-              const abstractElement = articles[i].querySelector('Abstract AbstractText');
-              if (abstractElement) {
-                abstractText = abstractElement.textContent || abstractText;
-              }
-              doi = extractDOI(articles[i]);
-              break;
-            }
-          }
-
-          const pmcId = doi ? `https://doi.org/${doi}` : `https://pubmed.ncbi.nlm.nih.gov/${articleId}/`;
-
-          return {
-            id: typedPaper.uid,
-            pmid: typedPaper.uid,
-            title: typedPaper.title || 'No title available',
-            authors: Array.isArray(typedPaper.authors)
-              ? typedPaper.authors.map(author => author.name).join(', ')
-              : 'Unknown authors',
-            journal: typedPaper.source || 'Unknown journal',
-            year: typedPaper.pubdate?.split(' ')[0] || 'Unknown year',
-            abstract: abstractText,
-            pubDate: typedPaper.pubdate || 'Unknown date',
-            doi: doi,
-            url: pmcId,
-            relevanceScore: 7, // Default score for citing papers
-            summary: "1. Paper cites the selected paper\n2. May contain relevant follow-up research\n3. Check for extensions or contradictions to the original work"
-          };
-        });
-
-      return citingPapers;
-    } catch (error) {
-      console.error('Error finding citing papers:', error);
-      return [];
-    }
+    const page: CitedByResponse = await response.json();
+    mergePapers(page.papers);
+    return {
+      ...paper,
+      citations: [...(paper.citations || []), ...page.papers.map(p => p.id)],
+      citationCount: page.total,
+      citationsOffset: page.nextOffset
+    };
   };
 
   // 참고문헌 논문 가져오기 함수
-  const findReferencedPapers = async (referenceIds: string[], maxResults = 100) => {
-    try {
-      if (!referenceIds || referenceIds.length === 0) {
-        return [];
-      }
-
-      // 배치 크기를 작게 설정 (10개씩)
-      const batchSize = 10;
-      const allReferencedPapers = [];
-
-      // 최대 결과 수 제한
-      const idsToProcess = referenceIds.slice(0, maxResults);
-
-      // 배치 단위로 처리
-      for (let i = 0; i < idsToProcess.length; i += batchSize) {
-        const batchIds = idsToProcess.slice(i, i + batchSize);
-
-        // 로그 추가
-        console.log(`Processing batch ${i / batchSize + 1}, IDs:`, batchIds);
-
-        try {
-          // 각 ID를 개별적으로 처리 (API 오류 방지)
-          for (const id of batchIds) {
-            try {
-              const singleResponse = await fetch(`/api/pubmed?type=summary&term=${id}`);
-              if (!singleResponse.ok) continue;
-
-              const singleData = await singleResponse.json();
-              if (!singleData || !singleData.summary || !singleData.summary.result) {
-                console.log('Skipping invalid response for ID:', id);
-                continue;
-              }
-
-              const xmlDoc = parseXMLResponse(singleData.full);
-              const article = xmlDoc.querySelector('PubmedArticle');
-
-              if (!article) continue;
-
-              // 논문 정보 추출
-              const pmid = article.querySelector('PMID')?.textContent;
-              if (!pmid) continue;
-
-              const paperData = singleData.summary.result[pmid];
-              if (!paperData) continue;
-
-              // 초록 추출
-              let abstractText = 'No abstract available';
-              const abstractElement = article.querySelector('Abstract AbstractText');
-              if (abstractElement) {
-                abstractText = abstractElement.textContent || abstractText;
-              }
-
-              // DOI 추출
-              const doi = extractDOI(article);
-
-              // URL 구성
-              const pmcId = doi ? `https://doi.org/${doi}` : `https://pubmed.ncbi.nlm.nih.gov/${pmid}/`;
-
-              // 참고문헌 논문 정보 구성
-              const paper = {
-                id: pmid,
-                pmid: pmid,
-                title: paperData.title || 'No title available',
-                authors: Array.isArray(paperData.authors)
-                  ? paperData.authors.map((author: { name: string }) => author.name).join(', ')
-                  : 'Unknown authors',
-                journal: paperData.source || 'Unknown journal',
-                year: paperData.pubdate?.split(' ')[0] || 'Unknown year',
-                abstract: abstractText,
-                pubDate: paperData.pubdate || 'Unknown date',
-                doi: doi,
-                url: pmcId,
-                relevanceScore: 8, // 참고문헌은 관련성 높음
-                summary: "1. Referenced in the main paper\n2. Provides important background research\n3. Essential for understanding the research context"
-              };
-
-              allReferencedPapers.push(paper);
-            } catch (idError) {
-              console.error(`Error processing reference ID ${id}:`, idError);
-            }
-
-            // API 제한 방지를 위한 지연
-            await new Promise(resolve => setTimeout(resolve, 300));
-          }
-        } catch (batchError) {
-          console.error(`Error processing batch starting at index ${i}:`, batchError);
-        }
-      }
-
-      return allReferencedPapers;
-    } catch (error) {
-      console.error('Error finding referenced papers:', error);
+  const findReferencedPapers = async (
+    referenceIds: string[],
+    maxResults = 100,
+    citations: Record<string, string> = {}
+  ): Promise<Paper[]> => {
+    if (!referenceIds || referenceIds.length === 0) {
       return [];
     }
-  };
 
-  const extractPMIDFromAbstract = (text: string): string | null => {
-    const pmidMatch = text.match(/PMID:\s*(\d+)/i);
-    return pmidMatch ? pmidMatch[1] : null;
-  };
+    // 최대 결과 수 제한
+    const idsToProcess = referenceIds.slice(0, maxResults);
 
-  interface PaperResponse {
-    summary: {
-      result: Record<string, {
-        uid: string;
-        title?: string;
-        authors?: Array<{ name: string }>;
-        source?: string;
-        pubdate?: string;
-      }>;
-    };
-    full: string;
-  }
-
-  const processPaperData = (paperData: PaperResponse): Paper => {
+    // 한 번의 요청으로 조회 (요청 속도는 서버의 E-utilities 클라이언트가 제한)
     try {
-      // XML 파싱
-      const xmlDoc = parseXMLResponse(paperData.full);
-      const articles = xmlDoc.getElementsByTagName('PubmedArticle');
-
-      // 결과 데이터 가져오기
-      const summaryResult = paperData.summary.result;
-      const pmid = Object.keys(summaryResult).find(key => key !== 'uids');
-
-      if (!pmid) {
-        throw new Error('No PMID found in paper data');
-      }
-
-      const paper = summaryResult[pmid];
-
-      // 논문 정보 찾기
-      let abstractText = 'No abstract available';
-      let doi = undefined;
-      const references: string[] = [];
-
-      // XML에서 해당 논문 찾기
-      for (let i = 0; i < articles.length; i++) {
-        const articlePmid = articles[i].querySelector('PMID')?.textContent;
-        if (articlePmid === pmid) {
-          // 초록 추출
-          const abstractElement = articles[i].querySelector('Abstract AbstractText');
-          if (abstractElement) {
-            abstractText = abstractElement.textContent || abstractText;
-          }
-
-          // DOI 추출
-          doi = extractDOI(articles[i]);
-
-          // 참고문헌 추출
-          const refs = extractReferences(articles[i]);
-          references.push(...refs);
-
-          break;
-        }
-      }
-
-      // URL 구성
-      const pmcId = doi ? `https://doi.org/${doi}` : `https://pubmed.ncbi.nlm.nih.gov/${pmid}/`;
-
-      return {
-        id: pmid,
-        pmid: pmid,
-        title: paper.title || 'No title available',
-        authors: Array.isArray(paper.authors)
-          ? paper.authors.map(author => author.name).join(', ')
-          : 'Unknown authors',
-        journal: paper.source || 'Unknown journal',
-        year: paper.pubdate?.split(' ')[0] || 'Unknown year',
-        abstract: abstractText,
-        pubDate: paper.pubdate || 'Unknown date',
-        doi: doi,
-        url: pmcId,
-        references: references,
-        relevanceScore: 10, // 직접 검색된 논문은 높은 관련성 점수 부여
-        summary: "1. This paper was directly searched by PMID\n2. Full content and references are available\n3. Central paper for the research topic"
-      };
+      const referencedPapers = await loadPapers(idsToProcess);
+      return referencedPapers.map(paper => ({
+        // DOI 전용 참고문헌은 참고문헌 목록의 인용 텍스트로 표시
+        ...(!paper.pmid && paper.doi ? doiOnlyPaper(paper.doi, citations[paperKey(paper)]) : paper),
+        relevanceScore: 8, // 참고문헌은 관련성 높음
+        summary: "1. Referenced in the main paper\n2. Provides important background research\n3. Essential for understanding the research context"
+      }));
     } catch (error) {
-      console.error('Error processing paper data:', error);
-      return {
-        id: 'unknown',
-        pmid: 'unknown',
-        title: 'Error loading paper',
-        authors: 'Unknown',
-        journal: 'Unknown',
-        year: 'Unknown',
-        abstract: 'An error occurred while loading this paper.',
-        pubDate: 'Unknown',
-        relevanceScore: 5,
-        summary: "1. Error occurred while loading paper\n2. Try again later\n3. Check PMID format and try searching again"
-      };
+      console.error('Error loading referenced papers:', error);
+      return [];
     }
   };
 
-  interface ReferenceData {
-    linksets?: Array<{
-      linksetdbs?: Array<{
-        linkname?: string;
-        links?: Array<{ id: string } | string>;
-      }>;
-    }>;
-  }
-
-  // 참고문헌 ID 추출 함수
-  const extractReferenceIds = (referencesData: ReferenceData): string[] => {
-    try {
-      console.log('Reference data structure:', JSON.stringify(referencesData));
-      
-      // 모든 가능한 링크셋 검사
-      const allIds: string[] = [];
-      
-      if (referencesData?.linksets && referencesData.linksets.length > 0) {
-        referencesData.linksets.forEach(linkset => {
-          if (linkset.linksetdbs) {
-            linkset.linksetdbs.forEach(db => {
-              // 모든 링크 유형 로깅
-              console.log(`Found linkname: ${db.linkname}, links count: ${db.links?.length || 0}`);
-              
-              // 참고문헌 관련 링크 포함
-              if (db.linkname && (
-                  db.linkname.includes('pubmed_pubmed_refs') || 
-                  db.linkname.includes('pubmed_pubmed_citedin') ||
-                  db.linkname.includes('pubmed_pubmed')
-                ) && db.links) {
-                const ids = db.links.map(link => typeof link === 'object' ? link.id : link);
-                allIds.push(...ids);
-              }
-            });
-          }
-        });
-      }
-      
-      // 중복 제거
-      return [...new Set(allIds)];
-    } catch (error) {
-      console.error('Error extracting reference IDs:', error);
-      return [];
+  // Apply a progress event from the search stream to the UI state
+  const handleSearchEvent = (event: SearchEvent) => {
+    switch (event.type) {
+      case 'phase':
+        setSearchStatus(event.message);
+        setSearchProgress({ current: 0, total: 0 });
+        break;
+      case 'terms':
+        setSearchTerms(event.searchTerms);
+        break;
+      case 'term':
+        setSearchStatus(`Searching "${event.term}" (${event.index + 1}/${event.total})`);
+        break;
+      case 'fetched':
+        setSearchProgress(prev => ({ current: prev.current, total: event.total }));
+        break;
+      case 'scored':
+        // 점수가 매겨진 논문을 즉시 목록에 추가
+        setSearchProgress({ current: event.scored, total: event.total });
+        setPapers(prev => _.orderBy(
+          mergeDuplicates([...prev, ...event.papers]).papers,
+          ['isMainPaper', 'isSeed', 'relevanceScore'],
+          ['desc', 'desc', 'desc']
+        ));
+        break;
+      case 'error':
+        setSearchErrors(prev => [...prev, event.message]);
+        break;
+      case 'result':
+        setSearchTerms(event.result.searchTerms);
+        setDuplicateStats(event.result.duplicates || null);
+        setPapers(event.result.papers);
+        setFilteredPapers(event.result.papers);
+        setActiveSessionId(event.result.sessionId);
+        break;
     }
   };
 
-  // Perplexity API를 사용하여 초록으로부터 논문의 PMID 찾기
-  const findPMIDWithPerplexity = async (abstract: string): Promise<string | null> => {
-    try {
-      console.log('Searching with Perplexity API');
+  const seedReferences = () =>
+    seedPapers.map(paper => paper.pmid ? { pmid: paper.pmid } : { doi: paper.doi, title: paper.title });
 
-      const response = await fetch('/api/perplexity', {
+  // 검색 전에 검색어를 생성하고 PubMed 검색 건수와 함께 검토 목록에 표시
+  const handleGenerateTerms = async () => {
+    setGeneratingTerms(true);
+    setSearchErrors([]);
+    try {
+      const response = await fetch('/api/search/terms', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json'
         },
-        body: JSON.stringify({ textContent: abstract })
+        body: JSON.stringify({
+          discussionText,
+          config: { ...searchConfig, terms: undefined },
+          seeds: seedReferences()
+        } satisfies SearchRequestBody)
       });
-
-      if (!response.ok) {
-        throw new Error(`Perplexity API request failed with status ${response.status}`);
+      const data: SearchTermsResponse | ApiErrorBody = await response.json();
+      if ('error' in data) {
+        throw new Error(data.error);
       }
 
-      const data = await response.json();
-      console.log('Perplexity API response:', data);
-
-      // Perplexity 응답에서 PMID 추출
-      if (data.choices && data.choices.length > 0) {
-        const responseText = data.choices[0].message.content.trim();
-
-        // PMID만 응답으로 받았는지 확인
-        if (/^\d{8}$/.test(responseText)) {
-          return responseText;
-        }
-
-        // 또는 응답 텍스트에서 PMID 패턴 추출
-        const pmidMatch = responseText.match(/PMID:?\s*(\d{8})/i) ||
-          responseText.match(/\b(\d{8})\b/);
-
-        if (pmidMatch) {
-          return pmidMatch[1];
-        }
-
-        //  NOT_FOUND인 경우 citations에서 PMID 추출 시도
-        if (responseText === 'NOT_FOUND' && data.citations && data.citations.length > 0) {
-          // citations에서 PMID 추출 시도
-          for (const url of data.citations) {
-            const pmidMatch = url.match(/pubmed\.ncbi\.nlm\.nih\.gov\/(\d+)/);
-            if (pmidMatch) {
-              console.log('Found PMID in citations:', pmidMatch[1]);
-              return pmidMatch[1]; // 첫 번째 citation의 PMID 반환
-            }
-          }
-        }
-      }
-
-      return null;
+      // 검색 시 기본으로 사용하는 상위 검색어만 목록에 넣고 나머지는 제안으로 표시
+      const userTerms = searchConfig.query?.clauses.some(clause => clause.value.trim()) ? 1 : 0;
+      const defaultCount = Math.min(data.terms.length, 5 + userTerms);
+      const budget = Math.max(1, Math.ceil(searchConfig.maxResults / Math.max(1, defaultCount)));
+      const terms = data.terms.map(count => ({ ...count, maxResults: budget }));
+      setReviewedTerms(terms.slice(0, defaultCount));
+      setSuggestedTerms(terms.slice(defaultCount));
     } catch (error) {
-      console.error('Error finding PMID with Perplexity API:', error);
-      return null;
+      console.error('Error generating search terms:', error);
+      setSearchErrors([error instanceof Error && error.message.startsWith('Invalid request')
+        ? error.message
+        : 'Could not generate search terms. Please try again.']);
+    } finally {
+      setGeneratingTerms(false);
     }
   };
 
-  const handleDiscussionSubmit = async () => {
+  // Run a new search, or re-run a saved session with its original text and settings
+  const handleDiscussionSubmit = async (rerun?: SearchSessionSummary) => {
     setLoading(true);
+    setActiveCollection(null);
+    setSessionDiff(null);
     setPapers([]);
     setFilteredPapers([]);
+    setSearchTerms([]);
+    setDuplicateStats(null);
+    setSearchErrors([]);
     setSelectedPaper(null);
+    setCheckedPapers({});
     setActiveTab('all');
 
     try {
-      // 초기 논문 결과 배열
-      let allResults: Paper[] = [];
-
-      // 1. 초록에서 PMID 직접 추출 시도
-      let pmid = extractPMIDFromAbstract(discussionText);
-
-      // PMID 추출 실패 시 Perplexity API 검색 시도
-      if (!pmid) {
-        console.log('PMID not found in abstract, trying Perplexity API search');
-        pmid = await findPMIDWithPerplexity(discussionText);
+      // 검색 파이프라인 전체를 서버에서 실행하고 진행 상황을 SSE로 수신
+      const request: SearchRequestBody = rerun
+        ? { rerunOf: rerun.id }
+        : {
+          discussionText,
+          // 검토한 검색어가 있으면 생성 단계 없이 그대로 사용
+          config: {
+            ...searchConfig,
+            terms: reviewedTerms
+              ?.filter(term => term.term.trim())
+              .map(({ term, maxResults }) => ({ term: term.trim(), maxResults }))
+          },
+          seeds: seedReferences()
+        };
+      const response = await fetch('/api/search/stream', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(request)
+      });
 
-        if (pmid) {
-          console.log('PMID found via Perplexity API search:', pmid);
-        }
+      if (!response.ok) {
+        const data: Partial<ApiErrorBody> = await response.json().catch(() => ({}));
+        throw new Error(data.error || `Search request failed with status ${response.status}`);
       }
 
-      // 2. PMID로 메인 논문과 참고문헌 가져오기 (존재하는 경우)
-      if (pmid) {
-        console.log('Using PMID for search:', pmid);
-
-        // 2.1 메인 논문 정보 가져오기
-        const paperResponse = await fetch(`/api/pubmed?type=summary&term=${pmid}`);
-        if (paperResponse.ok) {
-          const paperData = await paperResponse.json();
-          const mainPaper = {
-            ...processPaperData(paperData),
-            isMainPaper: true  // 메인 논문 표시
-          };
-
-          // 2.2 참고문헌 가져오기
-          const referencesResponse = await fetch(`/api/pubmed?type=references&term=${pmid}`);
-          const referencesData = await referencesResponse.json();
-          const refIds = extractReferenceIds(referencesData);
-
-          // 2.3 참고문헌 정보 가져오기
-          let referencesPapers: Paper[] = [];
-          if (refIds.length > 0) {
-            // 최대 결과 수에 따라 참고문헌 수 조정
-            // searchConfig.maxResults의 80%를 참고문헌에 할당
-            const maxReferencesToGet = Math.floor(searchConfig.maxResults * 0.8);
-            referencesPapers = await findReferencedPapers(refIds, maxReferencesToGet);
-          }
-
-          // 2.4 메인 논문과 참고문헌 추가
-          allResults = [mainPaper, ...referencesPapers];
+      let sessionId: string | undefined;
+      await readEventStream(response, event => {
+        if (event.type === 'result') {
+          sessionId = event.result.sessionId;
         }
-      }
-
-      // 3. 키워드 기반 검색 (추가적인 관련 논문을 찾기 위해)
-      const terms = await generateSearchTerms(discussionText);
-      setSearchTerms(terms);
-      console.log('Generated search terms for additional papers:', terms);
-
-      // 각 키워드당 검색 결과를 합친 다음 관련성으로 정렬하여 상위 논문만 선택
-      const allKeywordResults: Paper[] = [];
-
-      // 각 검색어에 대해 더 많은 결과를 가져와서 나중에 필터링
-      const keywordsToUse = terms.slice(0, 5); // 상위 5개 키워드만 사용
-
-      // 남은 20%를 키워드 검색 결과에 할당
-      const remainingSpots = Math.max(2, searchConfig.maxResults - allResults.length);
-      // 키워드당 결과 수 계산 (최소 1개)
-      const resultsPerKeyword = Math.max(1, Math.ceil(remainingSpots / keywordsToUse.length));
-
-      for (const term of keywordsToUse) {
-        console.log(`Searching for keyword: ${term}`);
-        const results = await searchPubMed(term, resultsPerKeyword);
-        allKeywordResults.push(...results);
-        await new Promise(resolve => setTimeout(resolve, 1000)); // API 제한 방지
-      }
-
-      // 관련성 점수로 모든 키워드 검색 결과 정렬
-      const sortedKeywordResults = _.orderBy(allKeywordResults, ['relevanceScore'], ['desc']);
-
-      // 4. 중복 제거 및 상위 결과 선택
-      // 이미 가져온 논문의 PMID 목록
-      const existingPmids = allResults.map(paper => paper.pmid);
-
-      // 중복되지 않는 키워드 검색 결과 중 관련성 높은 상위 6개만 선택
-      const uniqueTopResults = [];
-      let count = 0;
-      // 최대 결과 수의 20%를 추가 논문에 할당 (최소 2개)
-      const maxAdditionalPapers = Math.max(2, Math.floor(searchConfig.maxResults * 0.2));
+        handleSearchEvent(event);
+      });
 
-      for (const paper of sortedKeywordResults) {
-        if (!existingPmids.includes(paper.pmid)) {
-          uniqueTopResults.push(paper);
-          count++;
-          if (count >= maxAdditionalPapers) break;
-        }
+      // 재실행이면 이전 실행과 비교한 결과를 표시
+      if (rerun && sessionId) {
+        setSessionDiff(await sessionsClient.fetchSessionDiff(sessionId));
       }
-
-      console.log(`Selected ${uniqueTopResults.length} most relevant unique papers from keyword search`);
-
-      // 5. 최종 결과 구성 (메인 논문, 참고문헌, 키워드 검색 결과)
-      const finalResults = [...allResults, ...uniqueTopResults];
-
-      // 메인 논문 우선, 그 다음 관련성 점수로 정렬
-      const sortedResults = _.orderBy(finalResults, ['isMainPaper', 'relevanceScore'], ['desc', 'desc']);
-
-      console.log('Final results count:', sortedResults.length,
-        '(Main paper + references:', allResults.length,
-        ', Additional papers:', uniqueTopResults.length, ')');
-
-      setPapers(sortedResults);
-      setFilteredPapers(sortedResults);
     } catch (error) {
       console.error('Error in search:', error);
+      // Rejected requests (400) explain which fields were invalid
+      setSearchErrors(prev => [...prev, error instanceof Error && error.message.startsWith('Invalid request')
+        ? error.message
+        : 'Search failed. Please try again.']);
     } finally {
       setLoading(false);
+      setSearchStatus('');
       setSearchProgress({ current: 0, total: 0 });
+      setHistoryRefreshKey(key => key + 1);
     }
   };
+
+  const rerunSession = (session: SearchSessionSummary) => {
+    setDiscussionText(session.discussionText);
+    setSearchConfig({ ...DEFAULT_SEARCH_CONFIG, ...session.config });
+    handleDiscussionSubmit(session);
+  };
+
+  // 저장된 검색 결과를 다시 검색하지 않고 열기
+  const openSession = (session: SearchSession) => {
+    setActiveSessionId(session.id);
+    setActiveCollection(null);
+    setSessionDiff(null);
+    setDiscussionText(session.discussionText);
+    setSearchConfig({ ...DEFAULT_SEARCH_CONFIG, ...session.config });
+    setSeedPapers(session.papers.filter(paper => paper.isSeed));
+    setPapers(session.papers);
+    setFilteredPapers(session.papers);
+    setSearchTerms(session.searchTerms);
+    setDuplicateStats(session.duplicates || null);
+    setSearchErrors([]);
+    setSelectedPaper(null);
+    setCheckedPapers({});
+    setActiveTab('all');
+  };
   const handlePaperSelect = async (paper: Paper) => {
     setSelectedPaper(paper);
 
     // If references or citations should be included and haven't been loaded yet
     if ((searchConfig.includeReferences || searchConfig.includeCitations) && !paper.citations) {
       try {
-        const paperWithExtras = { ...paper };
-
-        // Load citations if needed
-        if (searchConfig.includeCitations) {
-          const citingPapers = await findCitingPapers(paper.pmid);
-          paperWithExtras.citations = citingPapers.map(p => p.id);
-
-          // Add citations to papers array if not already present
-          const newPapers = [...papers];
-          citingPapers.forEach(citingPaper => {
-            if (!newPapers.some(p => p.id === citingPaper.id)) {
-              newPapers.push(citingPaper);
-            }
-          });
-          setPapers(newPapers);
-          setFilteredPapers(filterPapers(newPapers, filterText, activeTab));
+        let paperWithExtras = { ...paper };
+
+        // Load the first page of citing papers (only PubMed records can be looked up)
+        if (searchConfig.includeCitations && paper.pmid) {
+          paperWithExtras = await loadCitingPapers(paperWithExtras);
         }
 
         // Load references if needed and not already loaded
         if (searchConfig.includeReferences && paper.references && paper.references.length > 0) {
-          const referencedPapers = await findReferencedPapers(paper.references);
-
-          // Add references to papers array if not already present
-          const newPapers = [...papers];
-          referencedPapers.forEach(refPaper => {
-            if (!newPapers.some(p => p.id === refPaper.id)) {
-              newPapers.push(refPaper);
-            }
-          });
-          setPapers(newPapers);
-          setFilteredPapers(filterPapers(newPapers, filterText, activeTab));
+          mergePapers(await findReferencedPapers(paper.references, 100, paper.referenceCitations));
         }
 
         setSelectedPaper(paperWithExtras);
+        updatePaper(paperWithExtras);
       } catch (error) {
         console.error('Error loading paper references/citations:', error);
       }
     }
   };
 
+  // Keep the list entry in sync with the selected paper's loaded citations
+  const updatePaper = (updated: Paper) => {
+    setPapers(prev => prev.map(paper => paper.id === updated.id ? updated : paper));
+  };
+
+  // Next page of cited-by results for the selected paper
+  const loadMoreCitations = async () => {
+    if (!selectedPaper) return;
+    setLoadingCitations(true);
+    try {
+      const updated = await loadCitingPapers(selectedPaper);
+      setSelectedPaper(updated);
+      updatePaper(updated);
+    } catch (error) {
+      console.error('Error loading more citing papers:', error);
+    } finally {
+      setLoadingCitations(false);
+    }
+  };
+
   const saveNote = (paperId: string, note: string) => {
     setNotes(prev => ({
       ...prev,
       [paperId]: note
     }));
+    setNoteStatus('');
+  };
+
+  // 노트를 라이브러리에 저장 (페이지를 새로고침해도 유지)
+  const persistNote = async (paper: Paper) => {
+    try {
+      await libraryClient.savePaperNote(paper, notes[paperKey(paper)] || '');
+      setNoteStatus('Saved');
+    } catch (error) {
+      console.error('Error saving note:', error);
+      setNoteStatus('Could not save note');
+    }
+  };
+
+  // 저장된 컬렉션을 검색 없이 다시 열기
+  const openCollection = (collection: CollectionWithPapers) => {
+    const collectionPapers = collection.entries.map(entry => entry.paper);
+    setActiveCollection(collection);
+    setActiveSessionId(undefined);
+    setSessionDiff(null);
+    setPapers(collectionPapers);
+    setFilteredPapers(collectionPapers);
+    setSearchTerms([]);
+    setSearchErrors([]);
+    setSelectedPaper(null);
+    setCheckedPapers({});
+    setActiveTab('all');
+    setNotes(prev => ({
+      ...prev,
+      ...Object.fromEntries(collection.entries.map(entry => [paperKey(entry.paper), entry.note]))
+    }));
+  };
+
+  const handlePapersAdded = (collection: CollectionWithPapers) => {
+    setLibraryRefreshKey(key => key + 1);
+    if (activeCollection?.id === collection.id) {
+      setActiveCollection(collection);
+    }
+  };
+
+  const removeFromActiveCollection = async (paper: Paper) => {
+    if (!activeCollection) return;
+    try {
+      const collection = await libraryClient.removePaperFromCollection(activeCollection.id, paperKey(paper));
+      openCollection(collection);
+      setLibraryRefreshKey(key => key + 1);
+    } catch (error) {
+      console.error('Error removing paper from collection:', error);
+    }
+  };
+
+  const togglePaperChecked = (paper: Paper) => {
+    const key = paperKey(paper);
+    setCheckedPapers(prev => ({
+      ...prev,
+      [key]: !prev[key]
+    }));
   };
 
   const toggleAbstractExpansion = (paperId: string) => {
@@ -887,6 +480,9 @@ Respond with a JSON object in this exact format (and nothing else):
     }));
   };
 
+  // Bibliographic coupling and co-citation, recomputed as references and citations load
+  const structuralSignals = useMemo(() => computeStructuralSignals(papers), [papers]);
+
   // Filter papers based on search text and active tab
   const filterPapers = useCallback((allPapers: Paper[], searchText: string, tab: string) => {
     let filtered = allPapers;
@@ -906,7 +502,10 @@ Respond with a JSON object in this exact format (and nothing else):
     if (tab === 'recent') {
       filtered = _.orderBy(filtered, ['year', 'relevanceScore'], ['desc', 'desc']);
     } else if (tab === 'relevant') {
-      filtered = _.orderBy(filtered, ['relevanceScore'], ['desc']);
+      // 구조적으로 중심에 있는 논문이 AI 점수가 낮아도 묻히지 않도록 혼합 점수로 정렬
+      filtered = blendRanking
+        ? rankByBlendedScore(filtered, structuralSignals)
+        : _.orderBy(filtered, ['relevanceScore'], ['desc']);
     } else if (tab === 'citations' && selectedPaper) {
       filtered = filtered.filter(paper =>
         selectedPaper.citations?.includes(paper.id)
@@ -918,103 +517,361 @@ Respond with a JSON object in this exact format (and nothing else):
     }
 
     return filtered;
-  }, [selectedPaper]);
+  }, [selectedPaper, blendRanking, structuralSignals]);
 
   // Handle filter change
+  // Load saved notes from the library
+  useEffect(() => {
+    libraryClient.fetchNotes()
+      .then(savedNotes => setNotes(prev => ({ ...savedNotes, ...prev })))
+      .catch(error => console.error('Error loading notes:', error));
+  }, []);
+
+  const loadPromptTemplates = useCallback(() => {
+    promptsClient.fetchPromptTemplates()
+      .then(setPromptTemplates)
+      .catch(error => console.error('Error loading prompt templates:', error));
+  }, []);
+
+  useEffect(() => {
+    loadPromptTemplates();
+  }, [loadPromptTemplates]);
+
   useEffect(() => {
     setFilteredPapers(filterPapers(papers, filterText, activeTab));
   }, [filterText, activeTab, filterPapers, papers]);
 
+  // Save and export act on the checked papers, or on the whole filtered list when none are checked
+  const checkedList = papers.filter(paper => checkedPapers[paperKey(paper)]);
+  const actionPapers = checkedList.length > 0 ? checkedList : filteredPapers;
+
+  const hasMoreCitations = !!selectedPaper?.citations
+    && (selectedPaper.citationsOffset ?? 0) < (selectedPaper.citationCount ?? 0);
+
+  // Papers that were not in the run the current diff compares against
+  const newPaperKeys = new Set(sessionDiff?.added.map(paperKey) || []);
+
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Header */}
       <div className="bg-white border-b">
-        <div className="max-w-7xl mx-auto px-4 py-6">
-          <h1 className="text-2xl font-bold text-gray-900">Research Paper Search System</h1>
-          <p className="mt-2 text-sm text-gray-600">Find comprehensive relevant papers with citations and references</p>
+        <div className="max-w-7xl mx-auto px-4 py-6 flex items-start justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Research Paper Search System</h1>
+            <p className="mt-2 text-sm text-gray-600">Find comprehensive relevant papers with citations and references</p>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => setShowPromptTemplates(!showPromptTemplates)}>
+            <SlidersHorizontal className="mr-1 h-4 w-4" />
+            Prompt Templates
+          </Button>
         </div>
       </div>
 
       {/* Main Content */}
       <div className="max-w-7xl mx-auto px-4 py-6">
-        {/* Input Section */}
-        <Card className="mb-6">
-          <CardHeader>
-            <CardTitle className="text-lg">Research Discussion</CardTitle>
-            <CardDescription>Enter your discussion content to find relevant papers</CardDescription>
-          </CardHeader>
-          <CardContent>
-            <Textarea
-              value={discussionText}
-              onChange={(e) => setDiscussionText(e.target.value)}
-              className="mb-4 h-40 resize-none"
-              placeholder="Enter your research discussion content here..."
-            />
-
-            <div className="grid md:grid-cols-3 gap-4 mb-4">
-              <div>
-                <Label htmlFor="maxResults">Maximum Papers to Retrieve</Label>
-                <Input
-                  id="maxResults"
-                  type="number"
-                  min="10"
-                  max="100"
-                  value={searchConfig.maxResults}
-                  onChange={(e) => setSearchConfig({
-                    ...searchConfig,
-                    maxResults: parseInt(e.target.value) || DEFAULT_MAX_RESULTS
-                  })}
+        <div className="grid gap-6 mb-6 lg:grid-cols-3">
+          {/* Input Section */}
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <CardTitle className="text-lg">Research Discussion</CardTitle>
+              <CardDescription>Enter your discussion content to find relevant papers</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Textarea
+                value={discussionText}
+                onChange={(e) => setDiscussionText(e.target.value)}
+                className="mb-4 h-40 resize-none"
+                placeholder="Enter your research discussion content here..."
+              />
+
+              <SeedImport seedPapers={seedPapers} disabled={loading} onChange={setSeedPapers} />
+
+              {/* PubMed 검색어 필드 태그와 필터 (날짜, 논문 유형, 언어, 종, 무료 전문) */}
+              <button
+                onClick={() => setShowQueryBuilder(!showQueryBuilder)}
+                className="mb-2 text-sm text-blue-600 hover:underline"
+              >
+                {showQueryBuilder ? 'Hide' : 'Show'} advanced PubMed query
+                {!showQueryBuilder && (searchConfig.query?.clauses.length || hasQueryFilters(searchConfig.query)) ? ' (active)' : ''}
+              </button>
+              {showQueryBuilder && (
+                <QueryBuilder
+                  query={searchConfig.query}
+                  disabled={loading}
+                  onChange={(query) => setSearchConfig({ ...searchConfig, query })}
                 />
-              </div>
+              )}
 
-              <div className="flex items-center space-x-2">
-                <Checkbox
-                  id="includeCitations"
-                  checked={searchConfig.includeCitations}
-                  onCheckedChange={(checked) =>
-                    setSearchConfig({
+              <div className="grid md:grid-cols-3 gap-4 mb-4">
+                <div>
+                  <Label htmlFor="maxResults">Maximum Papers to Retrieve</Label>
+                  <Input
+                    id="maxResults"
+                    type="number"
+                    min="10"
+                    max={MAX_SEARCH_RESULTS}
+                    value={searchConfig.maxResults}
+                    onChange={(e) => setSearchConfig({
                       ...searchConfig,
-                      includeCitations: !!checked
-                    })
-                  }
-                />
-                <Label htmlFor="includeCitations">Include Citing Papers</Label>
+                      maxResults: parseInt(e.target.value) || DEFAULT_MAX_RESULTS
+                    })}
+                  />
+                </div>
+
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="includeCitations"
+                    checked={searchConfig.includeCitations}
+                    onCheckedChange={(checked) =>
+                      setSearchConfig({
+                        ...searchConfig,
+                        includeCitations: !!checked
+                      })
+                    }
+                  />
+                  <Label htmlFor="includeCitations">Include Citing Papers</Label>
+                </div>
+
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="scoreCitations"
+                    checked={searchConfig.scoreCitations}
+                    disabled={!searchConfig.includeCitations}
+                    onCheckedChange={(checked) =>
+                      setSearchConfig({
+                        ...searchConfig,
+                        scoreCitations: !!checked
+                      })
+                    }
+                  />
+                  <Label htmlFor="scoreCitations">Score Citing Papers with Claude</Label>
+                </div>
+
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="includeReferences"
+                    checked={searchConfig.includeReferences}
+                    onCheckedChange={(checked) =>
+                      setSearchConfig({
+                        ...searchConfig,
+                        includeReferences: !!checked
+                      })
+                    }
+                  />
+                  <Label htmlFor="includeReferences">Include Referenced Papers</Label>
+                </div>
+
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="includeScholar"
+                    checked={searchConfig.includeScholar}
+                    onCheckedChange={(checked) =>
+                      setSearchConfig({
+                        ...searchConfig,
+                        includeScholar: !!checked
+                      })
+                    }
+                  />
+                  <Label htmlFor="includeScholar">Include Google Scholar</Label>
+                </div>
+
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="includeWeb"
+                    checked={searchConfig.includeWeb}
+                    onCheckedChange={(checked) =>
+                      setSearchConfig({
+                        ...searchConfig,
+                        includeWeb: !!checked
+                      })
+                    }
+                  />
+                  <Label htmlFor="includeWeb">Include Web Results</Label>
+                </div>
+
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="snowball"
+                    checked={searchConfig.snowball}
+                    onCheckedChange={(checked) =>
+                      setSearchConfig({
+                        ...searchConfig,
+                        snowball: !!checked
+                      })
+                    }
+                  />
+                  <Label htmlFor="snowball">Snowball Search</Label>
+                </div>
               </div>
 
-              <div className="flex items-center space-x-2">
-                <Checkbox
-                  id="includeReferences"
-                  checked={searchConfig.includeReferences}
-                  onCheckedChange={(checked) =>
-                    setSearchConfig({
-                      ...searchConfig,
-                      includeReferences: !!checked
-                    })
-                  }
+              {/* 스노우볼 검색: 참고문헌(역방향)과 피인용 논문(순방향)을 여러 단계 추적 */}
+              {searchConfig.snowball && (
+                <div className="mb-4 rounded-lg border border-gray-200 p-3">
+                  <p className="mb-2 text-xs text-gray-600">
+                    Follows referenced papers (backward) and citing papers (forward) from the seed and main papers,
+                    scoring each candidate and keeping only relevant papers for the next hop. Directions follow the
+                    Include Referenced / Citing Papers options.
+                  </p>
+                  <div className="grid md:grid-cols-3 gap-4">
+                    <div>
+                      <Label htmlFor="snowballHops">Hops</Label>
+                      <Input
+                        id="snowballHops"
+                        type="number"
+                        min="1"
+                        max={MAX_SNOWBALL_HOPS}
+                        value={searchConfig.snowballHops}
+                        onChange={(e) => setSearchConfig({
+                          ...searchConfig,
+                          snowballHops: parseInt(e.target.value) || DEFAULT_SEARCH_CONFIG.snowballHops
+                        })}
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="snowballMinScore">Minimum Relevance Score</Label>
+                      <Input
+                        id="snowballMinScore"
+                        type="number"
+                        min="1"
+                        max="10"
+                        value={searchConfig.snowballMinScore}
+                        onChange={(e) => setSearchConfig({
+                          ...searchConfig,
+                          snowballMinScore: parseInt(e.target.value) || DEFAULT_SEARCH_CONFIG.snowballMinScore
+                        })}
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="snowballMaxPapers">Papers to Score (budget)</Label>
+                      <Input
+                        id="snowballMaxPapers"
+                        type="number"
+                        min="1"
+                        max={MAX_SNOWBALL_PAPERS}
+                        value={searchConfig.snowballMaxPapers}
+                        onChange={(e) => setSearchConfig({
+                          ...searchConfig,
+                          snowballMaxPapers: parseInt(e.target.value) || DEFAULT_SEARCH_CONFIG.snowballMaxPapers
+                        })}
+                      />
+                    </div>
+                  </div>
+                </div>
+              )}
+
+              {/* 검색어 생성, 관련성 평가, 요약에 사용할 프롬프트 템플릿 */}
+              <div className="grid md:grid-cols-3 gap-4 mb-4">
+                {PROMPT_TASKS.map(task => {
+                  const ref = searchConfig.prompts?.[task];
+                  return (
+                    <div key={task}>
+                      <Label htmlFor={`prompt-${task}`}>{PROMPT_TASK_LABELS[task]} Prompt</Label>
+                      <select
+                        id={`prompt-${task}`}
+                        value={ref?.templateId || `builtin-${task}`}
+                        onChange={(e) => setSearchConfig({
+                          ...searchConfig,
+                          prompts: { ...searchConfig.prompts, [task]: { templateId: e.target.value } }
+                        })}
+                        className="h-10 w-full rounded-md border border-gray-300 bg-white px-2 text-sm"
+                      >
+                        {promptTemplates.filter(template => template.task === task).map(template => (
+                          <option key={template.id} value={template.id}>
+                            {template.name} (v{template.id === ref?.templateId && ref.version
+                              ? ref.version
+                              : template.versions[template.versions.length - 1].version})
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  );
+                })}
+              </div>
+
+              {reviewedTerms && (
+                <SearchTermsReview
+                  terms={reviewedTerms}
+                  suggestions={suggestedTerms}
+                  query={searchConfig.query}
+                  disabled={loading}
+                  onChange={(terms, suggestions) => {
+                    setReviewedTerms(terms);
+                    setSuggestedTerms(suggestions);
+                  }}
+                  onDiscard={() => {
+                    setReviewedTerms(null);
+                    setSuggestedTerms([]);
+                  }}
                 />
-                <Label htmlFor="includeReferences">Include Referenced Papers</Label>
+              )}
+
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  onClick={handleGenerateTerms}
+                  disabled={loading || generatingTerms || (!discussionText.trim() && seedPapers.length === 0)}
+                  title="Generate the search terms and check their PubMed hit counts before searching"
+                >
+                  <ListChecks className="mr-2 h-4 w-4" />
+                  {generatingTerms ? 'Generating...' : reviewedTerms ? 'Regenerate Terms' : 'Review Terms First'}
+                </Button>
+                <Button
+                  onClick={() => handleDiscussionSubmit()}
+                  disabled={loading || generatingTerms || (!discussionText.trim() && seedPapers.length === 0)}
+                  className="flex-1 bg-blue-600 hover:bg-blue-700"
+                >
+                  {loading ? (
+                    <div className="flex items-center">
+                      <div className="animate-spin mr-2 h-4 w-4 border-2 border-white border-opacity-50 border-t-transparent rounded-full"></div>
+                      Searching...
+                    </div>
+                  ) : (
+                    <>
+                      <Search className="mr-2 h-4 w-4" />
+                      {reviewedTerms?.some(term => term.term.trim()) ? 'Search with Reviewed Terms' : 'Search Papers'}
+                    </>
+                  )}
+                </Button>
               </div>
-            </div>
+            </CardContent>
+          </Card>
+
+          <div className="space-y-6">
+            {/* Library */}
+            <LibraryPanel
+              refreshKey={libraryRefreshKey}
+              activeCollectionId={activeCollection?.id}
+              onOpenCollection={openCollection}
+            />
 
-            <Button
-              onClick={handleDiscussionSubmit}
+            {/* Search History */}
+            <HistoryPanel
+              refreshKey={historyRefreshKey}
+              activeSessionId={activeSessionId}
               disabled={loading}
-              className="w-full bg-blue-600 hover:bg-blue-700"
-            >
-              {loading ? (
-                <div className="flex items-center">
-                  <div className="animate-spin mr-2 h-4 w-4 border-2 border-white border-opacity-50 border-t-transparent rounded-full"></div>
-                  Searching...
-                </div>
-              ) : (
-                <>
-                  <Search className="mr-2 h-4 w-4" />
-                  Search Papers
-                </>
-              )}
-            </Button>
-          </CardContent>
-        </Card>
+              onOpen={openSession}
+              onRerun={rerunSession}
+              onCompare={setSessionDiff}
+              onScreen={setScreeningSession}
+            />
+          </div>
+        </div>
+
+        {showPromptTemplates && promptTemplates.length > 0 && (
+          <PromptTemplatesPanel
+            templates={promptTemplates}
+            onChange={loadPromptTemplates}
+            onClose={() => setShowPromptTemplates(false)}
+          />
+        )}
+
+        {screeningSession && (
+          <ScreeningPanel
+            key={screeningSession.id}
+            session={screeningSession}
+            onClose={() => setScreeningSession(null)}
+          />
+        )}
 
         {/* Search Terms */}
         {searchTerms.length > 0 && (
@@ -1033,24 +890,125 @@ Respond with a JSON object in this exact format (and nothing else):
                 ))}
               </div>
             </div>
+            {hasQueryFilters(searchConfig.query) && (
+              <p className="mt-2 text-xs text-gray-500">
+                PubMed filters: <span className="font-mono">{compileFilters(searchConfig.query!)}</span>
+              </p>
+            )}
+            {duplicateStats && duplicateStats.total > 0 && (
+              <p className="mt-2 text-xs text-gray-500">
+                Merged {duplicateStats.total} duplicate record{duplicateStats.total === 1 ? '' : 's'}
+                {' '}({duplicateStats.byPmid} by PMID, {duplicateStats.byDoi} by DOI, {duplicateStats.byTitle} by title, year and first author)
+              </p>
+            )}
           </div>
         )}
 
         {/* Loading Progress Bar */}
-        {loading && searchProgress.total > 0 && (
+        {loading && (searchStatus || searchProgress.total > 0) && (
           <div className="mb-6">
-            <div className="w-full bg-gray-200 rounded-full h-2.5 mb-2">
-              <div
-                className="bg-blue-600 h-2.5 rounded-full"
-                style={{ width: `${(searchProgress.current / searchProgress.total) * 100}%` }}
-              ></div>
+            {searchProgress.total > 0 && (
+              <div className="w-full bg-gray-200 rounded-full h-2.5 mb-2">
+                <div
+                  className="bg-blue-600 h-2.5 rounded-full"
+                  style={{ width: `${(searchProgress.current / searchProgress.total) * 100}%` }}
+                ></div>
+              </div>
+            )}
+            <div className="flex justify-between text-xs text-gray-600">
+              <span>{searchStatus}</span>
+              {searchProgress.total > 0 && (
+                <span>Processing {searchProgress.current} of {searchProgress.total} papers</span>
+              )}
             </div>
-            <p className="text-xs text-gray-600 text-right">
-              Processing {searchProgress.current} of {searchProgress.total} papers
-            </p>
           </div>
         )}
 
+        {/* Search Errors */}
+        {searchErrors.length > 0 && (
+          <div className="mb-6 rounded-lg border border-amber-300 bg-amber-50 p-3 text-xs text-amber-800 space-y-1">
+            {searchErrors.map((message, index) => (
+              <p key={index}>{message}</p>
+            ))}
+          </div>
+        )}
+
+        {/* Session Diff */}
+        {sessionDiff && (
+          <Card className="mb-6">
+            <CardHeader className="pb-2">
+              <div className="flex items-center justify-between">
+                <CardTitle className="text-lg flex items-center">
+                  <GitCompare className="mr-2 h-5 w-5" />
+                  Changes Since Previous Run
+                </CardTitle>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 w-7 p-0"
+                  onClick={() => setSessionDiff(null)}
+                  title="Close"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <Badge variant="outline" className="bg-green-50 text-green-800">
+                  {sessionDiff.added.length} new
+                </Badge>
+                <Badge variant="outline" className="bg-red-50 text-red-800">
+                  {sessionDiff.removed.length} no longer found
+                </Badge>
+                <Badge variant="outline">
+                  {sessionDiff.scoreChanges.length} score changes
+                </Badge>
+              </div>
+            </CardHeader>
+            <CardContent className="grid gap-4 md:grid-cols-3 text-xs">
+              <div>
+                <h4 className="font-medium mb-1">New papers</h4>
+                <ul className="space-y-1">
+                  {sessionDiff.added.map(paper => (
+                    <li
+                      key={paperKey(paper)}
+                      className="cursor-pointer text-blue-700 hover:underline line-clamp-2"
+                      onClick={() => handlePaperSelect(papers.find(p => paperKey(p) === paperKey(paper)) || paper)}
+                    >
+                      {paper.title}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+              <div>
+                <h4 className="font-medium mb-1">No longer found</h4>
+                <ul className="space-y-1 text-gray-600">
+                  {sessionDiff.removed.map(paper => (
+                    <li key={paperKey(paper)} className="line-clamp-2">{paper.title}</li>
+                  ))}
+                </ul>
+              </div>
+              <div>
+                <h4 className="font-medium mb-1">Score changes</h4>
+                <ul className="space-y-1">
+                  {sessionDiff.scoreChanges.map(({ paper, previousScore }) => (
+                    <li key={paperKey(paper)} className="line-clamp-2">
+                      <span className="font-medium">{previousScore} → {paper.relevanceScore}</span> {paper.title}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {showGraph && papers.length > 0 && (
+          <CitationGraph
+            papers={papers}
+            selectedPaper={selectedPaper}
+            onSelect={handlePaperSelect}
+          />
+        )}
+
         {/* Results Section */}
         <div className="flex gap-6 flex-col lg:flex-row">
           {/* Paper List */}
@@ -1058,9 +1016,61 @@ Respond with a JSON object in this exact format (and nothing else):
             <Card>
               <CardHeader className="pb-2">
                 <div className="flex items-center justify-between">
-                  <CardTitle className="text-lg">Found Papers</CardTitle>
+                  <CardTitle className="text-lg">
+                    {activeCollection ? activeCollection.name : 'Found Papers'}
+                  </CardTitle>
                   <Badge variant="outline">{filteredPapers.length} papers</Badge>
                 </div>
+                {activeCollection && (
+                  <p className="text-xs text-gray-500">Saved collection</p>
+                )}
+
+                {checkedList.length > 0 && (
+                  <div className="flex items-center gap-2 text-xs text-gray-600">
+                    <span>{checkedList.length} selected</span>
+                    <button
+                      onClick={() => setCheckedPapers({})}
+                      className="text-blue-600 hover:underline"
+                    >
+                      Clear
+                    </button>
+                  </div>
+                )}
+
+                <div className="mt-2 space-y-2">
+                  <AddToCollection
+                    papers={actionPapers}
+                    label={checkedList.length > 0 ? 'Save selected' : 'Save all'}
+                    refreshKey={libraryRefreshKey}
+                    onAdded={handlePapersAdded}
+                  />
+                  <ExportMenu
+                    papers={actionPapers}
+                    label={checkedList.length > 0 ? 'Export selected' : 'Export list'}
+                    name={activeCollection?.name || 'papers'}
+                    notes={notes}
+                  />
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => copyToClipboard(formatReferenceList(actionPapers, citationStyle))}
+                    disabled={actionPapers.length === 0}
+                    className="text-gray-600 border-gray-300 hover:bg-gray-50"
+                  >
+                    <Copy className="mr-1 h-4 w-4" />
+                    Copy reference list ({CITATION_STYLES[citationStyle].label})
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setShowGraph(!showGraph)}
+                    disabled={papers.length === 0}
+                    className="text-gray-600 border-gray-300 hover:bg-gray-50"
+                  >
+                    <Network className="mr-1 h-4 w-4" />
+                    {showGraph ? 'Hide citation graph' : 'Show citation graph'}
+                  </Button>
+                </div>
 
                 <div className="mt-2">
                   <Input
@@ -1083,12 +1093,25 @@ Respond with a JSON object in this exact format (and nothing else):
                       </TabsTrigger>
                     </TabsList>
                   </Tabs>
+
+                  {activeTab === 'relevant' && (
+                    <div className="mt-2 flex items-center space-x-2">
+                      <Checkbox
+                        id="blendRanking"
+                        checked={blendRanking}
+                        onCheckedChange={(checked) => setBlendRanking(!!checked)}
+                      />
+                      <Label htmlFor="blendRanking" className="text-xs">
+                        Blend AI score with coupling and co-citation
+                      </Label>
+                    </div>
+                  )}
                 </div>
               </CardHeader>
 
               <ScrollArea className="h-[calc(100vh-400px)]">
                 <div className="p-4 space-y-4">
-                  {loading ? (
+                  {loading && filteredPapers.length === 0 ? (
                     <div className="flex items-center justify-center py-8">
                       <div className="animate-spin h-8 w-8 border-4 border-blue-600 border-opacity-50 border-t-transparent rounded-full"></div>
                     </div>
@@ -1102,7 +1125,15 @@ Respond with a JSON object in this exact format (and nothing else):
                             : 'border-gray-200 hover:border-blue-400 hover:bg-gray-50'}`}
                         onClick={() => handlePaperSelect(paper)}
                       >
-                        <h3 className="font-medium text-sm line-clamp-2 mb-2">{paper.title}</h3>
+                        <div className="flex items-start gap-2 mb-2">
+                          <Checkbox
+                            checked={!!checkedPapers[paperKey(paper)]}
+                            onCheckedChange={() => togglePaperChecked(paper)}
+                            onClick={(e) => e.stopPropagation()}
+                            className="mt-0.5"
+                          />
+                          <h3 className="font-medium text-sm line-clamp-2">{paper.title}</h3>
+                        </div>
 
                         <div className="flex flex-wrap gap-2 mb-2">
                           <Badge variant="outline" className="text-xs bg-gray-100">
@@ -1112,12 +1143,64 @@ Respond with a JSON object in this exact format (and nothing else):
 
                           <Badge variant="outline" className="text-xs bg-blue-100 text-blue-800">
                             <Star className="h-3 w-3 mr-1" />
-                            Score: {paper.relevanceScore}/10
+                            {paper.notScored ? 'Not scored' : `Score: ${paper.relevanceScore}/10`}
                           </Badge>
 
-                          <Badge variant="outline" className="text-xs">
-                            PMID: {paper.pmid}
-                          </Badge>
+                          {activeTab === 'relevant' && blendRanking && structuralSignals[paperKey(paper)] && (
+                            <Badge
+                              variant="outline"
+                              className="text-xs bg-indigo-50 text-indigo-800"
+                              title={`Structural score ${structuralSignals[paperKey(paper)].structuralScore}/10`}
+                            >
+                              Blended: {structuralSignals[paperKey(paper)].blendedScore}
+                            </Badge>
+                          )}
+
+                          {paper.pmid && (
+                            <Badge variant="outline" className="text-xs">
+                              PMID: {paper.pmid}
+                            </Badge>
+                          )}
+
+                          {paper.source && paper.source !== 'pubmed' && (
+                            <Badge variant="outline" className="text-xs bg-amber-50 text-amber-800">
+                              {SOURCE_LABELS[paper.source]}
+                            </Badge>
+                          )}
+
+                          {paper.provenance && paper.provenance.length > 1 && (
+                            <Badge
+                              variant="outline"
+                              className="text-xs bg-gray-50"
+                              title={paper.provenance.map(record => `${SOURCE_LABELS[record.source]}: ${record.id}`).join('\n')}
+                            >
+                              {paper.provenance.length} records merged
+                            </Badge>
+                          )}
+
+                          {!paper.pmid && paper.doi && !paper.source && (
+                            <Badge variant="outline" className="text-xs bg-gray-50">
+                              DOI only
+                            </Badge>
+                          )}
+
+                          {paper.isSeed && (
+                            <Badge variant="outline" className="text-xs bg-purple-50 text-purple-800">
+                              Seed
+                            </Badge>
+                          )}
+
+                          {paper.snowballHop && (
+                            <Badge variant="outline" className="text-xs bg-teal-50 text-teal-800">
+                              Hop {paper.snowballHop}
+                            </Badge>
+                          )}
+
+                          {newPaperKeys.has(paperKey(paper)) && (
+                            <Badge variant="outline" className="text-xs bg-green-50 text-green-800">
+                              New
+                            </Badge>
+                          )}
                         </div>
 
                         <div className="mt-2 text-xs text-gray-600 line-clamp-2">
@@ -1148,9 +1231,19 @@ Respond with a JSON object in this exact format (and nothing else):
                                 {paper.references.length} refs
                               </Badge>
                             )}
-                            {paper.citations && paper.citations.length > 0 && (
+                            {paper.citationCount !== undefined && (
                               <Badge variant="outline" className="text-xs">
-                                {paper.citations.length} cites
+                                Cited by {paper.citationCount}
+                              </Badge>
+                            )}
+                            {structuralSignals[paperKey(paper)]?.coupling > 0 && (
+                              <Badge variant="outline" className="text-xs" title="References shared with the main and seed papers">
+                                Coupling {structuralSignals[paperKey(paper)].coupling}
+                              </Badge>
+                            )}
+                            {structuralSignals[paperKey(paper)]?.coCitation > 0 && (
+                              <Badge variant="outline" className="text-xs" title="Papers citing this one together with the main or a seed paper">
+                                Co-cited {structuralSignals[paperKey(paper)].coCitation}
                               </Badge>
                             )}
                           </div>
@@ -1162,8 +1255,8 @@ Respond with a JSON object in this exact format (and nothing else):
                               className="h-6 w-6 p-0 text-gray-600 hover:text-blue-600"
                               onClick={(e) => {
                                 e.stopPropagation();
-                                // Copy citation
-                                copyToClipboard(`${paper.authors}. (${paper.year}). ${paper.title}. ${paper.journal}. PMID: ${paper.pmid}`);
+                                // Copy citation in the chosen style
+                                copyToClipboard(formatCitation(paper, citationStyle));
                               }}
                               title="Copy citation"
                             >
@@ -1193,6 +1286,20 @@ Respond with a JSON object in this exact format (and nothing else):
                       No papers found
                     </div>
                   )}
+
+                  {activeTab === 'citations' && hasMoreCitations && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={loadMoreCitations}
+                      disabled={loadingCitations}
+                      className="w-full"
+                    >
+                      {loadingCitations
+                        ? 'Loading...'
+                        : `Load more citing papers (${selectedPaper?.citations?.length} of ${selectedPaper?.citationCount})`}
+                    </Button>
+                  )}
                 </div>
               </ScrollArea>
             </Card>
@@ -1223,24 +1330,86 @@ Respond with a JSON object in this exact format (and nothing else):
                         <Button
                           variant="outline"
                           size="sm"
-                          onClick={() => copyToClipboard(`${selectedPaper.authors}. (${selectedPaper.year}). ${selectedPaper.title}. ${selectedPaper.journal}. PMID: ${selectedPaper.pmid}`)}
+                          onClick={() => copyToClipboard(formatCitation(selectedPaper, citationStyle))}
                           className="text-gray-600 border-gray-300 hover:bg-gray-50"
                         >
                           <Copy className="mr-2 h-4 w-4" />
                           Copy Citation
                         </Button>
+
+                        {activeCollection && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => removeFromActiveCollection(selectedPaper)}
+                            className="text-red-600 border-red-300 hover:bg-red-50"
+                          >
+                            Remove from Collection
+                          </Button>
+                        )}
                       </div>
                     </div>
 
+                    <div className="mb-4">
+                      <AddToCollection
+                        papers={[selectedPaper]}
+                        label="Save to Collection"
+                        refreshKey={libraryRefreshKey}
+                        onAdded={handlePapersAdded}
+                      />
+                    </div>
+
+                    <div className="mb-6 rounded-lg border border-gray-200 bg-gray-50 p-3">
+                      <div className="flex items-center gap-2 mb-2">
+                        <Label htmlFor="citationStyle" className="text-xs">Citation style</Label>
+                        <select
+                          id="citationStyle"
+                          value={citationStyle}
+                          onChange={(e) => setCitationStyle(e.target.value as CitationStyle)}
+                          className="h-8 rounded-md border border-gray-300 bg-white px-2 text-xs"
+                        >
+                          {Object.entries(CITATION_STYLES).map(([value, { label }]) => (
+                            <option key={value} value={value}>{label}</option>
+                          ))}
+                        </select>
+                      </div>
+                      <p className="text-sm text-gray-800 select-all">
+                        {formatCitation(selectedPaper, citationStyle)}
+                      </p>
+                    </div>
+
                     <div className="flex flex-wrap gap-3 mb-6">
                       <Badge className="bg-blue-100 text-blue-800 hover:bg-blue-200">
                         <Star className="h-4 w-4 mr-1" />
-                        Relevance: {selectedPaper.relevanceScore}/10
+                        Relevance: {selectedPaper.notScored ? 'not scored' : `${selectedPaper.relevanceScore}/10`}
                       </Badge>
 
-                      <Badge variant="outline" className="hover:bg-gray-100">
-                        PMID: {selectedPaper.pmid}
-                      </Badge>
+                      {selectedPaper.pmid && (
+                        <Badge variant="outline" className="hover:bg-gray-100">
+                          PMID: {selectedPaper.pmid}
+                        </Badge>
+                      )}
+
+                      {selectedPaper.provenance && selectedPaper.provenance.length > 1 ? (
+                        selectedPaper.provenance.map(record => (
+                          <Badge
+                            key={`${record.source}|${record.id}`}
+                            variant="outline"
+                            className="hover:bg-gray-100"
+                            title={record.url || record.id}
+                          >
+                            {record.url ? (
+                              <a href={record.url} target="_blank" rel="noopener noreferrer">
+                                Source: {SOURCE_LABELS[record.source]}
+                              </a>
+                            ) : `Source: ${SOURCE_LABELS[record.source]}`}
+                          </Badge>
+                        ))
+                      ) : selectedPaper.source && (
+                        <Badge variant="outline" className="hover:bg-gray-100">
+                          Source: {SOURCE_LABELS[selectedPaper.source]}
+                        </Badge>
+                      )}
 
                       {selectedPaper.doi && (
                         <Badge variant="outline" className="hover:bg-gray-100">
@@ -1266,7 +1435,32 @@ Respond with a JSON object in this exact format (and nothing else):
                           <CardTitle className="text-sm font-medium">Authors</CardTitle>
                         </CardHeader>
                         <CardContent>
-                          <p className="text-sm text-gray-600">{selectedPaper.authors}</p>
+                          {selectedPaper.authorList && selectedPaper.authorList.length > 0 ? (
+                            <ul className="space-y-2 text-sm text-gray-600">
+                              {selectedPaper.authorList.map((author, index) => (
+                                <li key={index}>
+                                  <span className="font-medium text-gray-800">
+                                    {author.collectiveName || [author.foreName, author.lastName].filter(Boolean).join(' ')}
+                                  </span>
+                                  {author.orcid && (
+                                    <a
+                                      href={`https://orcid.org/${author.orcid}`}
+                                      target="_blank"
+                                      rel="noopener noreferrer"
+                                      className="ml-2 text-xs text-green-700 hover:underline"
+                                    >
+                                      ORCID
+                                    </a>
+                                  )}
+                                  {author.affiliations.length > 0 && (
+                                    <p className="text-xs text-gray-500">{author.affiliations.join('; ')}</p>
+                                  )}
+                                </li>
+                              ))}
+                            </ul>
+                          ) : (
+                            <p className="text-sm text-gray-600">{selectedPaper.authors}</p>
+                          )}
                         </CardContent>
                       </Card>
 
@@ -1285,17 +1479,77 @@ Respond with a JSON object in this exact format (and nothing else):
                           </Button>
                         </CardHeader>
                         <CardContent>
-                          <p className="text-sm text-gray-600 leading-relaxed">{selectedPaper.abstract}</p>
+                          {selectedPaper.abstractSections && selectedPaper.abstractSections.length > 1 ? (
+                            <div className="space-y-3">
+                              {selectedPaper.abstractSections.map((section, index) => (
+                                <div key={index}>
+                                  {section.label && (
+                                    <h4 className="text-xs font-semibold uppercase text-gray-700">{section.label}</h4>
+                                  )}
+                                  <p className="text-sm text-gray-600 leading-relaxed">{section.text}</p>
+                                </div>
+                              ))}
+                            </div>
+                          ) : (
+                            <p className="text-sm text-gray-600 leading-relaxed">{selectedPaper.abstract}</p>
+                          )}
                         </CardContent>
                       </Card>
 
+                      {/* Subject Terms */}
+                      {((selectedPaper.publicationTypes?.length ?? 0) > 0
+                        || (selectedPaper.meshTerms?.length ?? 0) > 0
+                        || (selectedPaper.keywords?.length ?? 0) > 0) && (
+                        <Card>
+                          <CardHeader>
+                            <CardTitle className="text-sm font-medium">Subject Terms</CardTitle>
+                          </CardHeader>
+                          <CardContent className="space-y-3">
+                            {selectedPaper.publicationTypes && selectedPaper.publicationTypes.length > 0 && (
+                              <div className="flex flex-wrap gap-2">
+                                {selectedPaper.publicationTypes.map(type => (
+                                  <Badge key={type} variant="outline" className="text-xs bg-purple-50 text-purple-800">
+                                    {type}
+                                  </Badge>
+                                ))}
+                              </div>
+                            )}
+                            {selectedPaper.meshTerms && selectedPaper.meshTerms.length > 0 && (
+                              <div>
+                                <h4 className="text-xs font-semibold text-gray-700 mb-1">MeSH Terms</h4>
+                                <div className="flex flex-wrap gap-2">
+                                  {selectedPaper.meshTerms.map(heading => (
+                                    <Badge
+                                      key={heading.descriptor}
+                                      variant="outline"
+                                      className={`text-xs ${heading.majorTopic ? 'border-blue-400 font-semibold' : ''}`}
+                                    >
+                                      {heading.descriptor}
+                                      {heading.qualifiers.length > 0 && ` / ${heading.qualifiers.map(q => q.name).join(', ')}`}
+                                    </Badge>
+                                  ))}
+                                </div>
+                              </div>
+                            )}
+                            {selectedPaper.keywords && selectedPaper.keywords.length > 0 && (
+                              <div>
+                                <h4 className="text-xs font-semibold text-gray-700 mb-1">Keywords</h4>
+                                <p className="text-sm text-gray-600">{selectedPaper.keywords.join(', ')}</p>
+                              </div>
+                            )}
+                          </CardContent>
+                        </Card>
+                      )}
+
                       {/* Summary */}
                       <Card>
                         <CardHeader>
                           <CardTitle className="text-sm font-medium">Quick Summary</CardTitle>
                         </CardHeader>
                         <CardContent>
-                          <p className="text-sm text-gray-600 whitespace-pre-line">{selectedPaper.summary}</p>
+                          <p className="text-sm text-gray-600 whitespace-pre-line">
+                            {selectedPaper.notScored ? 'Claude could not score this paper, so there is no summary.' : selectedPaper.summary}
+                          </p>
                         </CardContent>
                       </Card>
 
@@ -1306,7 +1560,7 @@ Respond with a JSON object in this exact format (and nothing else):
                             <CardTitle className="text-sm font-medium">Papers Citing This Research</CardTitle>
                           </CardHeader>
                           <CardContent>
-                            <div className="text-sm text-gray-600">
+                            <div className="text-sm text-gray-600 space-y-2">
                               <Button
                                 variant="outline"
                                 size="sm"
@@ -1314,8 +1568,19 @@ Respond with a JSON object in this exact format (and nothing else):
                                 className="w-full justify-start"
                               >
                                 <FileText className="mr-2 h-4 w-4" />
-                                View {selectedPaper.citations.length} citing papers
+                                View {selectedPaper.citations.length} of {selectedPaper.citationCount ?? selectedPaper.citations.length} citing papers
                               </Button>
+                              {hasMoreCitations && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={loadMoreCitations}
+                                  disabled={loadingCitations}
+                                  className="w-full justify-start text-blue-600"
+                                >
+                                  {loadingCitations ? 'Loading...' : 'Load more citing papers'}
+                                </Button>
+                              )}
                             </div>
                           </CardContent>
                         </Card>
@@ -1351,19 +1616,22 @@ Respond with a JSON object in this exact format (and nothing else):
                         <CardContent>
                           <Textarea
                             placeholder="Add your research notes here..."
-                            value={notes[selectedPaper.id] || ''}
-                            onChange={(e) => saveNote(selectedPaper.id, e.target.value)}
+                            value={notes[paperKey(selectedPaper)] || ''}
+                            onChange={(e) => saveNote(paperKey(selectedPaper), e.target.value)}
                             className="h-32 mb-2"
                           />
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={() => saveNote(selectedPaper.id, notes[selectedPaper.id])}
-                            className="text-blue-600 border-blue-600 hover:bg-blue-50"
-                          >
-                            <Save className="mr-2 h-4 w-4" />
-                            Save Notes
-                          </Button>
+                          <div className="flex items-center gap-3">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => persistNote(selectedPaper)}
+                              className="text-blue-600 border-blue-600 hover:bg-blue-50"
+                            >
+                              <Save className="mr-2 h-4 w-4" />
+                              Save Notes
+                            </Button>
+                            {noteStatus && <span className="text-xs text-gray-500">{noteStatus}</span>}
+                          </div>
                         </CardContent>
                       </Card>
                     </div>
@@ -0,0 +1,167 @@
+'use client';
+import React, { useRef } from 'react';
+import { Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { PrismaCounts } from '@/lib/types';
+
+const WIDTH = 640;
+const LEFT_X = 44;
+const RIGHT_X = 364;
+const BOX_WIDTH = 256;
+const LINE_HEIGHT = 16;
+const PADDING = 12;
+const ROW_GAP = 36;
+const REASON_LENGTH = 30;
+
+interface Box {
+  x: number;
+  y: number;
+  height: number;
+  lines: string[];
+}
+
+interface PrismaDiagramProps {
+  counts: PrismaCounts;
+}
+
+const boxHeight = (lines: string[]) => lines.length * LINE_HEIGHT + PADDING * 2;
+
+const truncate = (text: string) => (text.length > REASON_LENGTH ? `${text.slice(0, REASON_LENGTH - 1)}…` : text);
+
+// Boxes of the flow, top to bottom: identification, screening (with what was excluded and what
+// still awaits a decision beside it) and inclusion
+const layout = (counts: PrismaCounts) => {
+  const awaiting = counts.maybe + counts.conflicts + counts.pending;
+  const rows: Array<[string[] | null, string[] | null]> = [
+    [
+      ['Records identified', `(n = ${counts.identified})`],
+      ['Duplicate records removed', `(n = ${counts.duplicatesRemoved})`]
+    ],
+    [
+      ['Records screened', `(n = ${counts.screened})`],
+      [
+        'Records excluded',
+        `(n = ${counts.excluded})`,
+        ...counts.exclusionReasons.map(({ reason, count }) => `${truncate(reason)}: ${count}`)
+      ]
+    ],
+    [
+      null,
+      ['Awaiting decision', `(n = ${awaiting})`, `Maybe: ${counts.maybe}`, `Conflicts: ${counts.conflicts}`, `Not fully screened: ${counts.pending}`]
+    ],
+    [['Records included', `(n = ${counts.included})`], null]
+  ];
+
+  let y = 16;
+  const placed = rows.map(([left, right]) => {
+    const row = {
+      y,
+      left: left && { x: LEFT_X, y, height: boxHeight(left), lines: left },
+      right: right && { x: RIGHT_X, y, height: boxHeight(right), lines: right }
+    };
+    y += Math.max(row.left?.height || 0, row.right?.height || 0) + ROW_GAP;
+    return row;
+  });
+
+  return { rows: placed, height: y - ROW_GAP + 16 };
+};
+
+const FlowBox = ({ box }: { box: Box }) => (
+  <g>
+    <rect x={box.x} y={box.y} width={BOX_WIDTH} height={box.height} rx="4" fill="#ffffff" stroke="#374151" />
+    {box.lines.map((line, index) => (
+      <text
+        key={index}
+        x={box.x + BOX_WIDTH / 2}
+        y={box.y + PADDING + LINE_HEIGHT * index + 12}
+        textAnchor="middle"
+        fontSize={index < 2 ? 13 : 11}
+        fontWeight={index === 0 ? 600 : 400}
+        fill={index < 2 ? '#111827' : '#4b5563'}
+      >
+        {line}
+      </text>
+    ))}
+  </g>
+);
+
+const Arrow = ({ x1, y1, x2, y2 }: { x1: number; y1: number; x2: number; y2: number }) => (
+  <line x1={x1} y1={y1} x2={x2} y2={y2} stroke="#374151" markerEnd="url(#prisma-arrow)" />
+);
+
+// PRISMA flow diagram of a screening, downloadable as SVG
+export const PrismaDiagram = ({ counts }: PrismaDiagramProps) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const { rows, height } = layout(counts);
+  const [identification, screening, awaiting, inclusion] = rows;
+  const centerX = LEFT_X + BOX_WIDTH / 2;
+  const middle = (box: Box) => box.y + box.height / 2;
+
+  const phases = [
+    { label: 'Identification', top: identification.y, bottom: identification.y + identification.left!.height },
+    { label: 'Screening', top: screening.y, bottom: awaiting.y + awaiting.right!.height },
+    { label: 'Included', top: inclusion.y, bottom: inclusion.y + inclusion.left!.height }
+  ];
+
+  const handleDownload = () => {
+    if (!svgRef.current) return;
+    const blob = new Blob([new XMLSerializer().serializeToString(svgRef.current)], { type: 'image/svg+xml;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'prisma-flow.svg';
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  };
+
+  return (
+    <div className="space-y-2">
+      <svg
+        ref={svgRef}
+        xmlns="http://www.w3.org/2000/svg"
+        viewBox={`0 0 ${WIDTH} ${height}`}
+        fontFamily="Arial, Helvetica, sans-serif"
+        className="w-full max-w-2xl rounded-lg border border-gray-200 bg-white"
+      >
+        <defs>
+          <marker id="prisma-arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="7" markerHeight="7" orient="auto">
+            <path d="M 0 0 L 10 5 L 0 10 z" fill="#374151" />
+          </marker>
+        </defs>
+        <rect width={WIDTH} height={height} fill="#ffffff" />
+
+        {phases.map(phase => (
+          <g key={phase.label}>
+            <rect x="8" y={phase.top} width="24" height={phase.bottom - phase.top} rx="4" fill="#dbeafe" />
+            <text
+              transform={`translate(24 ${(phase.top + phase.bottom) / 2}) rotate(-90)`}
+              textAnchor="middle"
+              fontSize="12"
+              fontWeight="600"
+              fill="#1e3a8a"
+            >
+              {phase.label}
+            </text>
+          </g>
+        ))}
+
+        <Arrow x1={centerX} y1={identification.y + identification.left!.height} x2={centerX} y2={screening.y} />
+        <Arrow x1={centerX} y1={screening.y + screening.left!.height} x2={centerX} y2={inclusion.y} />
+        <Arrow
+          x1={LEFT_X + BOX_WIDTH}
+          y1={middle(identification.left!)}
+          x2={RIGHT_X}
+          y2={middle(identification.left!)}
+        />
+        <Arrow x1={LEFT_X + BOX_WIDTH} y1={middle(screening.left!)} x2={RIGHT_X} y2={middle(screening.left!)} />
+        <Arrow x1={centerX} y1={middle(awaiting.right!)} x2={RIGHT_X} y2={middle(awaiting.right!)} />
+
+        {rows.flatMap(row => [row.left, row.right]).map((box, index) => box && <FlowBox key={index} box={box} />)}
+      </svg>
+      <Button variant="outline" size="sm" onClick={handleDownload}>
+        <Download className="mr-1 h-4 w-4" />
+        Download SVG
+      </Button>
+    </div>
+  );
+};
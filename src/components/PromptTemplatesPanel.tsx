@@ -0,0 +1,220 @@
+'use client';
+import React, { useEffect, useState } from 'react';
+import { Copy, Plus, Save, SlidersHorizontal, Trash2, X } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import * as promptsClient from '@/lib/prompts-client';
+import { PROMPT_TASKS, PROMPT_TASK_LABELS, type PromptTemplate } from '@/lib/types';
+
+interface PromptTemplatesPanelProps {
+  templates: PromptTemplate[];
+  // Called after a template was created, saved or deleted
+  onChange: () => void;
+  onClose: () => void;
+}
+
+const latestVersion = (template: PromptTemplate) => template.versions[template.versions.length - 1];
+
+// Settings screen for the prompt templates: view any version, save edits as a new version,
+// duplicate built-in templates to customise them
+export const PromptTemplatesPanel = ({ templates, onChange, onClose }: PromptTemplatesPanelProps) => {
+  const [selectedId, setSelectedId] = useState(templates[0]?.id);
+  const [viewedVersion, setViewedVersion] = useState<number | undefined>();
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [instructions, setInstructions] = useState('');
+  const [status, setStatus] = useState('');
+
+  const selected = templates.find(template => template.id === selectedId);
+  const version = selected && (selected.versions.find(v => v.version === viewedVersion) || latestVersion(selected));
+
+  // Load the selected template (or version) into the editor
+  useEffect(() => {
+    setName(selected?.name || '');
+    setDescription(selected?.description || '');
+    setInstructions(version?.instructions || '');
+  }, [selected, version]);
+
+  const select = (id: string) => {
+    setSelectedId(id);
+    setViewedVersion(undefined);
+    setStatus('');
+  };
+
+  const changed = !!selected && (
+    instructions !== latestVersion(selected).instructions
+    || name.trim() !== selected.name
+    || description !== (selected.description || '')
+  );
+
+  const handleSave = async () => {
+    if (!selected) return;
+    try {
+      const saved = await promptsClient.savePromptTemplate(selected.id, { name: name.trim(), description, instructions });
+      setViewedVersion(undefined);
+      setStatus(`Saved as version ${latestVersion(saved).version}`);
+      onChange();
+    } catch (error) {
+      console.error('Error saving prompt template:', error);
+      setStatus(error instanceof Error ? error.message : 'Could not save the template');
+    }
+  };
+
+  const handleDuplicate = async () => {
+    if (!selected) return;
+    try {
+      const copy = await promptsClient.createPromptTemplate({
+        name: `${selected.name} (copy)`,
+        task: selected.task,
+        description: selected.description,
+        instructions
+      });
+      onChange();
+      select(copy.id);
+      setStatus('Created a copy you can edit');
+    } catch (error) {
+      console.error('Error duplicating prompt template:', error);
+      setStatus(error instanceof Error ? error.message : 'Could not copy the template');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selected) return;
+    try {
+      await promptsClient.deletePromptTemplate(selected.id);
+      select(templates.find(template => template.task === selected.task && template.builtIn)?.id || templates[0]?.id);
+      onChange();
+    } catch (error) {
+      console.error('Error deleting prompt template:', error);
+      setStatus(error instanceof Error ? error.message : 'Could not delete the template');
+    }
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardHeader className="pb-2">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg flex items-center">
+            <SlidersHorizontal className="mr-2 h-5 w-5" />
+            Prompt Templates
+          </CardTitle>
+          <Button variant="ghost" size="sm" onClick={onClose} title="Close">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+        <CardDescription>
+          Tune how search terms are generated and how papers are judged and summarised.
+          Every save adds a version, and searches record the versions they used.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="grid gap-6 md:grid-cols-3">
+          <div className="space-y-4">
+            {PROMPT_TASKS.map(task => (
+              <div key={task}>
+                <h3 className="text-xs font-semibold uppercase text-gray-500 mb-1">{PROMPT_TASK_LABELS[task]}</h3>
+                <ul className="space-y-1">
+                  {templates.filter(template => template.task === task).map(template => (
+                    <li key={template.id}>
+                      <button
+                        type="button"
+                        onClick={() => select(template.id)}
+                        className={`w-full rounded-md border px-2 py-1 text-left text-sm
+                          ${template.id === selectedId ? 'border-blue-600 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'}`}
+                      >
+                        {template.name}
+                        <span className="ml-1 text-xs text-gray-500">v{latestVersion(template).version}</span>
+                        {template.builtIn && <Badge variant="outline" className="ml-2 text-xs">Built-in</Badge>}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+
+          {selected && version ? (
+            <div className="md:col-span-2 space-y-3">
+              <div className="grid gap-3 md:grid-cols-2">
+                <div>
+                  <Label htmlFor="promptName">Name</Label>
+                  <Input
+                    id="promptName"
+                    value={name}
+                    disabled={selected.builtIn}
+                    onChange={(e) => setName(e.target.value)}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="promptVersion">Version</Label>
+                  <select
+                    id="promptVersion"
+                    value={version.version}
+                    onChange={(e) => setViewedVersion(Number(e.target.value))}
+                    className="h-10 w-full rounded-md border border-gray-300 bg-white px-2 text-sm"
+                  >
+                    {[...selected.versions].reverse().map(v => (
+                      <option key={v.version} value={v.version}>
+                        v{v.version} — {new Date(v.createdAt).toLocaleString()}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+              <div>
+                <Label htmlFor="promptDescription">Description</Label>
+                <Input
+                  id="promptDescription"
+                  value={description}
+                  disabled={selected.builtIn}
+                  onChange={(e) => setDescription(e.target.value)}
+                  placeholder="e.g. Favour clinical trials, penalise reviews"
+                />
+              </div>
+              <div>
+                <Label htmlFor="promptInstructions">Instructions</Label>
+                <Textarea
+                  id="promptInstructions"
+                  value={instructions}
+                  readOnly={selected.builtIn}
+                  onChange={(e) => setInstructions(e.target.value)}
+                  className="h-56 font-mono text-xs"
+                />
+                <p className="mt-1 text-xs text-gray-500">
+                  The discussion, the papers and the expected answer format are added automatically.
+                </p>
+              </div>
+
+              {status && <p className="text-xs text-gray-600">{status}</p>}
+
+              <div className="flex flex-wrap gap-2">
+                {!selected.builtIn && (
+                  <Button size="sm" onClick={handleSave} disabled={!changed || !name.trim() || !instructions.trim()}>
+                    <Save className="mr-1 h-4 w-4" />
+                    Save as new version
+                  </Button>
+                )}
+                <Button size="sm" variant="outline" onClick={handleDuplicate}>
+                  {selected.builtIn ? <Plus className="mr-1 h-4 w-4" /> : <Copy className="mr-1 h-4 w-4" />}
+                  {selected.builtIn ? 'Customise a copy' : 'Duplicate'}
+                </Button>
+                {!selected.builtIn && (
+                  <Button size="sm" variant="outline" className="text-red-600" onClick={handleDelete}>
+                    <Trash2 className="mr-1 h-4 w-4" />
+                    Delete
+                  </Button>
+                )}
+              </div>
+            </div>
+          ) : (
+            <p className="md:col-span-2 text-sm text-gray-500">Select a template to view or edit it</p>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
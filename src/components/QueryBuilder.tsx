@@ -0,0 +1,238 @@
+'use client';
+import React, { useState } from 'react';
+import { Plus, Tags, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { MeshLookup } from '@/components/MeshLookup';
+import {
+  ARTICLE_TYPES,
+  EMPTY_QUERY_FILTERS,
+  LANGUAGES,
+  QUERY_DATE_PATTERN,
+  QUERY_FIELDS,
+  QUERY_OPERATORS,
+  SPECIES,
+  compileClauses,
+  compileFilters
+} from '@/lib/query-builder';
+import type { QueryClause, QueryField, QueryFilters } from '@/lib/types';
+
+interface QueryBuilderProps {
+  query?: QueryFilters;
+  disabled?: boolean;
+  onChange: (query: QueryFilters) => void;
+}
+
+const SELECT_CLASS = 'h-10 rounded-md border border-gray-300 bg-white px-2 text-sm';
+
+// Field clauses searched as an extra PubMed term, and filters that restrict every PubMed term
+// of the search (the user's and the generated ones)
+export const QueryBuilder = ({ query = EMPTY_QUERY_FILTERS, disabled, onChange }: QueryBuilderProps) => {
+  // Clause whose value is being looked up in MeSH
+  const [meshIndex, setMeshIndex] = useState<number | null>(null);
+
+  const update = (changes: Partial<QueryFilters>) => onChange({ ...query, ...changes });
+
+  const updateClause = (index: number, changes: Partial<QueryClause>) =>
+    update({ clauses: query.clauses.map((clause, i) => (i === index ? { ...clause, ...changes } : clause)) });
+
+  const toggle = <T extends string>(values: T[], value: T, checked: boolean) =>
+    checked ? [...values, value] : values.filter(v => v !== value);
+
+  const invalidDate = (value?: string) => !!value && !QUERY_DATE_PATTERN.test(value);
+
+  const userTerm = compileClauses(query.clauses);
+  const filters = compileFilters(query);
+
+  return (
+    <div className="mb-4 space-y-3 rounded-lg border border-gray-200 p-3">
+      <div>
+        <Label>Query Clauses (optional)</Label>
+        <div className="mt-1 space-y-2">
+          {query.clauses.map((clause, index) => (
+            <div key={index} className="space-y-2">
+              <div className="flex items-center gap-2">
+                {index > 0 ? (
+                  <select
+                    aria-label="Operator"
+                    value={clause.operator}
+                    disabled={disabled}
+                    onChange={(e) => updateClause(index, { operator: e.target.value as QueryClause['operator'] })}
+                    className={`${SELECT_CLASS} w-20`}
+                  >
+                    {QUERY_OPERATORS.map(operator => <option key={operator} value={operator}>{operator}</option>)}
+                  </select>
+                ) : (
+                  <span className="w-20 shrink-0 text-xs text-gray-500">Search</span>
+                )}
+                <select
+                  aria-label="Field"
+                  value={clause.field}
+                  disabled={disabled}
+                  onChange={(e) => updateClause(index, { field: e.target.value as QueryField })}
+                  className={`${SELECT_CLASS} w-36`}
+                >
+                  {(Object.keys(QUERY_FIELDS) as QueryField[]).map(field => (
+                    <option key={field} value={field}>{QUERY_FIELDS[field].label}</option>
+                  ))}
+                </select>
+                <Input
+                  aria-label="Value"
+                  value={clause.value}
+                  disabled={disabled}
+                  onChange={(e) => updateClause(index, { value: e.target.value })}
+                  placeholder={clause.field === 'author' ? 'e.g. Smith J' : 'e.g. gut microbiome'}
+                />
+                {clause.field === 'mesh' && (
+                  <>
+                    <div className="flex shrink-0 items-center space-x-1">
+                      <Checkbox
+                        id={`explode-${index}`}
+                        checked={clause.explode !== false}
+                        disabled={disabled}
+                        onCheckedChange={(checked) => updateClause(index, { explode: !!checked })}
+                      />
+                      <Label htmlFor={`explode-${index}`} className="text-xs">Explode</Label>
+                    </div>
+                    <button
+                      onClick={() => setMeshIndex(meshIndex === index ? null : index)}
+                      disabled={disabled}
+                      className="text-gray-400 hover:text-blue-600"
+                      title="Look up in MeSH"
+                    >
+                      <Tags className="h-4 w-4" />
+                    </button>
+                  </>
+                )}
+                <button
+                  onClick={() => {
+                    setMeshIndex(null);
+                    update({ clauses: query.clauses.filter((_, i) => i !== index) });
+                  }}
+                  disabled={disabled}
+                  className="text-gray-400 hover:text-red-600"
+                  title="Remove clause"
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              </div>
+              {meshIndex === index && clause.field === 'mesh' && (
+                <MeshLookup
+                  concept={clause.value}
+                  actionLabel="Use"
+                  onSelect={(descriptor, explode) => {
+                    updateClause(index, { value: descriptor.name, explode });
+                    setMeshIndex(null);
+                  }}
+                  onClose={() => setMeshIndex(null)}
+                />
+              )}
+            </div>
+          ))}
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={disabled}
+            onClick={() => update({ clauses: [...query.clauses, { field: 'titleAbstract', value: '', operator: 'AND' }] })}
+          >
+            <Plus className="mr-1 h-4 w-4" />
+            Add clause
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid md:grid-cols-3 gap-4">
+        <div>
+          <Label htmlFor="queryDateFrom">Published from</Label>
+          <Input
+            id="queryDateFrom"
+            value={query.dateFrom || ''}
+            disabled={disabled}
+            onChange={(e) => update({ dateFrom: e.target.value.trim() || undefined })}
+            placeholder="YYYY or YYYY/MM/DD"
+            className={invalidDate(query.dateFrom) ? 'border-red-500' : ''}
+          />
+        </div>
+        <div>
+          <Label htmlFor="queryDateTo">Published to</Label>
+          <Input
+            id="queryDateTo"
+            value={query.dateTo || ''}
+            disabled={disabled}
+            onChange={(e) => update({ dateTo: e.target.value.trim() || undefined })}
+            placeholder="YYYY or YYYY/MM/DD"
+            className={invalidDate(query.dateTo) ? 'border-red-500' : ''}
+          />
+        </div>
+        <div>
+          <Label htmlFor="querySpecies">Species</Label>
+          <select
+            id="querySpecies"
+            value={query.species || ''}
+            disabled={disabled}
+            onChange={(e) => update({ species: (e.target.value || undefined) as QueryFilters['species'] })}
+            className={`${SELECT_CLASS} w-full`}
+          >
+            <option value="">Any</option>
+            {(Object.keys(SPECIES) as Array<keyof typeof SPECIES>).map(species => (
+              <option key={species} value={species}>{SPECIES[species].label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div>
+        <Label>Article Types</Label>
+        <div className="mt-1 grid grid-cols-2 md:grid-cols-4 gap-2">
+          {ARTICLE_TYPES.map(type => (
+            <div key={type} className="flex items-center space-x-2">
+              <Checkbox
+                id={`articleType-${type}`}
+                checked={query.articleTypes.includes(type)}
+                disabled={disabled}
+                onCheckedChange={(checked) => update({ articleTypes: toggle(query.articleTypes, type, !!checked) })}
+              />
+              <Label htmlFor={`articleType-${type}`} className="text-xs">{type}</Label>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <Label>Languages</Label>
+        <div className="mt-1 grid grid-cols-2 md:grid-cols-4 gap-2">
+          {LANGUAGES.map(language => (
+            <div key={language} className="flex items-center space-x-2">
+              <Checkbox
+                id={`language-${language}`}
+                checked={query.languages.includes(language)}
+                disabled={disabled}
+                onCheckedChange={(checked) => update({ languages: toggle(query.languages, language, !!checked) })}
+              />
+              <Label htmlFor={`language-${language}`} className="text-xs capitalize">{language}</Label>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <Checkbox
+          id="freeFullText"
+          checked={query.freeFullText}
+          disabled={disabled}
+          onCheckedChange={(checked) => update({ freeFullText: !!checked })}
+        />
+        <Label htmlFor="freeFullText">Free full text only</Label>
+      </div>
+
+      {(userTerm || filters) && (
+        <div className="rounded-md bg-gray-50 p-2 font-mono text-xs text-gray-700 break-all">
+          {userTerm && <p>Term: {userTerm}</p>}
+          {filters && <p>Filters (every PubMed term): {filters}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,494 @@
+'use client';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { ArrowLeft, ArrowRight, ClipboardCheck, Keyboard, Trash2, X } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Textarea } from '@/components/ui/textarea';
+import { PrismaDiagram } from '@/components/PrismaDiagram';
+import * as screeningClient from '@/lib/screening-client';
+import {
+  DEFAULT_EXCLUSION_REASONS,
+  type ScreeningDecision,
+  type ScreeningEntry,
+  type ScreeningStatus,
+  type ScreeningView,
+  type ScreeningVote,
+  type SearchSessionSummary
+} from '@/lib/types';
+
+interface ScreeningPanelProps {
+  session: SearchSessionSummary;
+  onClose: () => void;
+}
+
+const SELECT_CLASS = 'h-10 rounded-md border border-gray-300 bg-white px-2 text-sm';
+
+const DECISION_LABELS: Record<ScreeningDecision, string> = {
+  include: 'Include',
+  exclude: 'Exclude',
+  maybe: 'Maybe'
+};
+
+const STATUS_STYLES: Record<ScreeningStatus, string> = {
+  include: 'bg-green-50 text-green-800',
+  exclude: 'bg-red-50 text-red-800',
+  maybe: 'bg-amber-50 text-amber-800',
+  conflict: 'bg-purple-50 text-purple-800',
+  pending: 'text-gray-500'
+};
+
+const SHORTCUTS: Array<[string, string]> = [
+  ['I', 'Include'],
+  ['M', 'Maybe'],
+  ['E', 'Exclude, then 1–9 to pick the reason'],
+  ['J or →', 'Next paper'],
+  ['K or ←', 'Previous paper'],
+  ['N', 'Next paper you have not screened'],
+  ['Esc', 'Cancel excluding']
+];
+
+const describeVote = (vote: ScreeningVote) =>
+  vote.reason ? `${DECISION_LABELS[vote.decision]}: ${vote.reason}` : DECISION_LABELS[vote.decision];
+
+// Keys typed into a form field aren't shortcuts
+const isTyping = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) || target.isContentEditable);
+
+// The first paper after `from` the reviewer hasn't voted on, wrapping around
+const nextUnscreened = (entries: ScreeningEntry[], from: number) => {
+  const order = [...entries.keys()].map(offset => (from + 1 + offset) % entries.length);
+  return order.find(i => !entries[i].vote);
+};
+
+// Title/abstract screening of a recorded search: one or two reviewers vote include / exclude /
+// maybe on each paper, conflicts between blind reviewers are settled, and the counts are drawn
+// as a PRISMA flow diagram
+export const ScreeningPanel = ({ session, onClose }: ScreeningPanelProps) => {
+  const [screening, setScreening] = useState<ScreeningView | null>(null);
+  const [loaded, setLoaded] = useState(false);
+  const [reviewer, setReviewer] = useState('');
+  const [tab, setTab] = useState('screen');
+  const [index, setIndex] = useState(0);
+  const [excluding, setExcluding] = useState(false);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const [status, setStatus] = useState('');
+  // Setup form
+  const [reviewerNames, setReviewerNames] = useState(['', '']);
+  const [reasonsText, setReasonsText] = useState(DEFAULT_EXCLUSION_REASONS.join('\n'));
+
+  const load = useCallback(async (name: string) => {
+    try {
+      const view = await screeningClient.fetchScreening(session.id, name || undefined);
+      setScreening(view);
+      // A reviewer screening alone doesn't have to pick their name
+      if (view && !name && view.reviewers.length === 1) {
+        setReviewer(view.reviewers[0]);
+      }
+    } catch (error) {
+      console.error('Error loading screening:', error);
+      setStatus('Could not load the screening');
+    } finally {
+      setLoaded(true);
+    }
+  }, [session.id]);
+
+  useEffect(() => {
+    load(reviewer);
+  }, [load, reviewer]);
+
+  const entries = useMemo(() => screening?.entries || [], [screening]);
+  const current: ScreeningEntry | undefined = entries[Math.min(index, entries.length - 1)];
+
+  const move = useCallback((offset: number) => {
+    setExcluding(false);
+    setIndex(i => Math.min(entries.length - 1, Math.max(0, i + offset)));
+  }, [entries.length]);
+
+  const goToUnscreened = useCallback(() => {
+    const next = nextUnscreened(entries, index);
+    if (next !== undefined) {
+      setExcluding(false);
+      setIndex(next);
+    }
+  }, [entries, index]);
+
+  const vote = useCallback(async (decision: ScreeningDecision, reason?: string) => {
+    if (!reviewer || !current) return;
+
+    setExcluding(false);
+    setStatus('');
+    try {
+      const updated = await screeningClient.recordVote(session.id, { reviewer, paperKey: current.key, decision, reason });
+      setScreening(updated);
+      setIndex(nextUnscreened(updated.entries, index) ?? index);
+    } catch (error) {
+      console.error('Error recording screening decision:', error);
+      setStatus(error instanceof Error ? error.message : 'Could not save the decision');
+    }
+  }, [session.id, reviewer, current, index]);
+
+  // Keyboard shortcuts while screening
+  useEffect(() => {
+    if (tab !== 'screen' || !reviewer || !screening) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.ctrlKey || event.metaKey || event.altKey || isTyping(event.target)) return;
+
+      const key = event.key.toLowerCase();
+      if (excluding) {
+        const reason = /^[1-9]$/.test(key) ? screening.exclusionReasons[Number(key) - 1] : undefined;
+        if (reason) vote('exclude', reason);
+        if (key === 'escape') setExcluding(false);
+        return;
+      }
+
+      if (key === 'i') vote('include');
+      else if (key === 'm') vote('maybe');
+      else if (key === 'e') setExcluding(true);
+      else if (key === 'j' || key === 'arrowright') move(1);
+      else if (key === 'k' || key === 'arrowleft') move(-1);
+      else if (key === 'n') goToUnscreened();
+      else return;
+      event.preventDefault();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [tab, reviewer, screening, excluding, vote, move, goToUnscreened]);
+
+  const handleStart = async () => {
+    try {
+      const reviewers = reviewerNames.map(name => name.trim()).filter(Boolean);
+      const started = await screeningClient.saveScreening(session.id, {
+        reviewers,
+        exclusionReasons: reasonsText.split('\n').map(reason => reason.trim()).filter(Boolean)
+      });
+      setScreening(started);
+      setReviewer(reviewers[0]);
+      setStatus('');
+    } catch (error) {
+      console.error('Error starting screening:', error);
+      setStatus(error instanceof Error ? error.message : 'Could not start screening');
+    }
+  };
+
+  const handleDiscard = async () => {
+    if (!window.confirm('Discard every screening decision on this search?')) return;
+    try {
+      await screeningClient.deleteScreening(session.id);
+      setScreening(null);
+      setReviewer('');
+      setIndex(0);
+    } catch (error) {
+      console.error('Error discarding screening:', error);
+      setStatus('Could not discard the screening');
+    }
+  };
+
+  const resolve = async (entry: ScreeningEntry, decision: ScreeningDecision, reason?: string) => {
+    try {
+      setScreening(await screeningClient.resolveConflict(
+        session.id,
+        { paperKey: entry.key, decision, reason },
+        reviewer || undefined
+      ));
+      setStatus('');
+    } catch (error) {
+      console.error('Error resolving screening conflict:', error);
+      setStatus(error instanceof Error ? error.message : 'Could not resolve the conflict');
+    }
+  };
+
+  const screenedByReviewer = entries.filter(entry => entry.vote).length;
+  const conflicts = entries.filter(entry => entry.status === 'conflict' || entry.resolved);
+
+  return (
+    <Card className="mb-6">
+      <CardHeader className="pb-2">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg flex items-center">
+            <ClipboardCheck className="mr-2 h-5 w-5" />
+            Screening
+          </CardTitle>
+          <div className="flex gap-1">
+            {screening && (
+              <Button variant="ghost" size="sm" className="text-red-600" onClick={handleDiscard} title="Discard screening">
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            )}
+            <Button variant="ghost" size="sm" onClick={onClose} title="Close">
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+        <CardDescription className="line-clamp-2">
+          Title and abstract screening of {session.paperCount} papers found for: {session.discussionText}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {status && <p className="text-xs text-red-600 mb-2">{status}</p>}
+
+        {!loaded ? (
+          <p className="text-sm text-gray-500">Loading...</p>
+        ) : !screening ? (
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-3">
+              <div>
+                <Label htmlFor="reviewer1">Reviewer</Label>
+                <Input
+                  id="reviewer1"
+                  value={reviewerNames[0]}
+                  onChange={(e) => setReviewerNames([e.target.value, reviewerNames[1]])}
+                  placeholder="Your name"
+                />
+              </div>
+              <div>
+                <Label htmlFor="reviewer2">Second reviewer (optional)</Label>
+                <Input
+                  id="reviewer2"
+                  value={reviewerNames[1]}
+                  onChange={(e) => setReviewerNames([reviewerNames[0], e.target.value])}
+                  placeholder="Screens blind; conflicts are resolved afterwards"
+                />
+              </div>
+              <Button
+                onClick={handleStart}
+                disabled={!reviewerNames[0].trim() || reviewerNames[0].trim() === reviewerNames[1].trim() || !reasonsText.trim()}
+              >
+                <ClipboardCheck className="mr-2 h-4 w-4" />
+                Start Screening
+              </Button>
+            </div>
+            <div>
+              <Label htmlFor="exclusionReasons">Exclusion reasons (one per line)</Label>
+              <Textarea
+                id="exclusionReasons"
+                value={reasonsText}
+                onChange={(e) => setReasonsText(e.target.value)}
+                className="h-44 text-xs"
+              />
+            </div>
+          </div>
+        ) : (
+          <Tabs value={tab} onValueChange={setTab}>
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+              <TabsList>
+                <TabsTrigger value="screen">Screen</TabsTrigger>
+                <TabsTrigger value="conflicts">
+                  Conflicts{screening.prisma.conflicts > 0 ? ` (${screening.prisma.conflicts})` : ''}
+                </TabsTrigger>
+                <TabsTrigger value="prisma">PRISMA</TabsTrigger>
+              </TabsList>
+              <div className="flex items-center gap-2">
+                <Label htmlFor="screeningReviewer" className="text-xs">Screening as</Label>
+                <select
+                  id="screeningReviewer"
+                  value={reviewer}
+                  onChange={(e) => {
+                    setReviewer(e.target.value);
+                    setExcluding(false);
+                  }}
+                  className={SELECT_CLASS}
+                >
+                  <option value="">Choose reviewer...</option>
+                  {screening.reviewers.map(name => <option key={name} value={name}>{name}</option>)}
+                </select>
+              </div>
+            </div>
+
+            <TabsContent value="screen">
+              {!reviewer ? (
+                <p className="text-sm text-gray-500">Choose who is screening to start</p>
+              ) : current && (
+                <div className="grid gap-4 md:grid-cols-3">
+                  <div className="md:col-span-2 space-y-3">
+                    <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-gray-600">
+                      <span>
+                        Paper {index + 1} of {entries.length} · {screenedByReviewer} screened by {reviewer}
+                        {screening.reviewers.length > 1 && ' · blind: the other reviewer\'s decisions stay hidden'}
+                      </span>
+                      <button
+                        onClick={() => setShowShortcuts(!showShortcuts)}
+                        className="flex items-center text-blue-600 hover:underline"
+                      >
+                        <Keyboard className="mr-1 h-4 w-4" />
+                        Shortcuts
+                      </button>
+                    </div>
+                    {showShortcuts && (
+                      <ul className="grid grid-cols-2 gap-1 rounded-md bg-gray-50 p-2 text-xs text-gray-700">
+                        {SHORTCUTS.map(([keys, action]) => (
+                          <li key={keys}><span className="font-mono font-medium">{keys}</span> {action}</li>
+                        ))}
+                      </ul>
+                    )}
+
+                    <div className="rounded-lg border border-gray-200 p-3">
+                      <h3 className="font-medium">{current.paper.title}</h3>
+                      <p className="mt-1 text-xs text-gray-600">
+                        {current.paper.authors} · {current.paper.journal} · {current.paper.year}
+                        {current.paper.pmid && (
+                          <>
+                            {' · '}
+                            <a
+                              href={`https://pubmed.ncbi.nlm.nih.gov/${current.paper.pmid}/`}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="text-blue-600 hover:underline"
+                            >
+                              PMID {current.paper.pmid}
+                            </a>
+                          </>
+                        )}
+                      </p>
+                      <ScrollArea className="mt-2 h-64">
+                        <p className="whitespace-pre-line pr-3 text-sm text-gray-800">{current.paper.abstract}</p>
+                      </ScrollArea>
+                    </div>
+
+                    {current.vote && (
+                      <p className="text-xs text-gray-600">
+                        Your decision: <span className="font-medium">{describeVote(current.vote)}</span>
+                      </p>
+                    )}
+
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Button variant="outline" size="sm" onClick={() => move(-1)} disabled={index === 0} title="Previous (K)">
+                        <ArrowLeft className="h-4 w-4" />
+                      </Button>
+                      <Button size="sm" className="bg-green-600 hover:bg-green-700" onClick={() => vote('include')}>
+                        Include (I)
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => vote('maybe')}>
+                        Maybe (M)
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="text-red-600"
+                        onClick={() => setExcluding(!excluding)}
+                      >
+                        Exclude (E)
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => move(1)}
+                        disabled={index >= entries.length - 1}
+                        title="Next (J)"
+                      >
+                        <ArrowRight className="h-4 w-4" />
+                      </Button>
+                    </div>
+
+                    {excluding && (
+                      <div className="rounded-md border border-red-200 bg-red-50/40 p-2">
+                        <p className="mb-1 text-xs text-gray-600">Why is this paper excluded?</p>
+                        <div className="flex flex-wrap gap-1">
+                          {screening.exclusionReasons.map((reason, i) => (
+                            <Button
+                              key={reason}
+                              size="sm"
+                              variant="outline"
+                              className="h-7 text-xs"
+                              onClick={() => vote('exclude', reason)}
+                            >
+                              {i < 9 && <span className="mr-1 font-mono text-gray-500">{i + 1}</span>}
+                              {reason}
+                            </Button>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+                  </div>
+
+                  <ScrollArea className="h-96">
+                    <ul className="space-y-1 pr-3">
+                      {entries.map((entry, i) => (
+                        <li
+                          key={entry.key}
+                          onClick={() => {
+                            setIndex(i);
+                            setExcluding(false);
+                          }}
+                          className={`cursor-pointer rounded-md border p-2 text-xs
+                            ${i === index ? 'border-blue-600 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'}`}
+                        >
+                          <p className="line-clamp-2">{entry.paper.title}</p>
+                          {entry.vote && (
+                            <Badge variant="outline" className={`mt-1 text-xs ${STATUS_STYLES[entry.vote.decision]}`}>
+                              {DECISION_LABELS[entry.vote.decision]}
+                            </Badge>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  </ScrollArea>
+                </div>
+              )}
+            </TabsContent>
+
+            <TabsContent value="conflicts">
+              {screening.reviewers.length < 2 ? (
+                <p className="text-sm text-gray-500">Conflicts arise when two reviewers screen the search</p>
+              ) : conflicts.length === 0 ? (
+                <p className="text-sm text-gray-500">No conflicts between the reviewers so far</p>
+              ) : (
+                <ul className="space-y-2">
+                  {conflicts.map(entry => (
+                    <li key={entry.key} className="rounded-lg border border-gray-200 p-3 text-sm">
+                      <p className="font-medium">{entry.paper.title}</p>
+                      <div className="mt-1 flex flex-wrap gap-1">
+                        {screening.reviewers.map(name => entry.votes?.[name] && (
+                          <Badge
+                            key={name}
+                            variant="outline"
+                            className={`text-xs ${STATUS_STYLES[entry.votes[name].decision]}`}
+                          >
+                            {name}: {describeVote(entry.votes[name])}
+                          </Badge>
+                        ))}
+                        {entry.resolved && (
+                          <Badge variant="outline" className={`text-xs ${STATUS_STYLES[entry.status]}`}>
+                            Resolved: {DECISION_LABELS[entry.status as ScreeningDecision]}
+                            {entry.reason && ` (${entry.reason})`}
+                          </Badge>
+                        )}
+                      </div>
+                      <div className="mt-2 flex flex-wrap items-center gap-2">
+                        <Button size="sm" variant="outline" className="h-8" onClick={() => resolve(entry, 'include')}>
+                          Include
+                        </Button>
+                        <Button size="sm" variant="outline" className="h-8" onClick={() => resolve(entry, 'maybe')}>
+                          Maybe
+                        </Button>
+                        <select
+                          aria-label="Exclude with reason"
+                          value=""
+                          onChange={(e) => e.target.value && resolve(entry, 'exclude', e.target.value)}
+                          className={`${SELECT_CLASS} h-8 text-xs`}
+                        >
+                          <option value="">Exclude because...</option>
+                          {screening.exclusionReasons.map(reason => <option key={reason} value={reason}>{reason}</option>)}
+                        </select>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </TabsContent>
+
+            <TabsContent value="prisma">
+              <PrismaDiagram counts={screening.prisma} />
+            </TabsContent>
+          </Tabs>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
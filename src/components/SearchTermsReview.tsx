@@ -0,0 +1,231 @@
+'use client';
+import React, { useState } from 'react';
+import { ArrowDown, ArrowUp, Plus, RefreshCw, Tags, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { MeshLookup } from '@/components/MeshLookup';
+import type { ApiErrorBody, SearchTermCount, SearchTermsRequest, SearchTermsResponse } from '@/lib/api-contracts';
+import { expandWithMesh } from '@/lib/query-builder';
+import { MAX_SEARCH_RESULTS, MAX_SEARCH_TERMS, type QueryFilters } from '@/lib/types';
+
+// A term in the review list; count, query and problems are missing until it was checked
+export interface ReviewedTerm extends Partial<SearchTermCount> {
+  term: string;
+  maxResults: number;
+}
+
+interface SearchTermsReviewProps {
+  terms: ReviewedTerm[];
+  // Generated terms beyond the ones a search uses by default, available to add
+  suggestions: ReviewedTerm[];
+  // Filters applied to the terms when counting their hits
+  query?: QueryFilters;
+  disabled?: boolean;
+  onChange: (terms: ReviewedTerm[], suggestions: ReviewedTerm[]) => void;
+  onDiscard: () => void;
+}
+
+const hitLabel = ({ count, problems }: ReviewedTerm) => {
+  if (count === undefined) return { text: 'not checked', className: 'text-gray-500' };
+  if (count === null) return { text: 'rejected by PubMed', className: 'text-red-600' };
+  if (count === 0 || problems?.length) return { text: `${count.toLocaleString()} hits`, className: 'text-amber-600' };
+  return { text: `${count.toLocaleString()} hits`, className: 'text-green-700' };
+};
+
+// Review the search terms before running the search: fix their syntax, reorder them and decide
+// how many PubMed hits each contributes, with hit counts to spot broken or empty terms
+export const SearchTermsReview = ({ terms, suggestions, query, disabled, onChange, onDiscard }: SearchTermsReviewProps) => {
+  const [counting, setCounting] = useState(false);
+  const [status, setStatus] = useState('');
+  // Term whose concepts are being looked up in MeSH
+  const [meshIndex, setMeshIndex] = useState<number | null>(null);
+
+  const update = (index: number, changes: Partial<ReviewedTerm>) =>
+    onChange(terms.map((term, i) => (i === index ? { ...term, ...changes } : term)), suggestions);
+
+  // An edited term has to be checked again
+  const edit = (index: number, term: string) =>
+    update(index, { term, count: undefined, query: undefined, problems: undefined });
+
+  const move = (index: number, offset: number) => {
+    setMeshIndex(null);
+    const reordered = [...terms];
+    const [term] = reordered.splice(index, 1);
+    reordered.splice(index + offset, 0, term);
+    onChange(reordered, suggestions);
+  };
+
+  const defaultBudget = terms[terms.length - 1]?.maxResults || 10;
+
+  const checkCounts = async () => {
+    const toCheck = terms.filter(term => term.term.trim());
+    if (toCheck.length === 0) return;
+
+    setCounting(true);
+    setStatus('');
+    try {
+      const response = await fetch('/api/search/terms', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          terms: toCheck.map(term => term.term.trim()),
+          config: { query }
+        } satisfies SearchTermsRequest)
+      });
+      const data: SearchTermsResponse | ApiErrorBody = await response.json();
+      if ('error' in data) {
+        throw new Error(data.error);
+      }
+
+      const counts = new Map(data.terms.map(count => [count.term, count]));
+      onChange(terms.map(term => ({ ...term, ...counts.get(term.term.trim()) })), suggestions);
+    } catch (error) {
+      console.error('Error counting search term hits:', error);
+      setStatus(error instanceof Error && error.message.startsWith('Invalid request')
+        ? error.message
+        : 'Could not check the hit counts');
+    } finally {
+      setCounting(false);
+    }
+  };
+
+  const unchecked = terms.some(term => term.term.trim() && term.count === undefined);
+  const totalBudget = terms.reduce((total, term) => total + (term.term.trim() ? term.maxResults : 0), 0);
+
+  return (
+    <div className="mb-4 space-y-2 rounded-lg border border-gray-200 p-3">
+      <div className="flex items-center justify-between">
+        <Label>Search Terms to Run</Label>
+        <button onClick={onDiscard} disabled={disabled} className="text-xs text-blue-600 hover:underline">
+          Discard and generate at search time
+        </button>
+      </div>
+      <p className="text-xs text-gray-600">
+        Terms run in this order; &quot;Papers&quot; is how many PubMed hits of each term are scored.
+      </p>
+
+      <ul className="space-y-2">
+        {terms.map((term, index) => {
+          const hits = hitLabel(term);
+          return (
+            <li key={index} className="space-y-1">
+              <div className="flex items-center gap-2">
+                <Input
+                  aria-label={`Search term ${index + 1}`}
+                  value={term.term}
+                  disabled={disabled}
+                  onChange={(e) => edit(index, e.target.value)}
+                  className="font-mono text-xs"
+                />
+                <Input
+                  aria-label={`Papers for search term ${index + 1}`}
+                  type="number"
+                  min="1"
+                  max={MAX_SEARCH_RESULTS}
+                  value={term.maxResults}
+                  disabled={disabled}
+                  onChange={(e) => update(index, {
+                    maxResults: Math.min(MAX_SEARCH_RESULTS, Math.max(1, parseInt(e.target.value) || 1))
+                  })}
+                  className="w-20"
+                  title="Papers"
+                />
+                <span className={`w-32 shrink-0 text-xs ${hits.className}`}>{hits.text}</span>
+                <button
+                  onClick={() => setMeshIndex(meshIndex === index ? null : index)}
+                  disabled={disabled || !term.term.trim()}
+                  className="text-gray-400 hover:text-blue-600 disabled:opacity-30"
+                  title="Add a MeSH descriptor"
+                >
+                  <Tags className="h-4 w-4" />
+                </button>
+                <button
+                  onClick={() => move(index, -1)}
+                  disabled={disabled || index === 0}
+                  className="text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                  title="Move up"
+                >
+                  <ArrowUp className="h-4 w-4" />
+                </button>
+                <button
+                  onClick={() => move(index, 1)}
+                  disabled={disabled || index === terms.length - 1}
+                  className="text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                  title="Move down"
+                >
+                  <ArrowDown className="h-4 w-4" />
+                </button>
+                <button
+                  onClick={() => {
+                    setMeshIndex(null);
+                    onChange(terms.filter((_, i) => i !== index), suggestions);
+                  }}
+                  disabled={disabled}
+                  className="text-gray-400 hover:text-red-600"
+                  title="Remove term"
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              </div>
+              {term.problems && term.problems.length > 0 && (
+                <p className="text-xs text-amber-700">{term.problems.join('; ')}</p>
+              )}
+              {meshIndex === index && (
+                <MeshLookup
+                  concept={term.term}
+                  actionLabel="Add to term"
+                  onSelect={(descriptor, explode) => {
+                    edit(index, expandWithMesh(term.term, descriptor.name, explode));
+                    setMeshIndex(null);
+                  }}
+                  onClose={() => setMeshIndex(null)}
+                />
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      {suggestions.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1 text-xs text-gray-600">
+          <span>More suggestions:</span>
+          {suggestions.map((suggestion, index) => (
+            <button
+              key={index}
+              onClick={() => onChange(
+                [...terms, { ...suggestion, maxResults: defaultBudget }],
+                suggestions.filter((_, i) => i !== index)
+              )}
+              disabled={disabled || terms.length >= MAX_SEARCH_TERMS}
+              className="rounded-full bg-gray-100 px-2 py-1 hover:bg-blue-100"
+              title={suggestion.count === undefined ? undefined : hitLabel(suggestion).text}
+            >
+              + {suggestion.term}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={disabled || terms.length >= MAX_SEARCH_TERMS}
+          onClick={() => onChange([...terms, { term: '', maxResults: defaultBudget }], suggestions)}
+        >
+          <Plus className="mr-1 h-4 w-4" />
+          Add term
+        </Button>
+        <Button variant="outline" size="sm" disabled={disabled || counting || !unchecked} onClick={checkCounts}>
+          <RefreshCw className={`mr-1 h-4 w-4 ${counting ? 'animate-spin' : ''}`} />
+          Check hit counts
+        </Button>
+        <span className="text-xs text-gray-600">Up to {totalBudget} papers scored from these terms</span>
+        {status && <span className="text-xs text-red-600">{status}</span>}
+      </div>
+    </div>
+  );
+};
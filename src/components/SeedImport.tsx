@@ -0,0 +1,131 @@
+'use client';
+import React, { useState } from 'react';
+import { Upload, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import type { ApiErrorBody, ResolveSeedsRequest, ResolveSeedsResponse } from '@/lib/api-contracts';
+import { parseBibliography } from '@/lib/bibliography';
+import { paperKey } from '@/lib/paper-identity';
+import type { PaperDetails } from '@/lib/papers';
+
+interface SeedImportProps {
+  seedPapers: PaperDetails[];
+  disabled?: boolean;
+  onChange: (seedPapers: PaperDetails[]) => void;
+}
+
+// Import a BibTeX / RIS / PubMed file or pasted DOIs and PMIDs as seed papers for the search
+export const SeedImport = ({ seedPapers, disabled, onChange }: SeedImportProps) => {
+  const [pastedText, setPastedText] = useState('');
+  const [importing, setImporting] = useState(false);
+  const [status, setStatus] = useState('');
+
+  const importText = async (text: string) => {
+    const seeds = parseBibliography(text);
+    if (seeds.length === 0) {
+      setStatus('No DOIs, PMIDs or titles found');
+      return;
+    }
+
+    setImporting(true);
+    setStatus(`Looking up ${seeds.length} references in PubMed...`);
+    try {
+      const response = await fetch('/api/pubmed', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ seeds } satisfies ResolveSeedsRequest)
+      });
+      const data: ResolveSeedsResponse | ApiErrorBody = await response.json();
+      if ('error' in data) {
+        throw new Error(data.error || 'PubMed lookup failed');
+      }
+
+      const known = new Set(seedPapers.map(paperKey));
+      onChange([...seedPapers, ...data.papers.filter(paper => !known.has(paperKey(paper)))]);
+      setPastedText('');
+      setStatus(data.unresolved.length
+        ? `${data.unresolved.length} of ${seeds.length} references could not be found in PubMed`
+        : '');
+    } catch (error) {
+      console.error('Error importing references:', error);
+      setStatus(error instanceof Error && error.message.startsWith('Invalid request')
+        ? error.message
+        : 'Could not look up the references');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) {
+      await importText(await file.text());
+    }
+  };
+
+  return (
+    <div className="mb-4 space-y-2">
+      <Label htmlFor="seedImport">Seed References (optional)</Label>
+      <Textarea
+        id="seedImport"
+        value={pastedText}
+        onChange={(e) => setPastedText(e.target.value)}
+        className="h-20 resize-none text-xs"
+        placeholder="Paste DOIs or PMIDs, or upload a BibTeX / RIS / PubMed file..."
+      />
+      <div className="flex flex-wrap items-center gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => importText(pastedText)}
+          disabled={disabled || importing || !pastedText.trim()}
+        >
+          Import
+        </Button>
+        <label className="inline-flex h-8 cursor-pointer items-center rounded-md border border-gray-300 px-3 text-xs hover:bg-gray-50">
+          <Upload className="mr-1 h-4 w-4" />
+          Upload file
+          <input
+            type="file"
+            accept=".bib,.ris,.nbib,.txt"
+            className="hidden"
+            onChange={handleFile}
+            disabled={disabled || importing}
+          />
+        </label>
+        {status && <span className="text-xs text-gray-600">{status}</span>}
+      </div>
+
+      {seedPapers.length > 0 && (
+        <div className="rounded-lg border border-gray-200 p-2">
+          <div className="flex items-center justify-between mb-1 text-xs text-gray-600">
+            <span>{seedPapers.length} seed papers: their references, citations and abstracts guide the search</span>
+            <button onClick={() => onChange([])} className="text-blue-600 hover:underline">
+              Clear
+            </button>
+          </div>
+          <ul className="max-h-32 overflow-y-auto space-y-1">
+            {seedPapers.map(paper => (
+              <li key={paperKey(paper)} className="flex items-start justify-between gap-2 text-xs">
+                <span className="line-clamp-1">
+                  <span className="text-gray-500">{paper.pmid ? `PMID ${paper.pmid}` : `DOI ${paper.doi}`}</span> {paper.title}
+                </span>
+                <button
+                  onClick={() => onChange(seedPapers.filter(seed => paperKey(seed) !== paperKey(paper)))}
+                  className="text-gray-400 hover:text-red-600"
+                  title="Remove seed"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,107 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { PaperDetails } from '@/lib/papers';
+
+vi.mock('@/lib/eutils', () => ({ sleep: () => Promise.resolve() }));
+vi.mock('@/lib/llm', () => ({
+  complete: vi.fn(),
+  getLlmSettings: () => ({ provider: 'anthropic', model: 'm', temperature: 0, maxTokens: 300, maxOutputTokens: 8192 })
+}));
+
+const { complete } = await import('@/lib/llm');
+const { generateSearchTerms, parseScores, scorePapers } = await import('@/lib/analysis');
+
+const completeMock = vi.mocked(complete);
+
+const paper = (pmid: string): PaperDetails => ({
+  id: pmid,
+  pmid,
+  title: `Paper ${pmid}`,
+  authors: 'Smith J',
+  journal: 'Nature',
+  year: '2020',
+  abstract: 'An abstract.',
+  pubDate: '2020'
+});
+
+const answer = (scores: Array<{ pmid: string; relevanceScore: number; summary?: string }>) => JSON.stringify(scores);
+
+beforeEach(() => {
+  completeMock.mockReset();
+  // Failed attempts are logged
+  vi.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+describe('parseScores', () => {
+  const keys = new Set(['1', '2', '3']);
+
+  it('reads an array wrapped in a code fence or a sentence', () => {
+    const scores = parseScores('Here you go:\n```json\n[{"pmid": "1", "relevanceScore": 7, "summary": "s"}]\n```', keys);
+
+    expect(scores.get('1')).toEqual({ relevanceScore: 7, summary: 's' });
+  });
+
+  it('drops unknown papers, scores outside 1-10 and missing summaries, and rounds scores', () => {
+    const scores = parseScores(JSON.stringify([
+      { pmid: '9', relevanceScore: 5, summary: 'other paper' },
+      { pmid: '1', relevanceScore: 11, summary: 'too high' },
+      { pmid: '2', relevanceScore: 6, summary: '  ' },
+      { pmid: 3, relevanceScore: 6.6, summary: ' numeric pmid ' }
+    ]), keys);
+
+    expect([...scores.keys()]).toEqual(['3']);
+    expect(scores.get('3')).toEqual({ relevanceScore: 7, summary: 'numeric pmid' });
+  });
+
+  it('throws when the answer is not a JSON array', () => {
+    expect(() => parseScores('{"pmid": "1"}', keys)).toThrow();
+    expect(() => parseScores('I cannot score these papers.', keys)).toThrow();
+  });
+});
+
+describe('scorePapers', () => {
+  it('asks again for the papers missing from a partial answer', async () => {
+    completeMock
+      .mockResolvedValueOnce(answer([{ pmid: '1', relevanceScore: 8, summary: 'first' }]))
+      .mockResolvedValueOnce(answer([{ pmid: '2', relevanceScore: 4, summary: 'second' }]));
+
+    const scored = await scorePapers([paper('1'), paper('2')], 'discussion');
+
+    expect(scored.map(p => [p.pmid, p.relevanceScore, p.notScored])).toEqual([['1', 8, undefined], ['2', 4, undefined]]);
+    expect(completeMock).toHaveBeenCalledTimes(2);
+    expect(completeMock.mock.calls[1][1]).not.toContain('[1]\nTitle');
+  });
+
+  it('marks papers not scored once the attempts run out', async () => {
+    completeMock.mockResolvedValue('not JSON');
+
+    const scored = await scorePapers([paper('1')], 'discussion');
+
+    expect(scored[0]).toMatchObject({ relevanceScore: 0, summary: '', notScored: true });
+    expect(completeMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('sizes the token limit to the papers in the batch', async () => {
+    completeMock.mockResolvedValue(answer([
+      { pmid: '1', relevanceScore: 5, summary: 's' },
+      { pmid: '2', relevanceScore: 5, summary: 's' }
+    ]));
+
+    await scorePapers([paper('1'), paper('2')], 'discussion');
+
+    expect(completeMock.mock.calls[0][2]).toMatchObject({ maxTokens: 200 + 300 * 2 });
+  });
+});
+
+describe('generateSearchTerms', () => {
+  it('returns one term per non-empty line', async () => {
+    completeMock.mockResolvedValue('gut microbiome[tiab]\n\nobesity[mh]\n');
+
+    expect(await generateSearchTerms('text')).toEqual(['gut microbiome[tiab]', 'obesity[mh]']);
+  });
+
+  it('falls back to the discussion text when the model fails', async () => {
+    completeMock.mockRejectedValue(new Error('down'));
+
+    expect(await generateSearchTerms('text')).toEqual(['text']);
+  });
+});
@@ -0,0 +1,102 @@
+import { sleep } from '@/lib/eutils';
+import { complete, getLlmSettings } from '@/lib/llm';
+import { paperKey } from '@/lib/paper-identity';
+import type { PaperDetails } from '@/lib/papers';
+import { scoringPrompt, searchTermsPrompt } from '@/lib/prompts';
+import type { Paper } from '@/lib/types';
+
+// Function to generate search terms with the language model
+export const generateSearchTerms = async (text: string): Promise<string[]> => {
+  try {
+    const answer = await complete('searchTerms', searchTermsPrompt(text));
+    const searchTerms = answer.trim().split('\n');
+    return searchTerms.filter((term: string) => term.length > 0);
+  } catch (error) {
+    console.error('Error generating search terms:', error);
+    return [text];
+  }
+};
+
+// Papers scored per model call, and calls made for a batch before its papers are left unscored
+export const SCORING_BATCH_SIZE = 10;
+const MAX_SCORING_ATTEMPTS = 3;
+
+interface PaperScore {
+  relevanceScore: number;
+  summary: string;
+}
+
+// Papers the model could not score are marked as such instead of getting a made-up score
+const notScored = (paper: PaperDetails): Paper => ({
+  ...paper,
+  relevanceScore: 0,
+  summary: '',
+  notScored: true
+});
+
+// Valid scores in a batch response, keyed by PMID. Entries for other papers, with a score outside
+// 1-10 or without a summary are dropped; a response that isn't a JSON array throws.
+export const parseScores = (text: string, keys: Set<string>) => {
+  // Tolerate a code fence or a sentence around the array
+  const start = text.indexOf('[');
+  const parsed: unknown = JSON.parse(start === -1 ? text : text.slice(start, text.lastIndexOf(']') + 1));
+  if (!Array.isArray(parsed)) {
+    throw new Error('Scoring response is not a JSON array');
+  }
+
+  const scores = new Map<string, PaperScore>();
+  for (const entry of parsed) {
+    const { pmid, relevanceScore, summary } = (entry ?? {}) as Record<string, unknown>;
+    const key = String(pmid);
+    if (keys.has(key) && typeof relevanceScore === 'number' && relevanceScore >= 1 && relevanceScore <= 10
+      && typeof summary === 'string' && summary.trim()) {
+      scores.set(key, { relevanceScore: Math.round(relevanceScore), summary: summary.trim() });
+    }
+  }
+  return scores;
+};
+
+// Score one batch in a single model call; papers missing from a malformed or partial
+// response are sent again, and stay unscored once the attempts run out
+const scoreBatch = async (papers: PaperDetails[], discussionText: string): Promise<Paper[]> => {
+  const scores = new Map<string, PaperScore>();
+
+  for (let attempt = 1; attempt <= MAX_SCORING_ATTEMPTS; attempt++) {
+    const remaining = papers.filter(paper => !scores.has(paperKey(paper)));
+    if (remaining.length === 0) break;
+    if (attempt > 1) await sleep(1000 * attempt);
+
+    const keys = new Set(remaining.map(paperKey));
+    const isParseable = (answer: string) => {
+      try {
+        return parseScores(answer, keys).size > 0;
+      } catch {
+        return false;
+      }
+    };
+
+    try {
+      const answer = await complete('scoring', scoringPrompt(remaining, discussionText), {
+        maxTokens: 200 + getLlmSettings('scoring').maxTokens * remaining.length,
+        shouldCache: isParseable
+      });
+      parseScores(answer, keys).forEach((score, key) => scores.set(key, score));
+    } catch (error) {
+      console.error(`Error scoring papers (attempt ${attempt} of ${MAX_SCORING_ATTEMPTS}):`, error);
+    }
+  }
+
+  return papers.map(paper => {
+    const score = scores.get(paperKey(paper));
+    return score ? { ...paper, ...score } : notScored(paper);
+  });
+};
+
+// Score papers against the discussion, one model call per batch of SCORING_BATCH_SIZE papers
+export const scorePapers = async (papers: PaperDetails[], discussionText: string): Promise<Paper[]> => {
+  const scored: Paper[] = [];
+  for (let i = 0; i < papers.length; i += SCORING_BATCH_SIZE) {
+    scored.push(...await scoreBatch(papers.slice(i, i + SCORING_BATCH_SIZE), discussionText));
+  }
+  return scored;
+};
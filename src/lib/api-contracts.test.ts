@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { parseScreeningResolution, parseScreeningVote } from '@/lib/api-contracts';
+
+const screening = { reviewers: ['ana', 'ben'], exclusionReasons: ['Wrong population'] };
+
+describe('parseScreeningVote', () => {
+  it('reads a vote, with the reason of an exclusion', () => {
+    expect(parseScreeningVote({ reviewer: 'ben', paperKey: '123', decision: 'exclude', reason: 'Wrong population' }, screening))
+      .toEqual({ ok: true, value: { reviewer: 'ben', paperKey: '123', decision: 'exclude', reason: 'Wrong population' } });
+    expect(parseScreeningVote({ reviewer: 'ana', paperKey: '123', decision: 'include', reason: 'ignored' }, screening))
+      .toEqual({ ok: true, value: { reviewer: 'ana', paperKey: '123', decision: 'include' } });
+  });
+
+  it('rejects missing, empty and unknown reviewers and decisions', () => {
+    const fieldsOf = (body: Record<string, unknown>) => {
+      const parsed = parseScreeningVote({ paperKey: '123', ...body }, screening);
+      return parsed.ok ? [] : parsed.fields;
+    };
+
+    expect(fieldsOf({ decision: 'include' })).toEqual([{ field: 'reviewer', message: 'is required' }]);
+    expect(fieldsOf({ reviewer: '', decision: 'include' })).toEqual([{ field: 'reviewer', message: 'must be one of ana, ben' }]);
+    expect(fieldsOf({ reviewer: 'eve', decision: 'include' })).toEqual([{ field: 'reviewer', message: 'must be one of ana, ben' }]);
+    expect(fieldsOf({ reviewer: 'ana' })).toEqual([{ field: 'decision', message: 'is required' }]);
+    expect(fieldsOf({ reviewer: 'ana', decision: '' })).toEqual([
+      { field: 'decision', message: 'must be one of include, exclude, maybe' }
+    ]);
+  });
+
+  it('requires one of the exclusion reasons when excluding', () => {
+    const parsed = parseScreeningVote({ reviewer: 'ana', paperKey: '123', decision: 'exclude', reason: 'Other' }, screening);
+
+    expect(parsed).toEqual({ ok: false, fields: [{ field: 'reason', message: 'must be one of the exclusion reasons' }] });
+  });
+});
+
+describe('parseScreeningResolution', () => {
+  it('rejects an empty decision instead of resolving the paper as maybe', () => {
+    expect(parseScreeningResolution({ paperKey: '123', decision: '' }, screening)).toEqual({
+      ok: false,
+      fields: [{ field: 'decision', message: 'must be one of include, exclude, maybe' }]
+    });
+  });
+});
@@ -0,0 +1,795 @@
+// Request and response contracts of the /api routes, shared by the route handlers and the browser.
+// Parsers collect every bad field so a 400 response can report them all at once.
+import type { CitedByPage } from '@/lib/citations';
+import type { PaperDetails } from '@/lib/papers';
+import {
+  ARTICLE_TYPES,
+  EMPTY_QUERY_FILTERS,
+  LANGUAGES,
+  QUERY_DATE_PATTERN,
+  QUERY_FIELDS,
+  QUERY_OPERATORS,
+  SPECIES
+} from '@/lib/query-builder';
+import {
+  DEFAULT_MAX_RESULTS,
+  MAX_SEARCH_RESULTS,
+  MAX_SEARCH_TERMS,
+  MAX_SNOWBALL_HOPS,
+  MAX_SNOWBALL_PAPERS,
+  PROMPT_TASKS,
+  SCREENING_DECISIONS,
+  type MeshDescriptor,
+  type Paper,
+  type PromptSelection,
+  type PromptTask,
+  type PromptTemplate,
+  type QueryClause,
+  type QueryField,
+  type QueryFilters,
+  type Screening,
+  type ScreeningDecision,
+  type ScreeningView,
+  type SearchConfig,
+  type SearchTermPlan,
+  type SeedReference
+} from '@/lib/types';
+
+export interface FieldError {
+  // Dotted path of the offending field, e.g. "config.maxResults" or "papers[2].title"
+  field: string;
+  message: string;
+}
+
+// Body of every non-2xx JSON response
+export interface ApiErrorBody {
+  error: string;
+  details?: string;
+  fields?: FieldError[];
+}
+
+export type ParseResult<T> = { ok: true; value: T } | { ok: false; fields: FieldError[] };
+
+// Imported references accepted per request
+export const MAX_SEEDS = 100;
+
+// Papers per /api/library/collections/[id]/papers request
+const MAX_PAPERS_PER_REQUEST = 500;
+
+const PMID_PATTERN = /^\d+$/;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Reads typed fields from a JSON body (or query parameters), recording an error for each
+// invalid one. Required readers return a placeholder on failure; `result` discards it.
+export const createFieldReader = (input: unknown, prefix = '') => {
+  const source = isRecord(input) ? input : {};
+  const fields: FieldError[] = isRecord(input)
+    ? []
+    : [{ field: prefix || 'body', message: 'must be a JSON object' }];
+
+  const path = (key: string) => (prefix ? `${prefix}.${key}` : key);
+  // Fields of something that isn't an object aren't reported on their own
+  const fail = (key: string, message: string) => {
+    if (isRecord(input)) fields.push({ field: path(key), message });
+  };
+  const isMissing = (value: unknown) => value === undefined || value === null;
+
+  // Query parameters arrive as strings, JSON bodies as numbers
+  const toInteger = (value: unknown) => {
+    const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+    return typeof number === 'number' && Number.isInteger(number) ? number : null;
+  };
+
+  return {
+    fields,
+    fail,
+    path,
+    raw: (key: string) => source[key],
+
+    // Non-blank string, returned untrimmed
+    string(key: string, { pattern, message = 'must be a non-empty string', maxLength }: {
+      pattern?: RegExp;
+      message?: string;
+      maxLength?: number;
+    } = {}): string {
+      const value = source[key];
+      if (typeof value !== 'string' || value.trim() === '' || (pattern && !pattern.test(value))) {
+        fail(key, isMissing(value) ? 'is required' : message);
+        return '';
+      }
+      if (maxLength && value.length > maxLength) {
+        fail(key, `must be at most ${maxLength} characters`);
+      }
+      return value;
+    },
+
+    optionalString(key: string): string | undefined {
+      const value = source[key];
+      if (isMissing(value)) return undefined;
+      if (typeof value !== 'string') {
+        fail(key, 'must be a string');
+        return undefined;
+      }
+      return value;
+    },
+
+    integer(key: string, fallback: number, { min, max }: { min?: number; max?: number } = {}): number {
+      const value = source[key];
+      if (isMissing(value)) return fallback;
+
+      const number = toInteger(value);
+      if (number === null) {
+        fail(key, 'must be an integer');
+        return fallback;
+      }
+      if ((min !== undefined && number < min) || (max !== undefined && number > max)) {
+        fail(key, max === undefined ? `must be at least ${min}` : `must be between ${min ?? 0} and ${max}`);
+        return fallback;
+      }
+      return number;
+    },
+
+    optionalBoolean(key: string): boolean | undefined {
+      const value = source[key];
+      if (isMissing(value)) return undefined;
+      if (typeof value !== 'boolean') {
+        fail(key, 'must be true or false');
+        return undefined;
+      }
+      return value;
+    },
+
+    oneOf<T extends string>(key: string, values: readonly T[], fallback: T): T {
+      const value = source[key];
+      if (isMissing(value) || value === '') return fallback;
+      if (!values.includes(value as T)) {
+        fail(key, `must be one of ${values.join(', ')}`);
+        return fallback;
+      }
+      return value as T;
+    },
+
+    array(key: string, { minItems = 0, maxItems }: { minItems?: number; maxItems?: number } = {}): unknown[] {
+      const value = source[key];
+      if (!Array.isArray(value)) {
+        if (isMissing(value) && minItems === 0) return [];
+        fail(key, isMissing(value) ? 'is required' : 'must be an array');
+        return [];
+      }
+      if (value.length < minItems) {
+        fail(key, `must contain at least ${minItems} item${minItems === 1 ? '' : 's'}`);
+      }
+      if (maxItems !== undefined && value.length > maxItems) {
+        fail(key, `must contain at most ${maxItems} items`);
+      }
+      return value;
+    },
+
+    // The parsed value when no field failed
+    result<T>(value: T): ParseResult<T> {
+      return fields.length === 0 ? { ok: true, value } : { ok: false, fields };
+    }
+  };
+};
+
+type FieldReader = ReturnType<typeof createFieldReader>;
+
+// One-line summary for ApiErrorBody.error, e.g. "Invalid request: prompt is required"
+export const describeFieldErrors = (fields: FieldError[]) =>
+  `Invalid request: ${fields.map(({ field, message }) => `${field} ${message}`).join('; ')}`;
+
+// Nested fields are read with their own reader; their errors are merged into the parent's
+const readNested = <T>(reader: FieldReader, key: string, parse: (nested: FieldReader) => T): T => {
+  const nested = createFieldReader(reader.raw(key), reader.path(key));
+  const value = parse(nested);
+  reader.fields.push(...nested.fields);
+  return value;
+};
+
+// ---------------------------------------------------------------------------
+// /api/claude
+
+export interface CompletionRequest {
+  prompt: string;
+  // Defaults to the completion task's configured limit
+  maxTokens?: number;
+}
+
+// The text of the model's reply rather than the provider's raw payload
+export interface CompletionResponse {
+  text: string;
+  provider: string;
+  model: string;
+}
+
+export const parseCompletionRequest = (body: unknown): ParseResult<CompletionRequest> => {
+  const reader = createFieldReader(body);
+  return reader.result({
+    prompt: reader.string('prompt', { maxLength: 100000 }),
+    maxTokens: reader.raw('maxTokens') === undefined ? undefined : reader.integer('maxTokens', 0, { min: 1, max: 8192 })
+  });
+};
+
+// ---------------------------------------------------------------------------
+// /api/perplexity
+
+export interface PerplexityRequest {
+  textContent: string;
+}
+
+export interface PerplexityApiResponse {
+  answer: string;
+  citations: string[];
+}
+
+export const parsePerplexityRequest = (body: unknown): ParseResult<PerplexityRequest> => {
+  const reader = createFieldReader(body);
+  return reader.result({ textContent: reader.string('textContent', { maxLength: 100000 }) });
+};
+
+// ---------------------------------------------------------------------------
+// /api/serp and /api/tavily
+
+export interface ExternalSearchRequest {
+  query: string;
+  maxResults: number;
+}
+
+// Hits converted to unscored papers, the same records the search pipeline scores
+export interface ExternalSearchResponse {
+  papers: PaperDetails[];
+  // Tavily's generated answer, when it gives one
+  answer?: string;
+}
+
+export const parseExternalSearchRequest = (body: unknown): ParseResult<ExternalSearchRequest> => {
+  const reader = createFieldReader(body);
+  return reader.result({
+    query: reader.string('query', { maxLength: 1000 }),
+    maxResults: reader.integer('maxResults', 10, { min: 1, max: 20 })
+  });
+};
+
+// Clauses of the query builder and the filters applied to every PubMed term
+const MAX_QUERY_CLAUSES = 20;
+
+const readQueryFilters = (reader: FieldReader): QueryFilters => {
+  const clauses = reader.array('clauses', { maxItems: MAX_QUERY_CLAUSES }).map((clause, index): QueryClause => {
+    const nested = createFieldReader(clause, reader.path(`clauses[${index}]`));
+    const value: QueryClause = {
+      field: nested.oneOf('field', Object.keys(QUERY_FIELDS) as QueryField[], 'all'),
+      value: nested.optionalString('value') || '',
+      operator: nested.oneOf('operator', QUERY_OPERATORS, 'AND'),
+      explode: nested.optionalBoolean('explode')
+    };
+    reader.fields.push(...nested.fields);
+    return value;
+  });
+
+  const date = (key: string) => {
+    const value = reader.optionalString(key)?.trim();
+    if (value && !QUERY_DATE_PATTERN.test(value)) {
+      reader.fail(key, 'must be a date like 2020, 2020/06 or 2020/06/30');
+    }
+    return value || undefined;
+  };
+
+  const subset = <T extends string>(key: string, allowed: readonly T[]): T[] =>
+    reader.array(key).filter((value, index) => {
+      const known = allowed.includes(value as T);
+      if (!known) reader.fail(`${key}[${index}]`, `must be one of ${allowed.join(', ')}`);
+      return known;
+    }) as T[];
+
+  return {
+    clauses,
+    dateFrom: date('dateFrom'),
+    dateTo: date('dateTo'),
+    articleTypes: subset('articleTypes', ARTICLE_TYPES),
+    languages: subset('languages', LANGUAGES),
+    species: reader.raw('species')
+      ? reader.oneOf('species', Object.keys(SPECIES) as Array<keyof typeof SPECIES>, 'humans')
+      : undefined,
+    freeFullText: reader.optionalBoolean('freeFullText') ?? EMPTY_QUERY_FILTERS.freeFullText
+  };
+};
+
+// ---------------------------------------------------------------------------
+// /api/pubmed
+
+export const PUBMED_QUERY_TYPES = ['search', 'summary', 'papers', 'doi', 'citations', 'references', 'mesh'] as const;
+
+export type PubmedQueryType = typeof PUBMED_QUERY_TYPES[number];
+
+export type PubmedQuery =
+  | { type: 'search'; term: string; retmax: number; filters: QueryFilters }
+  | { type: 'summary' | 'papers'; ids: string[] }
+  | { type: 'doi'; doi: string }
+  | { type: 'citations' | 'references'; pmid: string }
+  | { type: 'mesh'; term: string; retmax: number };
+
+export interface PubmedSearchResponse {
+  ids: string[];
+  // Total number of matches, of which at most retmax ids are returned
+  count: number;
+  // The term as sent to PubMed, with the filters applied
+  query: string;
+}
+
+export interface PubmedPapersResponse {
+  papers: PaperDetails[];
+}
+
+export interface PubmedDoiResponse {
+  doi: string;
+  pmid: string | null;
+}
+
+export interface PubmedLinksResponse {
+  pmid: string;
+  ids: string[];
+}
+
+export interface PubmedMeshResponse {
+  descriptors: MeshDescriptor[];
+}
+
+export interface ResolveSeedsRequest {
+  seeds: SeedReference[];
+}
+
+export interface ResolveSeedsResponse {
+  papers: PaperDetails[];
+  unresolved: SeedReference[];
+}
+
+// PMIDs or "doi:<doi>" paper keys
+const PAPER_KEY_PATTERN = /^(\d+|doi:\S+)$/;
+
+// Search filters as query parameters: articleTypes and languages are comma-separated lists
+// and freeFullText is "true" or "false"
+const filterParams = (searchParams: URLSearchParams) => {
+  const list = (key: string) => searchParams.get(key)?.split(',').map(value => value.trim()).filter(Boolean);
+  const freeFullText = searchParams.get('freeFullText');
+  return {
+    dateFrom: searchParams.get('dateFrom') ?? undefined,
+    dateTo: searchParams.get('dateTo') ?? undefined,
+    articleTypes: list('articleTypes'),
+    languages: list('languages'),
+    species: searchParams.get('species') ?? undefined,
+    freeFullText: freeFullText === 'true' || freeFullText === 'false' ? freeFullText === 'true' : freeFullText ?? undefined
+  };
+};
+
+// GET /api/pubmed?type=...&term=...: term is a query, a comma-separated id list, a DOI, a PMID
+// or a concept to look up in MeSH.
+// Searches also take the filters of the query builder (see filterParams).
+export const parsePubmedQuery = (searchParams: URLSearchParams): ParseResult<PubmedQuery> => {
+  const reader = createFieldReader(Object.fromEntries(searchParams));
+  const type = reader.oneOf('type', PUBMED_QUERY_TYPES, 'search');
+
+  switch (type) {
+    case 'search': {
+      const filters = createFieldReader(filterParams(searchParams));
+      const value = {
+        type,
+        term: reader.string('term', { maxLength: 4000 }),
+        retmax: reader.integer('retmax', 20, { min: 1, max: 10000 }),
+        filters: readQueryFilters(filters)
+      };
+      reader.fields.push(...filters.fields);
+      return reader.result(value);
+    }
+    case 'summary':
+    case 'papers': {
+      const ids = reader.string('term').split(',').map(id => id.trim()).filter(Boolean);
+      const pattern = type === 'summary' ? PMID_PATTERN : PAPER_KEY_PATTERN;
+      if (ids.some(id => !pattern.test(id))) {
+        reader.fail('term', type === 'summary'
+          ? 'must be a comma-separated list of PMIDs'
+          : 'must be a comma-separated list of PMIDs or doi:<doi> keys');
+      }
+      return reader.result({ type, ids });
+    }
+    case 'doi':
+      return reader.result({ type, doi: reader.string('term').trim() });
+    case 'citations':
+    case 'references':
+      return reader.result({ type, pmid: reader.string('term', { pattern: PMID_PATTERN, message: 'must be a PMID' }) });
+    case 'mesh':
+      return reader.result({
+        type,
+        term: reader.string('term', { maxLength: 200 }).trim(),
+        retmax: reader.integer('retmax', 5, { min: 1, max: 20 })
+      });
+  }
+};
+
+// Keep the identifier fields of a seed entry; entries without any identifier are errors
+const readSeeds = (reader: FieldReader, key: string, minItems: number): SeedReference[] =>
+  reader.array(key, { minItems, maxItems: MAX_SEEDS }).map((entry, index) => {
+    const seed = isRecord(entry) ? entry : {};
+    const text = (name: string) => {
+      const value = seed[name];
+      return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+    };
+
+    const pmid = text('pmid');
+    const reference = {
+      pmid: pmid && PMID_PATTERN.test(pmid) ? pmid : undefined,
+      doi: text('doi'),
+      title: text('title')
+    };
+    if (pmid && !reference.pmid) {
+      reader.fail(`${key}[${index}].pmid`, 'must be a PMID');
+    } else if (!reference.pmid && !reference.doi && !reference.title) {
+      reader.fail(`${key}[${index}]`, 'must have a pmid, doi or title');
+    }
+    return reference;
+  });
+
+export const parseResolveSeedsRequest = (body: unknown): ParseResult<ResolveSeedsRequest> => {
+  const reader = createFieldReader(body);
+  return reader.result({ seeds: readSeeds(reader, 'seeds', 1) });
+};
+
+// Template chosen per task, e.g. { scoring: { templateId, version? } }
+const readPromptSelection = (reader: FieldReader): PromptSelection => {
+  const selection: PromptSelection = {};
+  for (const task of PROMPT_TASKS) {
+    if (reader.raw(task) === undefined) continue;
+    selection[task] = readNested(reader, task, ref => ({
+      templateId: ref.string('templateId'),
+      version: ref.raw('version') === undefined ? undefined : ref.integer('version', 1, { min: 1 })
+    }));
+  }
+  return selection;
+};
+
+// ---------------------------------------------------------------------------
+// /api/citations
+
+export interface CitedByRequest {
+  pmid: string;
+  offset: number;
+  limit: number;
+  // Turns on Claude scoring of the page
+  discussionText?: string;
+  // Templates to score with, normally those of the search the paper came from
+  prompts?: PromptSelection;
+}
+
+export type CitedByResponse = CitedByPage;
+
+export const parseCitedByRequest = (body: unknown, defaultLimit: number): ParseResult<CitedByRequest> => {
+  const reader = createFieldReader(body);
+  const discussionText = reader.optionalString('discussionText');
+  return reader.result({
+    pmid: reader.string('pmid', { pattern: PMID_PATTERN, message: 'must be a PMID' }),
+    offset: reader.integer('offset', 0, { min: 0 }),
+    limit: reader.integer('limit', defaultLimit, { min: 1, max: 100 }),
+    discussionText: discussionText?.trim() ? discussionText : undefined,
+    prompts: reader.raw('prompts') === undefined ? undefined : readNested(reader, 'prompts', readPromptSelection)
+  });
+};
+
+// ---------------------------------------------------------------------------
+// /api/search and /api/search/stream
+
+export interface SearchRequestBody {
+  discussionText?: string;
+  config?: Partial<SearchConfig>;
+  seeds?: SeedReference[];
+  // Id of a recorded session to re-run; config then overrides the session's settings
+  rerunOf?: string;
+}
+
+const readSearchTermPlans = (reader: FieldReader): SearchTermPlan[] =>
+  reader.array('terms', { maxItems: MAX_SEARCH_TERMS }).map((plan, index) => {
+    const nested = createFieldReader(plan, reader.path(`terms[${index}]`));
+    const value = {
+      term: nested.string('term', { maxLength: 4000 }),
+      maxResults: nested.integer('maxResults', DEFAULT_MAX_RESULTS, { min: 1, max: MAX_SEARCH_RESULTS })
+    };
+    reader.fields.push(...nested.fields);
+    return value;
+  });
+
+// Only the settings present in the body; defaults are filled in by the route
+const readSearchConfig = (reader: FieldReader): Partial<SearchConfig> => {
+  const config: Partial<SearchConfig> = {};
+  const booleans = [
+    'includeReferences', 'includeCitations', 'scoreCitations', 'includeScholar', 'includeWeb', 'snowball'
+  ] as const;
+  for (const key of booleans) {
+    const value = reader.optionalBoolean(key);
+    if (value !== undefined) config[key] = value;
+  }
+
+  const integers = {
+    maxResults: MAX_SEARCH_RESULTS,
+    snowballHops: MAX_SNOWBALL_HOPS,
+    snowballMinScore: 10,
+    snowballMaxPapers: MAX_SNOWBALL_PAPERS
+  } as const;
+  for (const [key, max] of Object.entries(integers) as Array<[keyof typeof integers, number]>) {
+    if (reader.raw(key) !== undefined) config[key] = reader.integer(key, 0, { min: 1, max });
+  }
+
+  if (reader.raw('prompts') !== undefined) {
+    config.prompts = readNested(reader, 'prompts', readPromptSelection);
+  }
+  if (reader.raw('query') !== undefined) {
+    config.query = readNested(reader, 'query', readQueryFilters);
+  }
+  if (reader.raw('terms') !== undefined) {
+    config.terms = readSearchTermPlans(reader);
+  }
+
+  return config;
+};
+
+export const parseSearchRequestBody = (body: unknown): ParseResult<SearchRequestBody> => {
+  const reader = createFieldReader(body);
+  const rerunOf = reader.optionalString('rerunOf');
+  const config = reader.raw('config') === undefined ? {} : readNested(reader, 'config', readSearchConfig);
+
+  if (rerunOf !== undefined) {
+    return reader.result({ rerunOf, config });
+  }
+
+  const discussionText = reader.optionalString('discussionText') || '';
+  const seeds = readSeeds(reader, 'seeds', 0);
+  if (discussionText.trim() === '' && seeds.length === 0) {
+    reader.fail('discussionText', 'or seeds is required');
+  }
+  return reader.result({ discussionText, config, seeds });
+};
+
+// ---------------------------------------------------------------------------
+// /api/search/terms
+
+// Either the body of a search, whose terms are generated and counted, or terms to count as
+// they are, e.g. after editing them
+export type SearchTermsRequest = SearchRequestBody | { terms: string[]; config?: Partial<SearchConfig> };
+
+export interface SearchTermCount {
+  term: string;
+  // The term as sent to PubMed, with the filters of config.query applied
+  query: string;
+  // PubMed hits, or null when PubMed rejected the term
+  count: number | null;
+  // Errors and warnings PubMed reported, e.g. phrases it ignored
+  problems: string[];
+}
+
+export interface SearchTermsResponse {
+  terms: SearchTermCount[];
+}
+
+export const parseSearchTermsRequest = (body: unknown): ParseResult<SearchTermsRequest> => {
+  const reader = createFieldReader(body);
+  if (reader.raw('terms') === undefined) {
+    return parseSearchRequestBody(body);
+  }
+
+  const terms = reader.array('terms', { minItems: 1, maxItems: MAX_SEARCH_TERMS }).map((term, index) => {
+    if (typeof term !== 'string' || term.trim() === '') {
+      reader.fail(`terms[${index}]`, 'must be a non-empty string');
+    }
+    return String(term);
+  });
+  const config = reader.raw('config') === undefined ? {} : readNested(reader, 'config', readSearchConfig);
+  return reader.result({ terms, config });
+};
+
+// ---------------------------------------------------------------------------
+// /api/library
+
+export interface CollectionInput {
+  name: string;
+  description?: string;
+}
+
+export type CollectionUpdate = Partial<CollectionInput>;
+
+export interface AddPapersRequest {
+  papers: Paper[];
+}
+
+export interface SaveNoteRequest {
+  paper: Paper;
+  note: string;
+}
+
+export const parseCollectionInput = (body: unknown): ParseResult<CollectionInput> => {
+  const reader = createFieldReader(body);
+  const name = reader.string('name', { maxLength: 200 }).trim();
+  return reader.result({ name, description: reader.optionalString('description') });
+};
+
+export const parseCollectionUpdate = (body: unknown): ParseResult<CollectionUpdate> => {
+  const reader = createFieldReader(body);
+  const name = reader.raw('name') === undefined ? undefined : reader.string('name', { maxLength: 200 }).trim();
+  return reader.result({ name, description: reader.optionalString('description') });
+};
+
+// A paper as the client holds it must have an id and a title; the rest is stored as given
+const checkPaper = (reader: FieldReader) => {
+  reader.string('id');
+  reader.string('title');
+  reader.integer('relevanceScore', 0, { min: 0, max: 10 });
+};
+
+export const parseAddPapersRequest = (body: unknown): ParseResult<AddPapersRequest> => {
+  const reader = createFieldReader(body);
+  const papers = reader.array('papers', { minItems: 1, maxItems: MAX_PAPERS_PER_REQUEST });
+  papers.forEach((paper, index) => {
+    const nested = createFieldReader(paper, `papers[${index}]`);
+    checkPaper(nested);
+    reader.fields.push(...nested.fields);
+  });
+  return reader.result({ papers: papers as Paper[] });
+};
+
+export const parseSaveNoteRequest = (body: unknown): ParseResult<SaveNoteRequest> => {
+  const reader = createFieldReader(body);
+  readNested(reader, 'paper', checkPaper);
+  const note = reader.raw('note');
+  if (typeof note !== 'string') {
+    reader.fail('note', 'must be a string');
+  }
+  return reader.result({ paper: reader.raw('paper') as Paper, note: String(note) });
+};
+
+// ---------------------------------------------------------------------------
+// /api/prompts
+
+export interface PromptTemplateInput {
+  name: string;
+  task: PromptTask;
+  description?: string;
+  instructions: string;
+}
+
+// Saving a template adds a version with the new instructions
+export interface PromptTemplateUpdate {
+  instructions: string;
+  name?: string;
+  description?: string;
+}
+
+export interface PromptTemplatesResponse {
+  templates: PromptTemplate[];
+}
+
+export interface PromptTemplateResponse {
+  template: PromptTemplate;
+}
+
+const MAX_INSTRUCTIONS_LENGTH = 20000;
+
+export const parsePromptTemplateInput = (body: unknown): ParseResult<PromptTemplateInput> => {
+  const reader = createFieldReader(body);
+  if (reader.raw('task') === undefined) {
+    reader.fail('task', 'is required');
+  }
+  return reader.result({
+    name: reader.string('name', { maxLength: 200 }).trim(),
+    task: reader.oneOf('task', PROMPT_TASKS, 'scoring'),
+    description: reader.optionalString('description'),
+    instructions: reader.string('instructions', { maxLength: MAX_INSTRUCTIONS_LENGTH })
+  });
+};
+
+export const parsePromptTemplateUpdate = (body: unknown): ParseResult<PromptTemplateUpdate> => {
+  const reader = createFieldReader(body);
+  const name = reader.raw('name') === undefined ? undefined : reader.string('name', { maxLength: 200 }).trim();
+  return reader.result({
+    instructions: reader.string('instructions', { maxLength: MAX_INSTRUCTIONS_LENGTH }),
+    name,
+    description: reader.optionalString('description')
+  });
+};
+
+// ---------------------------------------------------------------------------
+// /api/sessions/[id]/screening
+
+export interface ScreeningSetup {
+  // One reviewer, or two for blind screening
+  reviewers: string[];
+  exclusionReasons: string[];
+}
+
+export interface ScreeningVoteRequest {
+  reviewer: string;
+  paperKey: string;
+  decision: ScreeningDecision;
+  // Required when excluding
+  reason?: string;
+}
+
+// Final decision on a paper the reviewers disagree on
+export type ScreeningResolutionRequest = Omit<ScreeningVoteRequest, 'reviewer'>;
+
+// The screening is null until it was started
+export interface ScreeningResponse {
+  screening: ScreeningView | null;
+}
+
+const MAX_EXCLUSION_REASONS = 30;
+
+// Distinct non-blank strings, returned trimmed
+const readLabels = (reader: FieldReader, key: string, limits: { minItems: number; maxItems: number }): string[] => {
+  const labels = reader.array(key, limits).map((value, index) => {
+    if (typeof value !== 'string' || value.trim() === '') {
+      reader.fail(`${key}[${index}]`, 'must be a non-empty string');
+      return '';
+    }
+    if (value.length > 200) {
+      reader.fail(`${key}[${index}]`, 'must be at most 200 characters');
+    }
+    return value.trim();
+  });
+  if (new Set(labels).size < labels.length) {
+    reader.fail(key, 'must not contain duplicates');
+  }
+  return labels;
+};
+
+export const parseScreeningSetup = (body: unknown): ParseResult<ScreeningSetup> => {
+  const reader = createFieldReader(body);
+  return reader.result({
+    reviewers: readLabels(reader, 'reviewers', { minItems: 1, maxItems: 2 }),
+    exclusionReasons: readLabels(reader, 'exclusionReasons', { minItems: 1, maxItems: MAX_EXCLUSION_REASONS })
+  });
+};
+
+// Unlike `oneOf`, a missing or empty value is an error rather than a default: a vote must not
+// be recorded under a reviewer or decision the request didn't name
+const readChoice = <T extends string>(reader: FieldReader, key: string, values: readonly T[]): T => {
+  const message = `must be one of ${values.join(', ')}`;
+  const value = reader.string(key, { message });
+  const choice = values.find(candidate => candidate === value);
+  if (value && !choice) {
+    reader.fail(key, message);
+  }
+  return choice ?? values[0];
+};
+
+// Excluding a paper takes one of the screening's exclusion reasons
+const readScreeningDecision = (reader: FieldReader, exclusionReasons: string[]) => {
+  const decision = readChoice(reader, 'decision', SCREENING_DECISIONS);
+  if (decision !== 'exclude') return { decision };
+
+  const reason = reader.string('reason', { message: 'must be one of the exclusion reasons' });
+  if (reason && !exclusionReasons.includes(reason)) {
+    reader.fail('reason', 'must be one of the exclusion reasons');
+  }
+  return { decision, reason };
+};
+
+export const parseScreeningVote = (
+  body: unknown,
+  screening: Pick<Screening, 'reviewers' | 'exclusionReasons'>
+): ParseResult<ScreeningVoteRequest> => {
+  const reader = createFieldReader(body);
+  return reader.result({
+    reviewer: readChoice(reader, 'reviewer', screening.reviewers),
+    paperKey: reader.string('paperKey'),
+    ...readScreeningDecision(reader, screening.exclusionReasons)
+  });
+};
+
+export const parseScreeningResolution = (
+  body: unknown,
+  screening: Pick<Screening, 'exclusionReasons'>
+): ParseResult<ScreeningResolutionRequest> => {
+  const reader = createFieldReader(body);
+  return reader.result({
+    paperKey: reader.string('paperKey'),
+    ...readScreeningDecision(reader, screening.exclusionReasons)
+  });
+};
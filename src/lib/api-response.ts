@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server';
+import { describeFieldErrors, type ApiErrorBody, type FieldError, type ParseResult } from '@/lib/api-contracts';
+
+// 400 response listing every invalid field
+export const invalidRequest = (fields: FieldError[]) =>
+  NextResponse.json<ApiErrorBody>({ error: describeFieldErrors(fields), fields }, { status: 400 });
+
+// The request body, or undefined when it isn't JSON (the parsers then report "body must be a JSON object")
+export const readJsonBody = (request: Request): Promise<unknown> =>
+  request.json().catch(() => undefined);
+
+// Parse the JSON body with a contract parser
+export const parseJsonBody = async <T>(
+  request: Request,
+  parse: (body: unknown) => ParseResult<T>
+): Promise<ParseResult<T>> => parse(await readJsonBody(request));
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { detectBibliographyFormat, parseBibliography } from '@/lib/bibliography';
+
+describe('detectBibliographyFormat', () => {
+  it('recognises each format from its layout', () => {
+    expect(detectBibliographyFormat('@article{smith2020,\n title = {T}\n}')).toBe('bibtex');
+    expect(detectBibliographyFormat('TY  - JOUR\nER  - ')).toBe('ris');
+    expect(detectBibliographyFormat('PMID- 123\nTI  - Title')).toBe('medline');
+    expect(detectBibliographyFormat('10.1000/xyz\n12345')).toBe('identifiers');
+  });
+});
+
+describe('parseBibliography', () => {
+  it('reads PMIDs, DOIs and titles from BibTeX entries', () => {
+    const references = parseBibliography(`
+@comment{ignored}
+@article{smith2020,
+  title = {The {Gut} Microbiome and obesity},
+  author = "Smith, J.",
+  doi = {10.1000/ABC.123},
+  pmid = 123456
+}
+@misc{doe2021,
+  title = "Web page",
+  url = {https://doi.org/10.1000/from-url},
+  eprinttype = {pubmed},
+  eprint = {654321}
+}
+@book{nothing, title = {A {B}ook}}
+`);
+
+    expect(references).toEqual([
+      { pmid: '123456', doi: '10.1000/ABC.123', title: 'The Gut Microbiome and obesity' },
+      { pmid: '654321', doi: '10.1000/from-url', title: 'Web page' },
+      { title: 'A Book' }
+    ]);
+  });
+
+  it('reads RIS records, taking PMIDs from AN or a PubMed URL', () => {
+    const references = parseBibliography([
+      'TY  - JOUR',
+      'TI  - First paper',
+      'AN  - 111',
+      'DO  - 10.1000/first',
+      'ER  - ',
+      'TY  - JOUR',
+      'T1  - Second paper',
+      'UR  - https://pubmed.ncbi.nlm.nih.gov/222/',
+      'ER  - '
+    ].join('\r\n'));
+
+    expect(references).toEqual([
+      { pmid: '111', doi: '10.1000/first', title: 'First paper' },
+      { pmid: '222', title: 'Second paper' }
+    ]);
+  });
+
+  it('reads MEDLINE records with wrapped titles and [doi] identifiers', () => {
+    const references = parseBibliography([
+      'PMID- 333',
+      'TI  - A title that wraps',
+      '      onto the next line.',
+      'LID - S0001 [pii]',
+      'LID - 10.1000/medline [doi]',
+      '',
+      'PMID- 444',
+      'TI  - Another'
+    ].join('\n'));
+
+    expect(references).toEqual([
+      { pmid: '333', doi: '10.1000/medline', title: 'A title that wraps onto the next line.' },
+      { pmid: '444', title: 'Another' }
+    ]);
+  });
+
+  it('reads pasted identifiers without mistaking DOI digits for PMIDs', () => {
+    const references = parseBibliography(
+      'https://doi.org/10.1000/12345678, PMID: 555\nhttps://pubmed.ncbi.nlm.nih.gov/666/\n777; 10.1000/12345678.'
+    );
+
+    expect(references).toEqual([{ doi: '10.1000/12345678' }, { pmid: '666' }, { pmid: '555' }, { pmid: '777' }]);
+  });
+
+  it('drops repeated PMIDs and DOIs, ignoring DOI case', () => {
+    expect(parseBibliography('10.1000/Abc 10.1000/abc 123 123')).toEqual([{ doi: '10.1000/Abc' }, { pmid: '123' }]);
+  });
+});
@@ -0,0 +1,157 @@
+import { DOI_PATTERN, cleanDoi, extractDoi } from '@/lib/doi';
+import type { SeedReference } from '@/lib/types';
+
+// Parse an uploaded bibliography (BibTeX, RIS, PubMed/MEDLINE) or a pasted list of
+// DOIs and PMIDs into seed references (client-safe, no server imports)
+
+const PUBMED_URL_PATTERN = /pubmed\.ncbi\.nlm\.nih\.gov\/(\d+)/gi;
+
+const isPmid = (value?: string) => !!value && /^\d{1,8}$/.test(value.trim());
+
+const cleanTitle = (title?: string) =>
+  title?.replace(/[{}]/g, '').replace(/\s+/g, ' ').trim() || undefined;
+
+// Keep entries that can be looked up, without repeating the same PMID or DOI
+const dedupe = (references: SeedReference[]) => {
+  const seen = new Set<string>();
+  return references.filter(reference => {
+    const key = reference.pmid || reference.doi?.toLowerCase() || reference.title?.toLowerCase();
+    if (!key || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+// BibTeX
+
+// Read a {braced} or "quoted" field value starting at `start`, returning it and the index after it
+const readBibtexValue = (text: string, start: number): [string, number] => {
+  if (text[start] === '{') {
+    let depth = 0;
+    for (let i = start; i < text.length; i++) {
+      if (text[i] === '{' && text[i - 1] !== '\\') depth++;
+      if (text[i] === '}' && text[i - 1] !== '\\') depth--;
+      if (depth === 0) return [text.slice(start + 1, i), i + 1];
+    }
+    return [text.slice(start + 1), text.length];
+  }
+
+  if (text[start] === '"') {
+    const end = text.indexOf('"', start + 1);
+    return end === -1 ? [text.slice(start + 1), text.length] : [text.slice(start + 1, end), end + 1];
+  }
+
+  const match = text.slice(start).match(/^[^,}\s]*/);
+  const value = match ? match[0] : '';
+  return [value, start + value.length];
+};
+
+const parseBibtexFields = (body: string) => {
+  const fields: Record<string, string> = {};
+  const fieldPattern = /([A-Za-z][\w-]*)\s*=\s*/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = fieldPattern.exec(body))) {
+    const [value, end] = readBibtexValue(body, match.index + match[0].length);
+    fields[match[1].toLowerCase()] = value;
+    fieldPattern.lastIndex = end;
+  }
+  return fields;
+};
+
+const parseBibtex = (text: string): SeedReference[] =>
+  text.split(/^\s*@/m).slice(1).flatMap(entry => {
+    const type = entry.match(/^(\w+)/)?.[1].toLowerCase();
+    if (!type || ['comment', 'string', 'preamble'].includes(type)) return [];
+
+    const fields = parseBibtexFields(entry.slice(entry.indexOf(',') + 1));
+    const pubmedEprint = fields.eprinttype?.toLowerCase() === 'pubmed' ? fields.eprint : undefined;
+
+    return [{
+      pmid: [fields.pmid, pubmedEprint].find(isPmid)?.trim(),
+      doi: extractDoi(fields.doi, fields.url),
+      title: cleanTitle(fields.title)
+    }];
+  });
+
+// RIS and PubMed MEDLINE (.nbib) share the "TAG  - value" line layout
+
+const parseTaggedRecords = (text: string, recordEnd: RegExp) =>
+  text.split(recordEnd).map(record => {
+    const tags: Record<string, string[]> = {};
+    let lastTag = '';
+
+    for (const line of record.split(/\r?\n/)) {
+      const match = line.match(/^([A-Z][A-Z0-9]{1,3})\s*-\s?(.*)$/);
+      if (match) {
+        lastTag = match[1];
+        (tags[lastTag] ||= []).push(match[2].trim());
+      } else if (lastTag && /^\s+\S/.test(line)) {
+        // MEDLINE wraps long values onto indented continuation lines
+        const values = tags[lastTag];
+        values[values.length - 1] += ` ${line.trim()}`;
+      }
+    }
+    return tags;
+  });
+
+const parseRis = (text: string): SeedReference[] =>
+  parseTaggedRecords(text, /^ER\s*-.*$/m).filter(tags => tags.TY).map(tags => ({
+    pmid: [...(tags.AN || []), ...(tags.PMID || [])].find(isPmid)
+      || [...(tags.UR || []), ...(tags.L2 || [])].join(' ').match(/pubmed\.ncbi\.nlm\.nih\.gov\/(\d+)/)?.[1],
+    doi: extractDoi(...(tags.DO || []), ...(tags.UR || [])),
+    title: cleanTitle(tags.TI?.[0] || tags.T1?.[0])
+  }));
+
+const parseMedline = (text: string): SeedReference[] =>
+  parseTaggedRecords(text, /\r?\n\s*\r?\n(?=PMID-)/).filter(tags => tags.PMID).map(tags => ({
+    pmid: tags.PMID.find(isPmid),
+    doi: extractDoi(...[...(tags.LID || []), ...(tags.AID || [])].filter(id => /\[doi\]/i.test(id))),
+    title: cleanTitle(tags.TI?.[0])
+  }));
+
+// Pasted identifiers: DOIs, DOI/PubMed URLs, "PMID: 123" and bare PMIDs on their own
+const parseIdentifierList = (text: string): SeedReference[] => {
+  const references: SeedReference[] = [];
+
+  for (const match of text.matchAll(DOI_PATTERN)) {
+    references.push({ doi: cleanDoi(match[0]) });
+  }
+  for (const match of text.matchAll(PUBMED_URL_PATTERN)) {
+    references.push({ pmid: match[1] });
+  }
+
+  // Remove what was already matched so DOI suffixes aren't mistaken for PMIDs
+  const remaining = text.replace(DOI_PATTERN, ' ').replace(PUBMED_URL_PATTERN, ' ');
+  for (const match of remaining.matchAll(/PMID:?\s*(\d{1,8})\b/gi)) {
+    references.push({ pmid: match[1] });
+  }
+  // Bare numbers count when they are whole tokens of the pasted list
+  for (const token of remaining.replace(/PMID:?\s*\d+/gi, ' ').split(/[\s,;]+/)) {
+    if (isPmid(token)) references.push({ pmid: token });
+  }
+
+  return references;
+};
+
+export type BibliographyFormat = 'bibtex' | 'ris' | 'medline' | 'identifiers';
+
+export const detectBibliographyFormat = (text: string): BibliographyFormat => {
+  if (/^\s*@\w+\s*[{(]/m.test(text)) return 'bibtex';
+  if (/^TY\s+-/m.test(text)) return 'ris';
+  if (/^PMID-\s*\d+/m.test(text)) return 'medline';
+  return 'identifiers';
+};
+
+export const parseBibliography = (text: string): SeedReference[] => {
+  switch (detectBibliographyFormat(text)) {
+    case 'bibtex':
+      return dedupe(parseBibtex(text));
+    case 'ris':
+      return dedupe(parseRis(text));
+    case 'medline':
+      return dedupe(parseMedline(text));
+    case 'identifiers':
+      return dedupe(parseIdentifierList(text));
+  }
+};
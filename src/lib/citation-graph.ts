@@ -0,0 +1,127 @@
+import { paperKey } from '@/lib/paper-identity';
+import type { Paper } from '@/lib/types';
+
+// Citation network of the loaded papers (client-safe, no server imports)
+
+export interface GraphNode {
+  key: string;
+  paper: Paper;
+  // How many loaded papers reference this one
+  citedByResults: number;
+  x: number;
+  y: number;
+}
+
+export interface GraphEdge {
+  // The citing paper
+  source: string;
+  // The cited paper
+  target: string;
+}
+
+export interface CitationGraph {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  // Papers cited by at least `hubThreshold` loaded papers
+  hubThreshold: number;
+}
+
+const LAYOUT_ITERATIONS = 200;
+
+// Edges between loaded papers only: A cites B when B is in A's references or A in B's citations
+const buildEdges = (papers: Paper[]) => {
+  const keyById = new Map(papers.flatMap(paper => [[paper.id, paperKey(paper)], [paperKey(paper), paperKey(paper)]]));
+  const edges = new Map<string, GraphEdge>();
+
+  const addEdge = (source?: string, target?: string) => {
+    if (source && target && source !== target) {
+      edges.set(`${source}>${target}`, { source, target });
+    }
+  };
+
+  for (const paper of papers) {
+    const key = paperKey(paper);
+    paper.references?.forEach(id => addEdge(key, keyById.get(id)));
+    paper.citations?.forEach(id => addEdge(keyById.get(id), key));
+  }
+
+  return [...edges.values()];
+};
+
+// Fruchterman-Reingold force layout in a width x height box; the main paper stays in the middle
+const layout = (nodes: GraphNode[], edges: GraphEdge[], width: number, height: number) => {
+  const index = new Map(nodes.map((node, i) => [node.key, i]));
+  const k = Math.sqrt((width * height) / Math.max(nodes.length, 1)) * 0.8;
+
+  // Deterministic start: nodes on a circle, so the picture doesn't jump between renders
+  nodes.forEach((node, i) => {
+    const angle = (2 * Math.PI * i) / nodes.length;
+    node.x = node.paper.isMainPaper ? width / 2 : width / 2 + (width / 3) * Math.cos(angle);
+    node.y = node.paper.isMainPaper ? height / 2 : height / 2 + (height / 3) * Math.sin(angle);
+  });
+
+  for (let iteration = 0; iteration < LAYOUT_ITERATIONS; iteration++) {
+    const temperature = (width / 10) * (1 - iteration / LAYOUT_ITERATIONS);
+    const dx = new Array(nodes.length).fill(0);
+    const dy = new Array(nodes.length).fill(0);
+
+    // Repulsion between every pair
+    for (let i = 0; i < nodes.length; i++) {
+      for (let j = i + 1; j < nodes.length; j++) {
+        const x = nodes[i].x - nodes[j].x;
+        const y = nodes[i].y - nodes[j].y;
+        const distance = Math.max(Math.hypot(x, y), 0.01);
+        const force = (k * k) / distance;
+        dx[i] += (x / distance) * force;
+        dy[i] += (y / distance) * force;
+        dx[j] -= (x / distance) * force;
+        dy[j] -= (y / distance) * force;
+      }
+    }
+
+    // Attraction along edges
+    for (const edge of edges) {
+      const i = index.get(edge.source)!;
+      const j = index.get(edge.target)!;
+      const x = nodes[i].x - nodes[j].x;
+      const y = nodes[i].y - nodes[j].y;
+      const distance = Math.max(Math.hypot(x, y), 0.01);
+      const force = (distance * distance) / k;
+      dx[i] -= (x / distance) * force;
+      dy[i] -= (y / distance) * force;
+      dx[j] += (x / distance) * force;
+      dy[j] += (y / distance) * force;
+    }
+
+    nodes.forEach((node, i) => {
+      if (node.paper.isMainPaper) return;
+      const displacement = Math.max(Math.hypot(dx[i], dy[i]), 0.01);
+      const step = Math.min(displacement, temperature);
+      node.x = Math.min(width - 20, Math.max(20, node.x + (dx[i] / displacement) * step));
+      node.y = Math.min(height - 20, Math.max(20, node.y + (dy[i] / displacement) * step));
+    });
+  }
+};
+
+export const buildCitationGraph = (papers: Paper[], width: number, height: number): CitationGraph => {
+  const uniquePapers = [...new Map(papers.map(paper => [paperKey(paper), paper])).values()];
+  const edges = buildEdges(uniquePapers);
+
+  const citedByResults = new Map<string, number>();
+  edges.forEach(edge => citedByResults.set(edge.target, (citedByResults.get(edge.target) || 0) + 1));
+
+  const nodes: GraphNode[] = uniquePapers.map(paper => ({
+    key: paperKey(paper),
+    paper,
+    citedByResults: citedByResults.get(paperKey(paper)) || 0,
+    x: 0,
+    y: 0
+  }));
+  layout(nodes, edges, width, height);
+
+  // Hubs: cited by at least 3 loaded papers, or by the top tenth when counts run higher
+  const counts = nodes.map(node => node.citedByResults).sort((a, b) => b - a);
+  const hubThreshold = Math.max(3, counts[Math.floor(counts.length / 10)] || 0);
+
+  return { nodes, edges, hubThreshold };
+};
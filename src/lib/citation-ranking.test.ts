@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { computeStructuralSignals, rankByBlendedScore } from '@/lib/citation-ranking';
+import type { Paper } from '@/lib/types';
+
+const paper = (pmid: string, changes: Partial<Paper> = {}): Paper => ({
+  id: pmid,
+  pmid,
+  title: `Paper ${pmid}`,
+  authors: 'Smith J',
+  journal: 'Nature',
+  year: '2020',
+  abstract: 'An abstract.',
+  pubDate: '2020',
+  relevanceScore: 6,
+  summary: '',
+  ...changes
+});
+
+const papers = [
+  paper('1', { isMainPaper: true, relevanceScore: 10, references: ['r1', 'r2', 'r3'], citations: ['c1', 'c2'] }),
+  paper('2', { references: ['r1', 'r2', 'x'] }),
+  paper('3', { references: ['r3', 'y'] }),
+  paper('4', { relevanceScore: 4, citations: ['c1'] }),
+  paper('5', { relevanceScore: 9 })
+];
+
+describe('computeStructuralSignals', () => {
+  it('measures coupling and co-citation against the main paper', () => {
+    const signals = computeStructuralSignals(papers);
+
+    expect(signals['1']).toEqual({ coupling: 0, coCitation: 0, structuralScore: 0, blendedScore: 6 });
+    expect(signals['2']).toEqual({ coupling: 2, coCitation: 0, structuralScore: 5, blendedScore: 5.6 });
+    expect(signals['3']).toEqual({ coupling: 1, coCitation: 0, structuralScore: 2.5, blendedScore: 4.6 });
+    expect(signals['4']).toEqual({ coupling: 0, coCitation: 1, structuralScore: 5, blendedScore: 4.4 });
+    expect(signals['5']).toEqual({ coupling: 0, coCitation: 0, structuralScore: 0, blendedScore: 5.4 });
+  });
+
+  it('counts loaded papers that reference a paper as its citers', () => {
+    const signals = computeStructuralSignals([
+      paper('1', { isSeed: true, citations: ['9'] }),
+      paper('2'),
+      paper('9', { references: ['1', '2'] })
+    ]);
+
+    expect(signals['2'].coCitation).toBe(1);
+  });
+
+  it('compares papers with each other when there is no main or seed paper', () => {
+    const signals = computeStructuralSignals([
+      paper('1', { references: ['r1'] }),
+      paper('2', { references: ['r1'] }),
+      paper('3', { references: ['r2'] })
+    ]);
+
+    expect([signals['1'].coupling, signals['2'].coupling, signals['3'].coupling]).toEqual([1, 1, 0]);
+  });
+});
+
+describe('rankByBlendedScore', () => {
+  it('orders by the blended score, then the AI score, and keeps papers without signals', () => {
+    const signals = computeStructuralSignals(papers);
+    const ranked = rankByBlendedScore([...papers, paper('6', { relevanceScore: 5.5 })], signals);
+
+    expect(ranked.map(p => p.pmid)).toEqual(['1', '2', '6', '5', '3', '4']);
+  });
+});
@@ -0,0 +1,84 @@
+import _ from 'lodash';
+import { paperKey } from '@/lib/paper-identity';
+import type { Paper } from '@/lib/types';
+
+// Structural ranking from the reference/citation links of the loaded papers
+// (client-safe, no server imports)
+
+export interface StructuralSignals {
+  // References shared with the main and seed papers (bibliographic coupling)
+  coupling: number;
+  // Papers citing this one together with the main or a seed paper (co-citation)
+  coCitation: number;
+  // Both signals scaled to 0-10 against the best connected paper in the list
+  structuralScore: number;
+  // AI relevance score blended with the structural score, 0-10
+  blendedScore: number;
+}
+
+// Share of the blended score taken by the structural score
+export const STRUCTURAL_WEIGHT = 0.4;
+
+// Count, for each id, how many of the id lists contain it
+const countIds = (idLists: string[][]) => {
+  const counts = new Map<string, number>();
+  idLists.forEach(ids => _.uniq(ids).forEach(id => counts.set(id, (counts.get(id) || 0) + 1)));
+  return counts;
+};
+
+// How many of `ids` are listed by an anchor paper other than the one owning `ownIds`
+const sharedCount = (ids: string[], counts: Map<string, number>, ownIds: Set<string>) =>
+  _.uniq(ids).filter(id => (counts.get(id) || 0) - (ownIds.has(id) ? 1 : 0) > 0).length;
+
+// Coupling and co-citation of every loaded paper, keyed by paperKey. They are measured against
+// the main and seed papers, or against the rest of the list when the search had neither.
+export const computeStructuralSignals = (papers: Paper[]): Record<string, StructuralSignals> => {
+  const uniquePapers = _.uniqBy(papers, paperKey);
+
+  // Citing papers of each paper: loaded papers referencing it, plus its loaded cited-by list
+  const citers = new Map<string, Set<string>>(uniquePapers.map(paper => [paperKey(paper), new Set(paper.citations)]));
+  for (const paper of uniquePapers) {
+    paper.references?.forEach(id => citers.get(id)?.add(paperKey(paper)));
+  }
+
+  const references = (paper: Paper) => paper.references || [];
+  const citing = (paper: Paper) => [...(citers.get(paperKey(paper)) || [])];
+
+  const anchored = uniquePapers.filter(paper => paper.isMainPaper || paper.isSeed);
+  const anchors = anchored.length > 0 ? anchored : uniquePapers;
+  const anchorKeys = new Set(anchors.map(paperKey));
+  const anchorReferences = countIds(anchors.map(references));
+  const anchorCiters = countIds(anchors.map(citing));
+
+  const raw = uniquePapers.map(paper => {
+    const isAnchor = anchorKeys.has(paperKey(paper));
+    return {
+      paper,
+      coupling: sharedCount(references(paper), anchorReferences, new Set(isAnchor ? references(paper) : [])),
+      coCitation: sharedCount(citing(paper), anchorCiters, new Set(isAnchor ? citing(paper) : []))
+    };
+  });
+
+  const maxCoupling = _.max(raw.map(entry => entry.coupling)) || 0;
+  const maxCoCitation = _.max(raw.map(entry => entry.coCitation)) || 0;
+
+  return Object.fromEntries(raw.map(({ paper, coupling, coCitation }) => {
+    const structuralScore = 5 * ((maxCoupling ? coupling / maxCoupling : 0) + (maxCoCitation ? coCitation / maxCoCitation : 0));
+    const blendedScore = (1 - STRUCTURAL_WEIGHT) * paper.relevanceScore + STRUCTURAL_WEIGHT * structuralScore;
+
+    return [paperKey(paper), {
+      coupling,
+      coCitation,
+      structuralScore: Math.round(structuralScore * 10) / 10,
+      blendedScore: Math.round(blendedScore * 10) / 10
+    }];
+  }));
+};
+
+// Order by the blended score, falling back to the AI score for papers without signals
+export const rankByBlendedScore = (papers: Paper[], signals: Record<string, StructuralSignals>) =>
+  _.orderBy(
+    papers,
+    [paper => signals[paperKey(paper)]?.blendedScore ?? paper.relevanceScore, 'relevanceScore'],
+    ['desc', 'desc']
+  );
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { formatCitation, formatReferenceList } from '@/lib/citation';
+import type { Paper } from '@/lib/types';
+
+const paper = (changes: Partial<Paper>): Paper => ({
+  id: '123',
+  pmid: '123',
+  title: 'Gut microbiome and obesity',
+  authors: 'Smith JA, Doe B',
+  journal: 'Nature Medicine',
+  year: '2020',
+  abstract: 'An abstract.',
+  pubDate: '2020 Mar',
+  relevanceScore: 8,
+  summary: 'Relevant.',
+  authorList: [
+    { lastName: 'Smith', foreName: 'Jane Anne', initials: 'JA', affiliations: [] },
+    { lastName: 'Doe', initials: 'B', affiliations: [] }
+  ],
+  journalAbbreviation: 'Nat. Med.',
+  volume: '26',
+  issue: '3',
+  pages: '123-129',
+  doi: '10.1038/x',
+  ...changes
+});
+
+// "Name1 X, Name2 X, ..." display string with the given number of authors
+const manyAuthors = (count: number) =>
+  paper({ authorList: undefined, authors: Array.from({ length: count }, (_, index) => `Name${index + 1} X`).join(', ') });
+
+describe('formatCitation', () => {
+  it('formats a journal article in each style', () => {
+    expect(formatCitation(paper({}), 'apa')).toBe(
+      'Smith, J. A., & Doe, B. (2020). Gut microbiome and obesity. Nature Medicine, 26(3), 123–129. https://doi.org/10.1038/x'
+    );
+    expect(formatCitation(paper({}), 'vancouver')).toBe(
+      'Smith JA, Doe B. Gut microbiome and obesity. Nat Med. 2020;26(3):123-9. doi:10.1038/x'
+    );
+    expect(formatCitation(paper({}), 'ama')).toBe(
+      'Smith JA, Doe B. Gut microbiome and obesity. Nat Med. 2020;26(3):123-129. doi:10.1038/x'
+    );
+    expect(formatCitation(paper({}), 'nature')).toBe(
+      'Smith, J. A. & Doe, B. Gut microbiome and obesity. Nat. Med. 26, 123–129 (2020). https://doi.org/10.1038/x'
+    );
+  });
+
+  it('shortens long author lists the way each style does', () => {
+    expect(formatCitation(manyAuthors(7), 'vancouver')).toMatch(/^Name1 X, .*, Name6 X, et al\. Gut/);
+    expect(formatCitation(manyAuthors(7), 'ama')).toMatch(/^Name1 X, Name2 X, Name3 X, et al\. Gut/);
+    expect(formatCitation(manyAuthors(6), 'nature')).toMatch(/^Name1, X\. et al\. Gut/);
+    expect(formatCitation(manyAuthors(21), 'apa')).toMatch(/Name19, X\., \. \. \. Name21, X\. \(2020\)/);
+  });
+
+  it('leaves out placeholder fields and falls back to the PMID or URL', () => {
+    const sparse = paper({
+      authorList: undefined,
+      authors: 'Unknown authors',
+      journal: 'Unknown journal',
+      journalAbbreviation: undefined,
+      year: 'Unknown year',
+      volume: undefined,
+      issue: undefined,
+      pages: undefined,
+      doi: undefined
+    });
+
+    expect(formatCitation(sparse, 'apa')).toBe('Gut microbiome and obesity. (n.d.).');
+    expect(formatCitation(sparse, 'vancouver')).toBe('Gut microbiome and obesity. PMID: 123');
+    expect(formatCitation({ ...sparse, pmid: '', url: 'https://example.org' }, 'nature')).toBe(
+      'Gut microbiome and obesity. https://example.org'
+    );
+  });
+});
+
+describe('formatReferenceList', () => {
+  const papers = [paper({ authorList: undefined, authors: 'Zhang L' }), paper({ authorList: undefined, authors: 'Adams K' })];
+
+  it('numbers references in numbered styles', () => {
+    expect(formatReferenceList(papers, 'vancouver').split('\n').map(line => line.slice(0, 11))).toEqual([
+      '1. Zhang L.',
+      '2. Adams K.'
+    ]);
+  });
+
+  it('sorts author-date references alphabetically', () => {
+    const [first, second] = formatReferenceList(papers, 'apa').split('\n\n');
+
+    expect(first.startsWith('Adams, K.')).toBe(true);
+    expect(second.startsWith('Zhang, L.')).toBe(true);
+  });
+});
@@ -0,0 +1,167 @@
+import { exportAuthors, isKnown, knownYear, type ExportAuthor } from '@/lib/export';
+import type { Paper } from '@/lib/types';
+
+// Reference styles the detail panel can format a paper in (client-safe, no server imports)
+export type CitationStyle = 'apa' | 'vancouver' | 'ama' | 'nature';
+
+export const CITATION_STYLES: Record<CitationStyle, { label: string; numbered: boolean }> = {
+  apa: { label: 'APA 7', numbered: false },
+  vancouver: { label: 'Vancouver', numbered: true },
+  ama: { label: 'AMA 11', numbered: true },
+  nature: { label: 'Nature', numbered: true }
+};
+
+export const DEFAULT_CITATION_STYLE: CitationStyle = 'vancouver';
+
+// "John Albert" -> "JA", "J.-P." -> "JP"; initials coming from PubMed are kept as they are
+const initialsOf = (given?: string) => {
+  if (!given) return '';
+  if (/^[A-Z]{1,3}$/.test(given)) return given;
+  return given
+    .split(/[\s.-]+/)
+    .filter(Boolean)
+    .map(part => part[0].toUpperCase())
+    .join('');
+};
+
+// Surname with initials, e.g. "Smith JA" (Vancouver/AMA) or "Smith, J. A." (APA/Nature)
+const compactName = (author: ExportAuthor) =>
+  author.literal || [author.family, initialsOf(author.given)].filter(Boolean).join(' ');
+
+const dottedName = (author: ExportAuthor) => {
+  if (author.literal) return author.literal;
+  const initials = initialsOf(author.given).split('').map(initial => `${initial}.`).join(' ');
+  return [author.family, initials].filter(Boolean).join(', ');
+};
+
+// Add a final period unless the text already ends with punctuation
+const sentence = (text: string) => (/[.?!]$/.test(text.trim()) ? text.trim() : `${text.trim()}.`);
+
+const joinParts = (parts: Array<string | undefined | false>) => parts.filter(Boolean).join(' ');
+
+// NLM page ranges drop repeated leading digits: 123-129 -> 123-9
+const abbreviatePages = (pages: string) => {
+  const [start, end] = pages.split(/\s*[-–]\s*/);
+  if (!end || start.length !== end.length || !/^\d+$/.test(start + end)) return pages;
+
+  let index = 0;
+  while (index < end.length - 1 && start[index] === end[index]) index++;
+  return `${start}-${end.slice(index)}`;
+};
+
+// PubMed ISO abbreviations ("Nat. Med.") lose their periods in NLM styles ("Nat Med")
+const journalOf = (paper: Paper, { abbreviated, dotted }: { abbreviated: boolean; dotted: boolean }) => {
+  const journal = abbreviated && paper.journalAbbreviation ? paper.journalAbbreviation : paper.journal;
+  if (!isKnown(journal)) return undefined;
+  return dotted ? journal : journal.replace(/\./g, '');
+};
+
+// APA 7: up to 20 authors; beyond that the first 19, an ellipsis, then the last author
+const apaAuthors = (authors: ExportAuthor[]) => {
+  const names = authors.map(dottedName);
+  if (names.length === 0) return '';
+  if (names.length === 1) return names[0];
+  if (names.length > 20) return `${names.slice(0, 19).join(', ')}, . . . ${names[names.length - 1]}`;
+  return `${names.slice(0, -1).join(', ')}, & ${names[names.length - 1]}`;
+};
+
+// Vancouver: the first 6 authors, then "et al."
+const vancouverAuthors = (authors: ExportAuthor[]) => {
+  const names = authors.map(compactName);
+  return names.length > 6 ? `${names.slice(0, 6).join(', ')}, et al` : names.join(', ');
+};
+
+// AMA: all authors up to 6; with more than 6, the first 3 followed by "et al"
+const amaAuthors = (authors: ExportAuthor[]) => {
+  const names = authors.map(compactName);
+  return names.length > 6 ? `${names.slice(0, 3).join(', ')}, et al` : names.join(', ');
+};
+
+// Nature: up to 5 authors ("A, B & C"); with more, the first author followed by "et al."
+const natureAuthors = (authors: ExportAuthor[]) => {
+  const names = authors.map(dottedName);
+  if (names.length === 0) return '';
+  if (names.length > 5) return `${names[0]} et al.`;
+  if (names.length === 1) return names[0];
+  return `${names.slice(0, -1).join(', ')} & ${names[names.length - 1]}`;
+};
+
+const formatApa = (paper: Paper) => {
+  const year = knownYear(paper);
+  const journal = journalOf(paper, { abbreviated: false, dotted: true });
+  const volume = paper.volume && `${paper.volume}${paper.issue ? `(${paper.issue})` : ''}`;
+  const source = [journal, volume, paper.pages?.replace(/\s*-\s*/, '–')].filter(Boolean).join(', ');
+
+  const authors = apaAuthors(exportAuthors(paper));
+
+  // Without authors the title moves into the author position
+  return joinParts([
+    sentence(authors || paper.title),
+    `(${year || 'n.d.'}).`,
+    authors && sentence(paper.title),
+    source && sentence(source),
+    paper.doi ? `https://doi.org/${paper.doi}` : paper.url
+  ]);
+};
+
+// Shared shape of Vancouver and AMA: "Authors. Title. Journal. Year;Vol(Issue):pages. doi:..."
+const formatNlm = (paper: Paper, authors: string, pages?: string) => {
+  const year = knownYear(paper);
+  const issue = paper.issue ? `(${paper.issue})` : '';
+  const location = [
+    year,
+    paper.volume && `;${paper.volume}${issue}`,
+    pages && `:${pages}`
+  ].filter(Boolean).join('');
+  const journal = journalOf(paper, { abbreviated: true, dotted: false });
+
+  return joinParts([
+    authors && sentence(authors),
+    sentence(paper.title),
+    journal && sentence(journal),
+    location && sentence(location),
+    paper.doi ? `doi:${paper.doi}` : paper.pmid ? `PMID: ${paper.pmid}` : paper.url
+  ]);
+};
+
+const formatVancouver = (paper: Paper) =>
+  formatNlm(paper, vancouverAuthors(exportAuthors(paper)), paper.pages && abbreviatePages(paper.pages));
+
+const formatAma = (paper: Paper) =>
+  formatNlm(paper, amaAuthors(exportAuthors(paper)), paper.pages);
+
+const formatNature = (paper: Paper) => {
+  const year = knownYear(paper);
+  const details = [
+    journalOf(paper, { abbreviated: true, dotted: true }),
+    [paper.volume, paper.pages?.replace(/\s*-\s*/, '–')].filter(Boolean).join(', ')
+  ].filter(Boolean).join(' ');
+  const authors = natureAuthors(exportAuthors(paper));
+
+  return joinParts([
+    authors && sentence(authors),
+    sentence(paper.title),
+    details && `${details}${year ? ` (${year})` : ''}.`,
+    !details && year && `(${year}).`,
+    paper.doi ? `https://doi.org/${paper.doi}` : paper.url
+  ]);
+};
+
+const FORMATTERS: Record<CitationStyle, (paper: Paper) => string> = {
+  apa: formatApa,
+  vancouver: formatVancouver,
+  ama: formatAma,
+  nature: formatNature
+};
+
+export const formatCitation = (paper: Paper, style: CitationStyle) => FORMATTERS[style](paper);
+
+// Numbered styles keep the given order; author-date styles are sorted alphabetically
+export const formatReferenceList = (papers: Paper[], style: CitationStyle) => {
+  const citations = papers.map(paper => formatCitation(paper, style));
+
+  if (!CITATION_STYLES[style].numbered) {
+    return [...citations].sort((a, b) => a.localeCompare(b)).join('\n\n');
+  }
+  return citations.map((citation, index) => `${index + 1}. ${citation}`).join('\n');
+};
@@ -0,0 +1,84 @@
+import { scorePapers } from '@/lib/analysis';
+import { elink, elinkEach, type LinkResponse } from '@/lib/eutils';
+import { fetchPaperDetails } from '@/lib/papers';
+import type { Paper } from '@/lib/types';
+
+// Citing papers returned per page of the cited-by list
+export const CITED_BY_PAGE_SIZE = 20;
+
+// PMIDs per elink call when counting citations for a result list
+const COUNT_BATCH_SIZE = 100;
+
+export interface CitedByPage {
+  pmid: string;
+  papers: Paper[];
+  // Total number of citing papers PubMed knows of
+  total: number;
+  offset: number;
+  // Where the next page starts; `total` once every citing paper was requested. Not offset plus
+  // the papers returned, since efetch may have no record for some of the PMIDs.
+  nextOffset: number;
+}
+
+const citedInIds = (linkset: NonNullable<LinkResponse['linksets']>[number] | undefined) =>
+  (linkset?.linksetdbs || [])
+    .filter(db => db.linkname === 'pubmed_pubmed_citedin')
+    .flatMap(db => (db.links || []).map(link => typeof link === 'object' ? link.id : link));
+
+// Unscored citing papers keep a neutral default score
+const withDefaultScore = (paper: Omit<Paper, 'relevanceScore' | 'summary'>): Paper => ({
+  ...paper,
+  relevanceScore: 7,
+  summary: "1. Paper cites the selected paper\n2. May contain relevant follow-up research\n3. Check for extensions or contradictions to the original work"
+});
+
+// One page of the papers citing `pmid` (elink pubmed_pubmed_citedin), newest first.
+// With discussionText the page is scored by Claude; otherwise papers get the default score.
+export const findCitingPapers = async (
+  pmid: string,
+  { offset = 0, limit = CITED_BY_PAGE_SIZE, discussionText }: { offset?: number; limit?: number; discussionText?: string } = {}
+): Promise<CitedByPage> => {
+  const linkData = await elink(pmid, 'pubmed_pubmed_citedin');
+  const ids = [...new Set(citedInIds(linkData.linksets?.[0]))]
+    .sort((a, b) => Number(b) - Number(a));
+
+  const pageIds = ids.slice(offset, offset + limit);
+  const withCounts = await withCitationCounts(await fetchPaperDetails(pageIds));
+
+  return {
+    pmid,
+    papers: discussionText ? await scorePapers(withCounts, discussionText) : withCounts.map(withDefaultScore),
+    total: ids.length,
+    offset,
+    nextOffset: Math.min(offset + limit, ids.length)
+  };
+};
+
+// Number of PubMed papers citing each PMID
+export const fetchCitationCounts = async (pmids: string[]): Promise<Record<string, number>> => {
+  const counts: Record<string, number> = {};
+  const ids = [...new Set(pmids.filter(Boolean))];
+
+  for (let i = 0; i < ids.length; i += COUNT_BATCH_SIZE) {
+    const linkData = await elinkEach(ids.slice(i, i + COUNT_BATCH_SIZE), 'pubmed_pubmed_citedin');
+    for (const linkset of linkData.linksets || []) {
+      const id = linkset.ids?.[0];
+      if (id) counts[id] = citedInIds(linkset).length;
+    }
+  }
+
+  return counts;
+};
+
+// Attach cited-by counts to PubMed papers; counting is best effort
+export const withCitationCounts = async <T extends Pick<Paper, 'pmid' | 'citationCount'>>(papers: T[]): Promise<T[]> => {
+  try {
+    const counts = await fetchCitationCounts(papers.map(paper => paper.pmid));
+    return papers.map(paper => paper.pmid && counts[paper.pmid] !== undefined
+      ? { ...paper, citationCount: counts[paper.pmid] }
+      : paper);
+  } catch (error) {
+    console.error('Error counting citations:', error);
+    return papers;
+  }
+};
@@ -0,0 +1,50 @@
+import type { LlmProvider } from '@/lib/llm';
+
+const CLAUDE_API_KEY = process.env.CLAUDE_API_KEY;
+const CLAUDE_MODEL = "claude-3-5-sonnet-20241022";
+const CLAUDE_MESSAGES_URL = 'https://api.anthropic.com/v1/messages';
+
+interface ClaudeResponse {
+  content: Array<{ type: string; text: string }>;
+}
+
+// The text blocks of a reply, joined
+const replyText = (response: ClaudeResponse) =>
+  response.content.filter(block => block.type === 'text').map(block => block.text).join('');
+
+// Anthropic Messages API
+export const anthropicProvider: LlmProvider = {
+  name: 'anthropic',
+  endpoint: CLAUDE_MESSAGES_URL,
+  defaultModel: CLAUDE_MODEL,
+  maxOutputTokens: 8192,
+  complete: async ({ prompt, model, temperature, maxTokens }) => {
+    if (!CLAUDE_API_KEY) {
+      throw new Error('Claude API key is not configured');
+    }
+
+    const response = await fetch(CLAUDE_MESSAGES_URL, {
+      method: 'POST',
+      headers: new Headers({
+        'Content-Type': 'application/json',
+        'x-api-key': CLAUDE_API_KEY,
+        'anthropic-version': '2023-06-01'
+      }),
+      body: JSON.stringify({
+        model,
+        max_tokens: maxTokens,
+        temperature,
+        messages: [{
+          role: "user",
+          content: prompt
+        }]
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Claude API responded with status: ${response.status}`);
+    }
+
+    return replyText(await response.json());
+  }
+};
@@ -0,0 +1,55 @@
+import type { PaperDetails } from '@/lib/papers';
+
+// DOI detection and identity helpers (client-safe, no server imports)
+
+export const DOI_PATTERN = /\b10\.\d{4,9}\/[^\s"'<>{}]+/gi;
+
+// Trailing punctuation, "[doi]" markers and landing-page suffixes are not part of the DOI
+export const cleanDoi = (doi: string) =>
+  doi
+    .replace(/\[doi\]$/i, '')
+    .replace(/[.,;:)\]]+$/, '')
+    .replace(/\/(full|abstract|pdf|epdf)$/i, '');
+
+const safeDecode = (text: string) => {
+  try {
+    return decodeURIComponent(text);
+  } catch {
+    return text;
+  }
+};
+
+// First DOI found in the given URLs or texts
+export const extractDoi = (...texts: Array<string | undefined>): string | undefined => {
+  for (const text of texts) {
+    const match = text && safeDecode(text).match(DOI_PATTERN);
+    if (match) return cleanDoi(match[0]);
+  }
+  return undefined;
+};
+
+// Papers without a PMID are keyed "doi:<doi>", the same form paperKey uses
+export const doiKey = (doi: string) => `doi:${doi.toLowerCase()}`;
+
+export const doiFromKey = (key: string) => (key.startsWith('doi:') ? key.slice(4) : null);
+
+export const doiUrl = (doi: string) => `https://doi.org/${doi}`;
+
+// A paper known only by its DOI, e.g. a reference or pasted DOI that PubMed has no record of.
+// The reference's citation text stands in for the title when there is one.
+export const doiOnlyPaper = (doi: string, citation?: string): PaperDetails => {
+  const year = citation?.match(/\b(19|20)\d{2}\b/)?.[0];
+
+  return {
+    id: doiKey(doi),
+    pmid: '',
+    title: citation || `DOI ${doi}`,
+    authors: 'Unknown authors',
+    journal: 'Unknown journal',
+    year: year || 'Unknown year',
+    abstract: 'No abstract available',
+    pubDate: year || 'Unknown date',
+    doi,
+    url: doiUrl(doi)
+  };
+};
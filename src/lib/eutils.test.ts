@@ -0,0 +1,135 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/lib/response-cache', () => ({
+  cached: (_namespace: string, _key: unknown, load: () => Promise<unknown>) => load()
+}));
+
+// The token bucket starts full when the module loads, so the clock is faked first.
+// setImmediate stays real: reading a Response body relies on it.
+vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'Date'] });
+const fetchMock = vi.fn<typeof fetch>();
+vi.stubGlobal('fetch', fetchMock);
+
+const { efetch, esearch } = await import('@/lib/eutils');
+
+const json = (body: unknown, init?: ResponseInit) => new Response(JSON.stringify(body), init);
+const searchResult = () => json({ esearchresult: { idlist: ['1'] } });
+
+const requestedUrl = (call: number) => new URL(String(fetchMock.mock.calls[call][0]));
+
+beforeEach(async () => {
+  fetchMock.mockReset();
+  vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  // A second without requests refills the bucket
+  await vi.advanceTimersByTimeAsync(1000);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('E-utilities requests', () => {
+  it('identify the app and ask for JSON', async () => {
+    fetchMock.mockResolvedValueOnce(searchResult());
+
+    expect(await esearch('obesity', '5')).toEqual({ esearchresult: { idlist: ['1'] } });
+    const url = requestedUrl(0);
+    expect(url.pathname).toBe('/entrez/eutils/esearch.fcgi');
+    expect(Object.fromEntries(url.searchParams)).toMatchObject({
+      db: 'pubmed',
+      term: 'obesity',
+      retmax: '5',
+      retmode: 'json',
+      tool: 'paper-search-system'
+    });
+  });
+
+  it('take at most 3 requests a second without an API key', async () => {
+    fetchMock.mockImplementation(async () => json({ esearchresult: { idlist: [] } }));
+
+    const searches = Promise.all(['a', 'b', 'c', 'd'].map(term => esearch(term)));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+
+    await vi.advanceTimersByTimeAsync(334);
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+    await searches;
+  });
+
+  it('retry 429 and 5xx responses, waiting as long as Retry-After asks', async () => {
+    fetchMock
+      .mockResolvedValueOnce(new Response('', { status: 429, headers: { 'Retry-After': '2' } }))
+      .mockResolvedValueOnce(new Response('', { status: 503, headers: { 'Retry-After': '0' } }))
+      .mockResolvedValueOnce(searchResult());
+
+    const search = esearch('obesity');
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    await vi.runAllTimersAsync();
+    expect(await search).toEqual({ esearchresult: { idlist: ['1'] } });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('retry errors NCBI reports with status 200 and network failures', async () => {
+    fetchMock
+      .mockResolvedValueOnce(json({ error: 'API rate limit exceeded' }))
+      .mockRejectedValueOnce(new TypeError('fetch failed'))
+      .mockResolvedValueOnce(searchResult());
+
+    const search = esearch('obesity');
+    await vi.runAllTimersAsync();
+
+    expect(await search).toEqual({ esearchresult: { idlist: ['1'] } });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('give up after 5 attempts', async () => {
+    fetchMock.mockImplementation(async () => new Response('', { status: 500 }));
+
+    const assertion = expect(esearch('obesity')).rejects.toThrow('PubMed esearch.fcgi responded with status 500');
+    await vi.runAllTimersAsync();
+
+    await assertion;
+    expect(fetchMock).toHaveBeenCalledTimes(5);
+  });
+
+  it('fail straight away on other HTTP errors', async () => {
+    fetchMock.mockResolvedValueOnce(new Response('', { status: 400 }));
+
+    await expect(esearch('obesity')).rejects.toThrow('responded with status 400');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('efetch', () => {
+  const articleSet = '<PubmedArticleSet></PubmedArticleSet>';
+
+  it('fetches short ID lists directly', async () => {
+    fetchMock.mockResolvedValueOnce(new Response(articleSet));
+
+    expect(await efetch(['1', '2'])).toBe(articleSet);
+    expect(requestedUrl(0).searchParams.get('id')).toBe('1,2');
+  });
+
+  it('posts long ID lists with epost and fetches them from the history server', async () => {
+    const ids = Array.from({ length: 201 }, (_, index) => String(index + 1));
+    fetchMock
+      .mockResolvedValueOnce(new Response('<ePostResult><QueryKey>1</QueryKey><WebEnv>MCID_1</WebEnv></ePostResult>'))
+      .mockResolvedValueOnce(new Response(articleSet));
+
+    const fetched = efetch(ids);
+    await vi.runAllTimersAsync();
+
+    expect(await fetched).toBe(articleSet);
+    const [[epostUrl, epostInit], [efetchUrl, efetchInit]] = fetchMock.mock.calls;
+    expect(String(epostUrl)).toMatch(/epost\.fcgi$/);
+    expect((epostInit?.body as URLSearchParams).get('id')).toBe(ids.join(','));
+    expect(String(efetchUrl)).toMatch(/efetch\.fcgi$/);
+    expect(Object.fromEntries(efetchInit?.body as URLSearchParams)).toMatchObject({
+      WebEnv: 'MCID_1',
+      query_key: '1',
+      retmax: '201'
+    });
+  });
+});
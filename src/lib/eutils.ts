@@ -0,0 +1,188 @@
+import { cached } from '@/lib/response-cache';
+
+// Shared NCBI E-utilities client: every request goes through one token-bucket limiter,
+// is retried with exponential backoff on 429/5xx, and identifies the app with tool/email/api_key
+const PUBMED_API_KEY = process.env.PUBMED_API_KEY;
+const NCBI_TOOL = process.env.NCBI_TOOL || 'paper-search-system';
+const NCBI_EMAIL = process.env.NCBI_EMAIL;
+const EUTILS_BASE = 'https://eutils.ncbi.nlm.nih.gov/entrez/eutils';
+
+// NCBI allows 3 requests per second without an API key and 10 with one
+const REQUESTS_PER_SECOND = PUBMED_API_KEY ? 10 : 3;
+
+const MAX_ATTEMPTS = 5;
+const BASE_BACKOFF = 500;
+
+// Requests whose parameters would make a longer URL are sent as POST form bodies
+const MAX_GET_QUERY_LENGTH = 2000;
+
+// Above this many IDs, efetch uploads the list with epost and fetches it from the history server
+const EPOST_THRESHOLD = 200;
+
+export const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export interface LinkResponse {
+  linksets?: Array<{
+    ids?: string[];
+    linksetdbs?: Array<{
+      linkname?: string;
+      links?: Array<{ id: string } | string>;
+    }>;
+  }>;
+}
+
+// A list of IDs stored on the NCBI history server by epost
+export interface HistoryHandle {
+  webEnv: string;
+  queryKey: string;
+}
+
+type Params = Record<string, string | string[] | undefined>;
+
+// Token bucket shared by all E-utilities calls of this server process
+const bucket = { tokens: REQUESTS_PER_SECOND, updatedAt: Date.now() };
+
+const takeToken = async () => {
+  for (;;) {
+    const now = Date.now();
+    bucket.tokens = Math.min(REQUESTS_PER_SECOND, bucket.tokens + ((now - bucket.updatedAt) / 1000) * REQUESTS_PER_SECOND);
+    bucket.updatedAt = now;
+
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return;
+    }
+    await sleep(((1 - bucket.tokens) / REQUESTS_PER_SECOND) * 1000);
+  }
+};
+
+const isRetryableStatus = (status: number) => status === 429 || status >= 500;
+
+// Exponential backoff with jitter, or the server's Retry-After when it sends one
+const backoff = (attempt: number, retryAfter?: string | null) => {
+  const seconds = Number(retryAfter);
+  return retryAfter && !Number.isNaN(seconds)
+    ? seconds * 1000
+    : BASE_BACKOFF * 2 ** (attempt - 1) + Math.random() * BASE_BACKOFF;
+};
+
+const toSearchParams = (params: Params) => {
+  const search = new URLSearchParams();
+  const withCredentials: Params = { ...params, tool: NCBI_TOOL, email: NCBI_EMAIL, api_key: PUBMED_API_KEY };
+  for (const [name, value] of Object.entries(withCredentials)) {
+    if (value === undefined) continue;
+    (Array.isArray(value) ? value : [value]).forEach(item => search.append(name, item));
+  }
+  return search;
+};
+
+// Send one E-utilities request, waiting for the rate limiter and retrying network errors,
+// 429/5xx responses and bodies `parse` rejects. Other HTTP errors fail straight away.
+const request = async <T>(
+  endpoint: string,
+  params: Params,
+  parse: (response: Response) => Promise<T>,
+  { post = false } = {}
+): Promise<T> => {
+  const search = toSearchParams(params);
+  const usePost = post || search.toString().length > MAX_GET_QUERY_LENGTH;
+  const url = `${EUTILS_BASE}/${endpoint}`;
+
+  for (let attempt = 1; ; attempt++) {
+    await takeToken();
+
+    let failure: unknown;
+    let retryAfter: string | null = null;
+    try {
+      const response = usePost
+        ? await fetch(url, { method: 'POST', body: search })
+        : await fetch(`${url}?${search}`);
+
+      if (response.ok) {
+        return await parse(response);
+      }
+
+      failure = new Error(`PubMed ${endpoint} responded with status ${response.status}`);
+      if (!isRetryableStatus(response.status)) {
+        throw failure;
+      }
+      retryAfter = response.headers.get('retry-after');
+    } catch (error) {
+      if (error === failure || attempt >= MAX_ATTEMPTS) throw error;
+      failure = error;
+    }
+
+    if (attempt >= MAX_ATTEMPTS) throw failure;
+    console.error(`PubMed ${endpoint} request failed, retrying (attempt ${attempt} of ${MAX_ATTEMPTS}):`, failure);
+    await sleep(backoff(attempt, retryAfter));
+  }
+};
+
+// NCBI reports some failures, such as exceeded rate limits, as an `error` field with status 200
+const parseJson = (endpoint: string) => async (response: Response) => {
+  const data = await response.json();
+  if (data?.error) {
+    throw new Error(`PubMed ${endpoint} error: ${data.error}`);
+  }
+  return data;
+};
+
+const parseText = async (response: Response) => response.text();
+
+// Cached JSON request; credentials are added by `request` so they never end up in cache keys
+const requestJson = (endpoint: string, params: Params) =>
+  cached('pubmed', { endpoint, params }, () => request(endpoint, { ...params, retmode: 'json' }, parseJson(endpoint)));
+
+// The esearch endpoint to get PMIDs
+export const esearch = async (term: string, retmax = '20') =>
+  requestJson('esearch.fcgi', { db: 'pubmed', term, retmax });
+
+// Upload a list of PMIDs to the NCBI history server
+export const epost = async (ids: string[]): Promise<HistoryHandle> => {
+  const xml = await request('epost.fcgi', { db: 'pubmed', id: ids.join(',') }, parseText, { post: true });
+  const webEnv = xml.match(/<WebEnv>([^<]+)<\/WebEnv>/)?.[1];
+  const queryKey = xml.match(/<QueryKey>([^<]+)<\/QueryKey>/)?.[1];
+  if (!webEnv || !queryKey) {
+    throw new Error(`PubMed epost returned no history handle: ${xml.slice(0, 200)}`);
+  }
+  return { webEnv, queryKey };
+};
+
+// Full PubMed XML records (abstract, MeSH, authors, references) for the given PMIDs;
+// large lists go through epost and a history-server efetch
+export const efetch = async (ids: string[]): Promise<string> =>
+  cached('pubmed', { endpoint: 'efetch.fcgi', ids }, async () => {
+    if (ids.length <= EPOST_THRESHOLD) {
+      return request('efetch.fcgi', { db: 'pubmed', id: ids.join(','), retmode: 'xml' }, parseText);
+    }
+
+    const { webEnv, queryKey } = await epost(ids);
+    return request('efetch.fcgi', {
+      db: 'pubmed',
+      WebEnv: webEnv,
+      query_key: queryKey,
+      retmax: String(ids.length),
+      retmode: 'xml'
+    }, parseText, { post: true });
+  }, xml => xml.includes('<PubmedArticleSet'));
+
+export const elink = async (id: string, linkname: 'pubmed_pubmed_citedin' | 'pubmed_pubmed_refs'): Promise<LinkResponse> =>
+  requestJson('elink.fcgi', { dbfrom: 'pubmed', db: 'pubmed', id, cmd: 'neighbor_score', linkname });
+
+// One linkset per PMID (repeated id= parameters), e.g. to count citing papers for a result list
+export const elinkEach = async (ids: string[], linkname: 'pubmed_pubmed_citedin' | 'pubmed_pubmed_refs'): Promise<LinkResponse> =>
+  requestJson('elink.fcgi', { dbfrom: 'pubmed', db: 'pubmed', id: ids, linkname });
+
+// MeSH vocabulary: esearch returns record UIDs, esummary their terms, scope notes and tree links
+export const meshSearch = async (term: string, retmax = '5') =>
+  requestJson('esearch.fcgi', { db: 'mesh', term, retmax });
+
+export const meshSummary = async (ids: string[]) =>
+  requestJson('esummary.fcgi', { db: 'mesh', id: ids.join(',') });
+
+// Resolve a DOI to a PMID with an esearch on the [DOI] field
+export const findPmidByDoi = async (doi: string): Promise<string | null> => {
+  const searchData = await esearch(`${doi}[DOI]`, '1');
+  const ids: string[] = searchData.esearchresult?.idlist || [];
+  return ids.length === 1 ? ids[0] : null;
+};
@@ -0,0 +1,158 @@
+import { describe, expect, it } from 'vitest';
+import { exportAuthors, exportFileName, exportPapers, isExportFormat, isKnown } from '@/lib/export';
+import type { Paper } from '@/lib/types';
+
+const paper = (changes: Partial<Paper>): Paper => ({
+  id: '123',
+  pmid: '123',
+  title: 'Gut microbiome and obesity',
+  authors: 'Smith JA, Doe B',
+  journal: 'Nature',
+  year: '2020',
+  abstract: 'An abstract.',
+  pubDate: '2020 Mar',
+  relevanceScore: 8,
+  summary: 'Relevant.',
+  ...changes
+});
+
+const placeholderPaper = paper({
+  title: 'No title available',
+  authors: 'Unknown authors',
+  journal: 'Unknown journal',
+  year: 'Unknown year',
+  abstract: 'No abstract available',
+  pubDate: 'Unknown date'
+});
+
+describe('isKnown', () => {
+  it('only treats the exact placeholders as missing', () => {
+    expect(isKnown('Unknown journal')).toBe(false);
+    expect(isKnown('')).toBe(false);
+    expect(isKnown(undefined)).toBe(false);
+    expect(isKnown('Unknown pleasures of cycling')).toBe(true);
+    expect(isKnown('No title available yet: a study')).toBe(true);
+  });
+});
+
+describe('exportAuthors', () => {
+  it('prefers structured PubMed authors, with collective names as literals', () => {
+    const authors = exportAuthors(paper({
+      authorList: [
+        { lastName: 'Smith', foreName: 'Jane Anne', initials: 'JA', affiliations: [] },
+        { lastName: 'Doe', initials: 'B', affiliations: [] },
+        { collectiveName: 'Obesity Study Group', affiliations: [] }
+      ]
+    }));
+
+    expect(authors).toEqual([
+      { family: 'Smith', given: 'Jane Anne' },
+      { family: 'Doe', given: 'B' },
+      { literal: 'Obesity Study Group' }
+    ]);
+  });
+
+  it('splits the display string and keeps names it cannot split whole', () => {
+    expect(exportAuthors(paper({ authors: 'Smith JA, Jane Doe' }))).toEqual([
+      { family: 'Smith', given: 'JA' },
+      { literal: 'Jane Doe' }
+    ]);
+    expect(exportAuthors(placeholderPaper)).toEqual([]);
+  });
+});
+
+describe('exportPapers', () => {
+  it('escapes BibTeX special characters once', () => {
+    const bibtex = exportPapers([paper({ title: 'C\\D {x} 50% & $5 #1 a_b ~ ^' })], 'bibtex');
+
+    expect(bibtex).toContain(
+      'title = {{C\\textbackslash{}D \\{x\\} 50\\% \\& \\$5 \\#1 a\\_b \\textasciitilde{} \\textasciicircum{}}}'
+    );
+  });
+
+  it('writes BibTeX entries with unique keys, authors and the relevance note', () => {
+    const bibtex = exportPapers([paper({ pages: '100-5', doi: '10.1/x' }), paper({ id: '456', pmid: '456' })], 'bibtex', {
+      notes: { 123: 'Read again' }
+    });
+
+    expect(bibtex).toContain('@article{smith2020microbiome,\n  title = {{Gut microbiome and obesity}},');
+    expect(bibtex).toContain('  author = {Smith, JA and Doe, B},');
+    expect(bibtex).toContain('  pages = {100--5},');
+    expect(bibtex).toContain('  note = {Relevance score: 8/10; Summary: Relevant.; Note: Read again}');
+    expect(bibtex).toContain('@article{smith2020microbiomea,');
+  });
+
+  it('leaves placeholder fields out of every format', () => {
+    const bibtex = exportPapers([placeholderPaper], 'bibtex');
+    const ris = exportPapers([placeholderPaper], 'ris');
+    const [csl] = JSON.parse(exportPapers([placeholderPaper], 'csl-json'));
+
+    expect(bibtex).toBe('@article{anon,\n  pmid = {123},\n  note = {Relevance score: 8/10; Summary: Relevant.}\n}\n');
+    expect(ris).not.toMatch(/^(TI|AU|T2|PY|AB) /m);
+    expect(csl).toEqual({
+      id: '123',
+      type: 'article-journal',
+      PMID: '123',
+      note: 'Relevance score: 8/10\nSummary: Relevant.'
+    });
+  });
+
+  it('writes RIS records with one AU line per author and split pages', () => {
+    const ris = exportPapers([paper({ pages: '100-105', keywords: ['obesity', 'microbiome'] })], 'ris');
+
+    expect(ris.split('\r\n')).toEqual([
+      'TY  - JOUR',
+      'AU  - Smith, JA',
+      'AU  - Doe, B',
+      'TI  - Gut microbiome and obesity',
+      'T2  - Nature',
+      'PY  - 2020',
+      'SP  - 100',
+      'EP  - 105',
+      'AN  - 123',
+      'KW  - obesity',
+      'KW  - microbiome',
+      'AB  - An abstract.',
+      'N1  - Relevance score: 8/10; Summary: Relevant.',
+      'ER  -',
+      ''
+    ]);
+  });
+
+  it('writes CSL-JSON items for web pages without a PMID', () => {
+    const [item] = JSON.parse(exportPapers([
+      paper({ id: 'web:https://example.org', pmid: '', source: 'web', url: 'https://example.org', notScored: true, summary: '' })
+    ], 'csl-json'));
+
+    expect(item).toMatchObject({
+      id: 'web:https://example.org',
+      type: 'webpage',
+      author: [{ family: 'Smith', given: 'JA' }, { family: 'Doe', given: 'B' }],
+      issued: { 'date-parts': [[2020]] },
+      URL: 'https://example.org',
+      note: 'Relevance score: not scored'
+    });
+    expect(item.PMID).toBeUndefined();
+  });
+
+  it('quotes CSV values with commas, quotes and line breaks', () => {
+    const csv = exportPapers([paper({ title: 'Fat, "sugar"\nand salt' })], 'csv');
+
+    expect(csv).toContain('123,,"Fat, ""sugar""\nand salt","Smith JA, Doe B",Nature,2020');
+  });
+});
+
+describe('isExportFormat', () => {
+  it('accepts the export formats only', () => {
+    expect(isExportFormat('ris')).toBe(true);
+    expect(isExportFormat('toString')).toBe(false);
+    expect(isExportFormat(undefined)).toBe(false);
+  });
+});
+
+describe('exportFileName', () => {
+  it('slugs the name and adds the format extension', () => {
+    expect(exportFileName('My Collection!', 'ris')).toBe('my-collection.ris');
+    expect(exportFileName('***', 'csl-json')).toBe('papers.json');
+  });
+});
@@ -0,0 +1,243 @@
+import { PLACEHOLDERS, paperKey } from '@/lib/paper-identity';
+import type { Paper } from '@/lib/types';
+
+// Reference manager formats the paper list can be exported to (client-safe, no server imports)
+export type ExportFormat = 'bibtex' | 'ris' | 'csl-json' | 'csv';
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string; mimeType: string }> = {
+  bibtex: { label: 'BibTeX', extension: 'bib', mimeType: 'application/x-bibtex' },
+  ris: { label: 'RIS (EndNote, Zotero)', extension: 'ris', mimeType: 'application/x-research-info-systems' },
+  'csl-json': { label: 'CSL-JSON', extension: 'json', mimeType: 'application/vnd.citationstyles.csl+json' },
+  csv: { label: 'CSV', extension: 'csv', mimeType: 'text/csv' }
+};
+
+export const isExportFormat = (value: unknown): value is ExportFormat =>
+  typeof value === 'string' && Object.hasOwn(EXPORT_FORMATS, value);
+
+export interface ExportOptions {
+  // User notes keyed by paperKey, appended to the relevance note
+  notes?: Record<string, string>;
+}
+
+export interface ExportAuthor {
+  family?: string;
+  given?: string;
+  // Collective names and names that couldn't be split
+  literal?: string;
+}
+
+// Missing fields hold one of the loaders' placeholders
+export const isKnown = (value: string | undefined) => !!value && !PLACEHOLDERS.has(value);
+
+export const knownYear = (paper: Paper) => (/^\d{4}$/.test(paper.year) ? paper.year : undefined);
+
+// Structured PubMed authors when available, otherwise the "Smith JA, Doe B" display string
+export const exportAuthors = (paper: Paper): ExportAuthor[] => {
+  if (paper.authorList && paper.authorList.length > 0) {
+    return paper.authorList.map(author => author.collectiveName
+      ? { literal: author.collectiveName }
+      : { family: author.lastName, given: author.foreName || author.initials });
+  }
+
+  if (!isKnown(paper.authors)) return [];
+  return paper.authors.split(/,\s*/).filter(Boolean).map(name => {
+    const match = name.match(/^(\S.*)\s+([A-Z]{1,3})$/);
+    return match ? { family: match[1], given: match[2] } : { literal: name };
+  });
+};
+
+const splitPages = (pages?: string) => {
+  const [start, end] = (pages || '').split(/[-–]/).map(part => part.trim());
+  return { start: start || undefined, end: end || undefined };
+};
+
+// Relevance score and summary, followed by the user's own note
+const exportNote = (paper: Paper, options: ExportOptions) => [
+  paper.notScored ? 'Relevance score: not scored' : `Relevance score: ${paper.relevanceScore}/10`,
+  paper.summary && `Summary: ${paper.summary}`,
+  options.notes?.[paperKey(paper)] && `Note: ${options.notes[paperKey(paper)]}`
+].filter(Boolean).join('\n');
+
+// BibTeX
+
+const BIBTEX_ESCAPES: Record<string, string> = {
+  '\\': '\\textbackslash{}',
+  '~': '\\textasciitilde{}',
+  '^': '\\textasciicircum{}'
+};
+
+// One pass, so the braces of \textbackslash{} aren't escaped again
+const escapeBibtex = (value: string) =>
+  value
+    .replace(/[\\~^{}&%$#_]/g, char => BIBTEX_ESCAPES[char] || `\\${char}`)
+    .replace(/\s*\n\s*/g, ' ');
+
+const bibtexName = (author: ExportAuthor) =>
+  author.literal
+    ? `{${escapeBibtex(author.literal)}}`
+    : escapeBibtex([author.family, author.given].filter(Boolean).join(', '));
+
+// smith2020title style keys, made unique within the export
+const bibtexKey = (paper: Paper, authors: ExportAuthor[], usedKeys: Set<string>) => {
+  const name = authors[0]?.family || authors[0]?.literal || 'anon';
+  const word = isKnown(paper.title)
+    ? paper.title.split(/\s+/).find(part => part.replace(/[^a-z]/gi, '').length > 3) || ''
+    : '';
+  const base = `${name}${knownYear(paper) || ''}${word}`.toLowerCase().normalize('NFD').replace(/[^a-z0-9]/g, '') || 'paper';
+
+  // smith2020a, smith2020b, ... then numbered once the letters run out
+  let key = base;
+  for (let suffix = 0; usedKeys.has(key); suffix++) {
+    key = suffix < 26 ? `${base}${String.fromCharCode(97 + suffix)}` : `${base}${suffix}`;
+  }
+  usedKeys.add(key);
+  return key;
+};
+
+const toBibtex = (papers: Paper[], options: ExportOptions) => {
+  const usedKeys = new Set<string>();
+
+  return papers.map(paper => {
+    const authors = exportAuthors(paper);
+    const fields: Array<[string, string | undefined]> = [
+      ['title', isKnown(paper.title) ? `{${escapeBibtex(paper.title)}}` : undefined],
+      ['author', authors.length > 0 ? authors.map(bibtexName).join(' and ') : undefined],
+      [paper.source === 'web' ? 'howpublished' : 'journal', isKnown(paper.journal) ? escapeBibtex(paper.journal) : undefined],
+      ['year', knownYear(paper)],
+      ['volume', paper.volume],
+      ['number', paper.issue],
+      ['pages', paper.pages?.replace(/\s*[-–]\s*/, '--')],
+      ['doi', paper.doi],
+      ['url', paper.url],
+      ['pmid', paper.pmid || undefined],
+      ['pmcid', paper.pmcid],
+      ['keywords', paper.keywords?.length ? escapeBibtex(paper.keywords.join(', ')) : undefined],
+      ['abstract', isKnown(paper.abstract) ? escapeBibtex(paper.abstract) : undefined],
+      ['note', escapeBibtex(exportNote(paper, options).replace(/\n/g, '; '))]
+    ];
+
+    const body = fields
+      .filter((field): field is [string, string] => !!field[1])
+      .map(([name, value]) => `  ${name} = {${value}}`)
+      .join(',\n');
+
+    return `@${paper.source === 'web' ? 'misc' : 'article'}{${bibtexKey(paper, authors, usedKeys)},\n${body}\n}`;
+  }).join('\n\n') + '\n';
+};
+
+// RIS
+
+const toRis = (papers: Paper[], options: ExportOptions) =>
+  papers.map(paper => {
+    const { start, end } = splitPages(paper.pages);
+    const lines: Array<[string, string | undefined]> = [
+      ['TY', paper.source === 'web' ? 'ELEC' : 'JOUR'],
+      ...exportAuthors(paper).map((author): [string, string] =>
+        ['AU', author.literal || [author.family, author.given].filter(Boolean).join(', ')]),
+      ['TI', isKnown(paper.title) ? paper.title : undefined],
+      ['T2', isKnown(paper.journal) ? paper.journal : undefined],
+      ['J2', paper.journalAbbreviation],
+      ['PY', knownYear(paper)],
+      ['VL', paper.volume],
+      ['IS', paper.issue],
+      ['SP', start],
+      ['EP', end],
+      ['DO', paper.doi],
+      ['UR', paper.url],
+      ['AN', paper.pmid || undefined],
+      ['LA', paper.language],
+      ...(paper.keywords || []).map((keyword): [string, string] => ['KW', keyword]),
+      ['AB', isKnown(paper.abstract) ? paper.abstract.replace(/\s*\n\s*/g, ' ') : undefined],
+      ['N1', exportNote(paper, options).replace(/\n/g, '; ')],
+      ['ER', '']
+    ];
+
+    return lines
+      .filter(([tag, value]) => tag === 'ER' || !!value)
+      .map(([tag, value]) => `${tag}  - ${value}`.trimEnd())
+      .join('\r\n');
+  }).join('\r\n\r\n') + '\r\n';
+
+// CSL-JSON
+
+// Drop undefined values and empty arrays so the CSL items stay clean
+const omitEmpty = (item: Record<string, unknown>) =>
+  Object.fromEntries(Object.entries(item).filter(([, value]) =>
+    value !== undefined && value !== '' && !(Array.isArray(value) && value.length === 0)));
+
+const toCslJson = (papers: Paper[], options: ExportOptions) => {
+  const items = papers.map(paper => {
+    const year = knownYear(paper);
+
+    return omitEmpty({
+      id: paperKey(paper),
+      type: paper.source === 'web' ? 'webpage' : 'article-journal',
+      title: isKnown(paper.title) ? paper.title : undefined,
+      author: exportAuthors(paper),
+      'container-title': isKnown(paper.journal) ? paper.journal : undefined,
+      'container-title-short': paper.journalAbbreviation,
+      issued: year ? { 'date-parts': [[Number(year)]] } : undefined,
+      volume: paper.volume,
+      issue: paper.issue,
+      page: paper.pages,
+      DOI: paper.doi,
+      PMID: paper.pmid || undefined,
+      PMCID: paper.pmcid,
+      URL: paper.url,
+      language: paper.language,
+      keyword: paper.keywords?.join(', '),
+      abstract: isKnown(paper.abstract) ? paper.abstract : undefined,
+      note: exportNote(paper, options)
+    });
+  });
+
+  return JSON.stringify(items, null, 2);
+};
+
+// CSV
+
+const CSV_COLUMNS: Array<[string, (paper: Paper, options: ExportOptions) => string | number | undefined]> = [
+  ['PMID', paper => paper.pmid],
+  ['DOI', paper => paper.doi],
+  ['Title', paper => paper.title],
+  ['Authors', paper => paper.authors],
+  ['Journal', paper => paper.journal],
+  ['Year', paper => paper.year],
+  ['Volume', paper => paper.volume],
+  ['Issue', paper => paper.issue],
+  ['Pages', paper => paper.pages],
+  ['URL', paper => paper.url],
+  ['Source', paper => paper.source],
+  ['Relevance Score', paper => paper.notScored ? undefined : paper.relevanceScore],
+  ['Summary', paper => paper.summary],
+  ['Note', (paper, options) => options.notes?.[paperKey(paper)]],
+  ['Abstract', paper => paper.abstract]
+];
+
+const escapeCsv = (value: string | number | undefined) => {
+  const text = value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (papers: Paper[], options: ExportOptions) =>
+  [
+    CSV_COLUMNS.map(([header]) => header).join(','),
+    ...papers.map(paper => CSV_COLUMNS.map(([, value]) => escapeCsv(value(paper, options))).join(','))
+  ].join('\r\n') + '\r\n';
+
+export const exportPapers = (papers: Paper[], format: ExportFormat, options: ExportOptions = {}): string => {
+  switch (format) {
+    case 'bibtex':
+      return toBibtex(papers, options);
+    case 'ris':
+      return toRis(papers, options);
+    case 'csl-json':
+      return toCslJson(papers, options);
+    case 'csv':
+      return toCsv(papers, options);
+  }
+};
+
+// File name for an export, e.g. "my-collection.bib"
+export const exportFileName = (name: string, format: ExportFormat) =>
+  `${name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'papers'}.${EXPORT_FORMATS[format].extension}`;
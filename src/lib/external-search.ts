@@ -0,0 +1,155 @@
+import { scorePapers } from '@/lib/analysis';
+import { doiUrl, extractDoi } from '@/lib/doi';
+import { findPmidByDoi } from '@/lib/eutils';
+import { fetchPaperDetails, type PaperDetails } from '@/lib/papers';
+import { isSerpConfigured, searchGoogleScholar, type ScholarResult } from '@/lib/serp';
+import { isTavilyConfigured, searchTavily } from '@/lib/tavily';
+import type { Paper, SearchEventHandler } from '@/lib/types';
+
+const PUBMED_URL_PATTERN = /pubmed\.ncbi\.nlm\.nih\.gov\/(\d+)/;
+const YEAR_PATTERN = /\b(19|20)\d{2}\b/;
+
+// Google Scholar and Tavily don't understand PubMed field tags or Boolean syntax
+export const toPlainQuery = (term: string) =>
+  term
+    .replace(/\[[^\]]*\]/g, ' ')
+    .replace(/\b(AND|OR|NOT)\b/g, ' ')
+    .replace(/[()]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+export const scholarToPaper = (result: ScholarResult): PaperDetails => {
+  // publication_info.summary looks like "A Author, B Author - Journal, 2020 - publisher.com"
+  const summaryParts = result.publication_info?.summary?.split(' - ') || [];
+  const venue = summaryParts[1] || '';
+  const year = venue.match(YEAR_PATTERN)?.[0];
+  const doi = extractDoi(result.link, ...(result.resources || []).map(resource => resource.link), result.snippet);
+
+  return {
+    id: `scholar:${result.result_id || result.link || result.title}`,
+    pmid: '',
+    title: result.title || 'No title available',
+    authors: result.publication_info?.authors?.map(author => author.name).join(', ')
+      || summaryParts[0]
+      || 'Unknown authors',
+    journal: venue.replace(/,?\s*\b(19|20)\d{2}\b/, '').trim() || 'Unknown journal',
+    year: year || 'Unknown year',
+    abstract: result.snippet || 'No abstract available',
+    pubDate: year || 'Unknown date',
+    doi,
+    url: result.link || (doi ? doiUrl(doi) : undefined),
+    source: 'scholar'
+  };
+};
+
+// A malformed result URL must not fail the whole web search
+const hostname = (url: string) => {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return undefined;
+  }
+};
+
+export const webToPaper = (result: { title: string; url: string; content: string; publishedDate?: string }): PaperDetails => {
+  const doi = extractDoi(result.url, result.content);
+  const year = result.publishedDate?.match(YEAR_PATTERN)?.[0];
+  const host = hostname(result.url);
+
+  return {
+    id: `web:${result.url}`,
+    pmid: '',
+    title: result.title || 'No title available',
+    authors: 'Unknown authors',
+    journal: host || 'Unknown journal',
+    year: year || 'Unknown year',
+    abstract: result.content || 'No abstract available',
+    pubDate: result.publishedDate || 'Unknown date',
+    doi,
+    url: host ? result.url : doi ? doiUrl(doi) : undefined,
+    source: 'web'
+  };
+};
+
+// Cross-match an external hit to PubMed, using a PMID in its URL or a DOI that resolves to one.
+// Matched hits take the PubMed record (full abstract, references) but keep their source.
+const crossMatch = async (paper: PaperDetails): Promise<PaperDetails> => {
+  try {
+    const pmid = paper.url?.match(PUBMED_URL_PATTERN)?.[1]
+      || (paper.doi ? await findPmidByDoi(paper.doi) : null);
+    if (!pmid) {
+      return paper;
+    }
+
+    const [record] = await fetchPaperDetails([pmid]);
+    return record ? { ...record, source: paper.source } : { ...paper, id: pmid, pmid };
+  } catch (error) {
+    console.error(`Error cross-matching ${paper.id}:`, error);
+    return paper;
+  }
+};
+
+const matchAndScore = async (
+  candidates: PaperDetails[],
+  term: string,
+  discussionText: string,
+  onEvent: SearchEventHandler
+): Promise<Paper[]> => {
+  const matched: PaperDetails[] = [];
+  for (const candidate of candidates) {
+    matched.push(await crossMatch(candidate));
+    onEvent({ type: 'fetched', fetched: matched.length, total: candidates.length, term });
+  }
+
+  const scored = await scorePapers(matched, discussionText);
+  onEvent({ type: 'scored', papers: scored, scored: scored.length, total: candidates.length, term });
+  return scored;
+};
+
+// Search Google Scholar through SerpAPI and score the hits like PubMed results
+export const searchScholar = async (
+  searchTerm: string,
+  discussionText: string,
+  maxResults: number,
+  onEvent: SearchEventHandler
+): Promise<Paper[]> => {
+  if (!isSerpConfigured()) {
+    console.log('SERP API key not configured, skipping Google Scholar search');
+    return [];
+  }
+
+  const query = toPlainQuery(searchTerm);
+  try {
+    const response = await searchGoogleScholar(query, maxResults);
+    const candidates = (response.organic_results || []).slice(0, maxResults).map(scholarToPaper);
+    return await matchAndScore(candidates, query, discussionText, onEvent);
+  } catch (error) {
+    console.error('Error searching Google Scholar:', error);
+    onEvent({ type: 'error', message: `Google Scholar search failed for "${query}"` });
+    return [];
+  }
+};
+
+// Search the web through Tavily and score the hits like PubMed results
+export const searchWeb = async (
+  searchTerm: string,
+  discussionText: string,
+  maxResults: number,
+  onEvent: SearchEventHandler
+): Promise<Paper[]> => {
+  if (!isTavilyConfigured()) {
+    console.log('Tavily API key not configured, skipping web search');
+    return [];
+  }
+
+  const query = toPlainQuery(searchTerm);
+  try {
+    const response = await searchTavily(query, maxResults);
+    const candidates = response.results.slice(0, maxResults).map(webToPaper);
+    return await matchAndScore(candidates, query, discussionText, onEvent);
+  } catch (error) {
+    console.error('Error searching the web with Tavily:', error);
+    onEvent({ type: 'error', message: `Web search failed for "${query}"` });
+    return [];
+  }
+};
@@ -0,0 +1,45 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// Directory holding the app's local data files (library, search history, ...)
+export const DATA_DIR = process.env.DATA_DIR || path.join(process.cwd(), '.data');
+
+// A JSON document persisted to a single file under DATA_DIR.
+// Updates are serialized so concurrent requests can't overwrite each other's changes,
+// and each write goes through a temp file + rename so a crash never leaves half a file.
+export const createJsonStore = <T>(fileName: string, initial: () => T) => {
+  const filePath = path.join(DATA_DIR, fileName);
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const read = async (): Promise<T> => {
+    try {
+      return JSON.parse(await fs.readFile(filePath, 'utf8')) as T;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return initial();
+      }
+      throw error;
+    }
+  };
+
+  const write = async (data: T) => {
+    await fs.mkdir(DATA_DIR, { recursive: true });
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(data, null, 2), 'utf8');
+    await fs.rename(tempPath, filePath);
+  };
+
+  // Apply a change to the stored document and return the mutator's result
+  const update = <R>(mutator: (data: T) => R | Promise<R>): Promise<R> => {
+    const run = queue.then(async () => {
+      const data = await read();
+      const result = await mutator(data);
+      await write(data);
+      return result;
+    });
+    queue = run.catch(() => undefined);
+    return run;
+  };
+
+  return { read, update };
+};
@@ -0,0 +1,52 @@
+// Browser-side helpers for the /api/library routes
+import type { Collection, CollectionWithPapers, LibraryEntry, Paper } from '@/lib/types';
+
+const request = async <T>(url: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers }
+  });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || `Library request failed with status ${response.status}`);
+  }
+
+  return response.json();
+};
+
+export const fetchCollections = async () =>
+  (await request<{ collections: Collection[] }>('/api/library/collections')).collections;
+
+export const fetchCollection = async (id: string) =>
+  (await request<{ collection: CollectionWithPapers }>(`/api/library/collections/${id}`)).collection;
+
+export const createCollection = async (name: string, description?: string) =>
+  (await request<{ collection: Collection }>('/api/library/collections', {
+    method: 'POST',
+    body: JSON.stringify({ name, description })
+  })).collection;
+
+export const deleteCollection = (id: string) =>
+  request<{ deleted: boolean }>(`/api/library/collections/${id}`, { method: 'DELETE' });
+
+export const addPapersToCollection = async (id: string, papers: Paper[]) =>
+  (await request<{ collection: CollectionWithPapers }>(`/api/library/collections/${id}/papers`, {
+    method: 'POST',
+    body: JSON.stringify({ papers })
+  })).collection;
+
+export const removePaperFromCollection = async (id: string, paperId: string) =>
+  (await request<{ collection: CollectionWithPapers }>(
+    `/api/library/collections/${id}/papers?paperId=${encodeURIComponent(paperId)}`,
+    { method: 'DELETE' }
+  )).collection;
+
+export const fetchNotes = async () =>
+  (await request<{ notes: Record<string, string> }>('/api/library/notes')).notes;
+
+export const savePaperNote = async (paper: Paper, note: string) =>
+  (await request<{ entry: LibraryEntry }>('/api/library/notes', {
+    method: 'PUT',
+    body: JSON.stringify({ paper, note })
+  })).entry;
@@ -0,0 +1,122 @@
+import { randomUUID } from 'crypto';
+import { createJsonStore } from '@/lib/json-store';
+import { paperKey } from '@/lib/paper-identity';
+import type { Collection, CollectionWithPapers, LibraryEntry, Paper } from '@/lib/types';
+
+interface LibraryData {
+  collections: Collection[];
+  papers: Record<string, LibraryEntry>;
+}
+
+const store = createJsonStore<LibraryData>('library.json', () => ({ collections: [], papers: {} }));
+
+const now = () => new Date().toISOString();
+
+// Strip per-view UI state before persisting a paper
+const toStoredPaper = ({ isExpanded: _isExpanded, ...paper }: Paper): Paper => paper;
+
+// Insert or refresh a paper in the library, keeping its existing note
+const upsertPaper = (data: LibraryData, paper: Paper): string => {
+  const key = paperKey(paper);
+  const existing = data.papers[key];
+  data.papers[key] = {
+    paper: toStoredPaper(paper),
+    note: existing?.note || '',
+    addedAt: existing?.addedAt || now(),
+    updatedAt: now()
+  };
+  return key;
+};
+
+const withPapers = (data: LibraryData, collection: Collection): CollectionWithPapers => ({
+  ...collection,
+  entries: collection.paperIds
+    .map(id => data.papers[id])
+    .filter((entry): entry is LibraryEntry => !!entry)
+});
+
+export const listCollections = async (): Promise<Collection[]> => {
+  const data = await store.read();
+  return data.collections;
+};
+
+export const getCollection = async (id: string): Promise<CollectionWithPapers | null> => {
+  const data = await store.read();
+  const collection = data.collections.find(c => c.id === id);
+  return collection ? withPapers(data, collection) : null;
+};
+
+export const createCollection = (name: string, description?: string): Promise<Collection> =>
+  store.update(data => {
+    const collection: Collection = {
+      id: randomUUID(),
+      name,
+      description,
+      paperIds: [],
+      createdAt: now(),
+      updatedAt: now()
+    };
+    data.collections.push(collection);
+    return collection;
+  });
+
+export const updateCollection = (id: string, changes: { name?: string; description?: string }) =>
+  store.update(data => {
+    const collection = data.collections.find(c => c.id === id);
+    if (!collection) return null;
+
+    if (changes.name !== undefined) collection.name = changes.name;
+    if (changes.description !== undefined) collection.description = changes.description;
+    collection.updatedAt = now();
+    return collection;
+  });
+
+// Deleting a collection keeps its papers (and notes) in the library
+export const deleteCollection = (id: string) =>
+  store.update(data => {
+    const before = data.collections.length;
+    data.collections = data.collections.filter(c => c.id !== id);
+    return data.collections.length < before;
+  });
+
+export const addPapersToCollection = (id: string, papers: Paper[]) =>
+  store.update(data => {
+    const collection = data.collections.find(c => c.id === id);
+    if (!collection) return null;
+
+    for (const paper of papers) {
+      const key = upsertPaper(data, paper);
+      if (!collection.paperIds.includes(key)) {
+        collection.paperIds.push(key);
+      }
+    }
+    collection.updatedAt = now();
+    return withPapers(data, collection);
+  });
+
+export const removePaperFromCollection = (id: string, paperId: string) =>
+  store.update(data => {
+    const collection = data.collections.find(c => c.id === id);
+    if (!collection) return null;
+
+    collection.paperIds = collection.paperIds.filter(key => key !== paperId);
+    collection.updatedAt = now();
+    return withPapers(data, collection);
+  });
+
+// Notes are kept per paper, shared across every collection the paper is in
+export const getNotes = async (): Promise<Record<string, string>> => {
+  const data = await store.read();
+  return Object.fromEntries(
+    Object.entries(data.papers)
+      .filter(([, entry]) => entry.note)
+      .map(([key, entry]) => [key, entry.note])
+  );
+};
+
+export const savePaperNote = (paper: Paper, note: string) =>
+  store.update(data => {
+    const key = upsertPaper(data, paper);
+    data.papers[key].note = note;
+    return data.papers[key];
+  });
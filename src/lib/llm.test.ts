@@ -0,0 +1,59 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/lib/response-cache', () => ({
+  cached: (_namespace: string, _key: unknown, load: () => Promise<string>) => load()
+}));
+vi.mock('@/lib/claude', () => ({
+  anthropicProvider: {
+    name: 'anthropic',
+    endpoint: 'https://example.test/messages',
+    defaultModel: 'claude-test',
+    maxOutputTokens: 8192,
+    complete: vi.fn(async () => 'answer')
+  }
+}));
+
+const { anthropicProvider } = await import('@/lib/claude');
+const { complete, getLlmSettings } = await import('@/lib/llm');
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+  vi.mocked(anthropicProvider.complete).mockClear();
+});
+
+describe('complete', () => {
+  it('caps a scoring batch at the model output limit when LLM_MAX_TOKENS is set globally', async () => {
+    vi.stubEnv('LLM_MAX_TOKENS', '1000');
+    const perPaper = getLlmSettings('scoring').maxTokens;
+
+    await complete('scoring', 'prompt', { maxTokens: 200 + perPaper * 10 });
+
+    expect(perPaper).toBe(1000);
+    expect(anthropicProvider.complete).toHaveBeenCalledWith(expect.objectContaining({ maxTokens: 8192 }));
+  });
+
+  it('takes the output limit from LLM_<TASK>_MAX_OUTPUT_TOKENS', async () => {
+    vi.stubEnv('LLM_SCORING_MAX_OUTPUT_TOKENS', '2048');
+
+    await complete('scoring', 'prompt', { maxTokens: 3200 });
+
+    expect(anthropicProvider.complete).toHaveBeenCalledWith(expect.objectContaining({ maxTokens: 2048 }));
+  });
+
+  it('leaves limits under the output limit as they are', async () => {
+    await complete('completion', 'prompt');
+
+    expect(anthropicProvider.complete).toHaveBeenCalledWith(expect.objectContaining({ maxTokens: 1000 }));
+  });
+});
+
+describe('getLlmSettings', () => {
+  it('falls back to anthropic for unknown providers, prototype keys included', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    vi.stubEnv('LLM_PROVIDER', 'constructor');
+
+    expect(getLlmSettings('scoring')).toMatchObject({ provider: 'anthropic', model: 'claude-test', maxOutputTokens: 8192 });
+    expect(console.error).toHaveBeenCalledWith('Unknown LLM provider "constructor", using anthropic');
+  });
+});
@@ -0,0 +1,100 @@
+import { anthropicProvider } from '@/lib/claude';
+import { openAiCompatibleProvider } from '@/lib/openai-compatible';
+import { cached } from '@/lib/response-cache';
+
+// Language model calls go through one provider interface, configured per task from the environment:
+// LLM_<SETTING> applies to every task and LLM_<TASK>_<SETTING> overrides it for one task,
+// e.g. LLM_PROVIDER=openai with LLM_SCORING_MODEL=llama3.1:70b
+export type LlmTask = 'searchTerms' | 'scoring' | 'completion';
+export type LlmProviderName = 'anthropic' | 'openai';
+
+export interface CompletionRequest {
+  prompt: string;
+  model: string;
+  temperature: number;
+  maxTokens: number;
+}
+
+export interface LlmProvider {
+  name: LlmProviderName;
+  // URL the provider calls; part of the cache key so different servers don't share answers
+  endpoint: string;
+  defaultModel: string;
+  // Output token limit of the provider's default model; requests asking for more are capped
+  maxOutputTokens: number;
+  complete: (request: CompletionRequest) => Promise<string>;
+}
+
+export interface LlmSettings {
+  provider: LlmProviderName;
+  model: string;
+  temperature: number;
+  // For scoring, the limit per paper in a batch
+  maxTokens: number;
+  // Upper bound on any request's token limit, e.g. a whole scoring batch
+  maxOutputTokens: number;
+}
+
+const PROVIDERS: Record<LlmProviderName, LlmProvider> = {
+  anthropic: anthropicProvider,
+  openai: openAiCompatibleProvider
+};
+
+const TASK_ENV_PREFIXES: Record<LlmTask, string> = {
+  searchTerms: 'LLM_SEARCH_TERMS',
+  scoring: 'LLM_SCORING',
+  completion: 'LLM_COMPLETION'
+};
+
+// Scoring is kept close to deterministic so re-runs give comparable scores
+const TASK_DEFAULTS: Record<LlmTask, Pick<LlmSettings, 'temperature' | 'maxTokens'>> = {
+  searchTerms: { temperature: 0.7, maxTokens: 1000 },
+  scoring: { temperature: 0, maxTokens: 300 },
+  completion: { temperature: 1, maxTokens: 1000 }
+};
+
+const isProviderName = (value: unknown): value is LlmProviderName =>
+  typeof value === 'string' && Object.hasOwn(PROVIDERS, value);
+
+const numberSetting = (value: string | undefined, fallback: number) => {
+  const number = Number(value);
+  return value && !Number.isNaN(number) ? number : fallback;
+};
+
+export const getLlmSettings = (task: LlmTask): LlmSettings => {
+  const setting = (name: string) => process.env[`${TASK_ENV_PREFIXES[task]}_${name}`] || process.env[`LLM_${name}`];
+
+  const providerName = setting('PROVIDER');
+  if (providerName && !isProviderName(providerName)) {
+    console.error(`Unknown LLM provider "${providerName}", using anthropic`);
+  }
+  const provider = isProviderName(providerName) ? providerName : 'anthropic';
+
+  return {
+    provider,
+    model: setting('MODEL') || PROVIDERS[provider].defaultModel,
+    temperature: numberSetting(setting('TEMPERATURE'), TASK_DEFAULTS[task].temperature),
+    maxTokens: numberSetting(setting('MAX_TOKENS'), TASK_DEFAULTS[task].maxTokens),
+    maxOutputTokens: numberSetting(setting('MAX_OUTPUT_TOKENS'), PROVIDERS[provider].maxOutputTokens)
+  };
+};
+
+// Complete a prompt with the task's provider and settings. Answers are cached per provider endpoint,
+// model, temperature, prompt and token limit; `shouldCache` keeps answers the caller can't use
+// out of the cache so a retry asks again. The token limit never exceeds the model's output limit.
+export const complete = async (
+  task: LlmTask,
+  prompt: string,
+  { maxTokens, shouldCache }: { maxTokens?: number; shouldCache?: (text: string) => boolean } = {}
+): Promise<string> => {
+  const settings = getLlmSettings(task);
+  const provider = PROVIDERS[settings.provider];
+  const request: CompletionRequest = {
+    prompt,
+    model: settings.model,
+    temperature: settings.temperature,
+    maxTokens: Math.min(maxTokens ?? settings.maxTokens, settings.maxOutputTokens)
+  };
+
+  return cached('llm', { endpoint: provider.endpoint, ...request }, () => provider.complete(request), shouldCache);
+};
@@ -0,0 +1,56 @@
+import _ from 'lodash';
+import { meshSearch, meshSummary } from '@/lib/eutils';
+import type { MeshDescriptor } from '@/lib/types';
+
+// esummary record of the mesh database; ds_meshterms lists the heading first, then its entry terms
+interface MeshSummary {
+  uid: string;
+  ds_meshui?: string;
+  ds_meshterms?: string[];
+  ds_scopenote?: string;
+  ds_idxlinks?: Array<{ parent?: string; treenum?: string; children?: string[] }>;
+}
+
+interface MeshSummaryResponse {
+  result?: { uids?: string[] } & Record<string, MeshSummary | string[] | undefined>;
+}
+
+const summaries = (data: MeshSummaryResponse): MeshSummary[] =>
+  (data.result?.uids || []).map(uid => data.result?.[uid]).filter((record): record is MeshSummary =>
+    !!record && !Array.isArray(record));
+
+const headingOf = (record: MeshSummary) => record.ds_meshterms?.[0] || record.ds_meshui || record.uid;
+
+// MeSH descriptors matching a concept, best match first, with their entry terms and their places
+// in the hierarchy. Supplementary concepts and qualifiers are left out: only descriptors can be
+// searched as [MeSH Terms].
+export const lookupMesh = async (concept: string, maxResults = 5): Promise<MeshDescriptor[]> => {
+  const searchData = await meshSearch(concept, String(maxResults));
+  const ids: string[] = searchData.esearchresult?.idlist || [];
+  if (ids.length === 0) {
+    return [];
+  }
+
+  const records = summaries(await meshSummary(ids)).filter(record => record.ds_meshui?.startsWith('D'));
+
+  // One more esummary for the names of the broader descriptors
+  const parentIds = _.uniq(records.flatMap(record => (record.ds_idxlinks || []).map(link => link.parent || '')))
+    .filter(id => /^\d+$/.test(id));
+  const parents = parentIds.length > 0 ? summaries(await meshSummary(parentIds)) : [];
+  const names = new Map([...records, ...parents].map(record => [record.uid, headingOf(record)]));
+
+  return _.sortBy(records, record => ids.indexOf(record.uid)).map(record => ({
+    uid: record.uid,
+    ui: record.ds_meshui || '',
+    name: headingOf(record),
+    scopeNote: record.ds_scopenote?.trim() || undefined,
+    entryTerms: (record.ds_meshterms || []).slice(1),
+    trees: (record.ds_idxlinks || [])
+      .filter(link => link.treenum)
+      .map(link => ({
+        treeNumber: link.treenum!,
+        parent: link.parent && names.has(link.parent) ? { uid: link.parent, name: names.get(link.parent)! } : undefined,
+        narrower: link.children?.length || 0
+      }))
+  }));
+};
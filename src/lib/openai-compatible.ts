@@ -0,0 +1,41 @@
+import type { LlmProvider } from '@/lib/llm';
+
+// Any server speaking the OpenAI chat completions API: a local Ollama (the default URL),
+// llama.cpp, vLLM or LM Studio. LLM_API_KEY is only sent when set.
+const LLM_BASE_URL = (process.env.LLM_BASE_URL || 'http://localhost:11434/v1').replace(/\/+$/, '');
+const LLM_API_KEY = process.env.LLM_API_KEY;
+const LLM_DEFAULT_MODEL = 'llama3.1';
+
+interface ChatCompletionResponse {
+  choices?: Array<{ message?: { content?: string } }>;
+}
+
+export const openAiCompatibleProvider: LlmProvider = {
+  name: 'openai',
+  endpoint: `${LLM_BASE_URL}/chat/completions`,
+  defaultModel: LLM_DEFAULT_MODEL,
+  // Conservative for local models; raise it with LLM_MAX_OUTPUT_TOKENS
+  maxOutputTokens: 4096,
+  complete: async ({ prompt, model, temperature, maxTokens }) => {
+    const response = await fetch(`${LLM_BASE_URL}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(LLM_API_KEY ? { 'Authorization': `Bearer ${LLM_API_KEY}` } : {})
+      },
+      body: JSON.stringify({
+        model,
+        temperature,
+        max_tokens: maxTokens,
+        messages: [{ role: 'user', content: prompt }]
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`LLM endpoint ${LLM_BASE_URL} responded with status: ${response.status}`);
+    }
+
+    const data: ChatCompletionResponse = await response.json();
+    return data.choices?.[0]?.message?.content || '';
+  }
+};
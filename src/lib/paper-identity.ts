@@ -0,0 +1,16 @@
+import { doiKey } from '@/lib/doi';
+import type { Paper } from '@/lib/types';
+
+// Identity used to deduplicate papers that may lack a PMID
+export const paperKey = (paper: Pick<Paper, 'id' | 'pmid' | 'doi'>) =>
+  paper.pmid || (paper.doi ? doiKey(paper.doi) : paper.id);
+
+// Values the loaders fill in when a field is missing
+export const PLACEHOLDERS: ReadonlySet<string> = new Set([
+  'No title available',
+  'Unknown authors',
+  'Unknown journal',
+  'Unknown year',
+  'Unknown date',
+  'No abstract available'
+]);
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { createPaperMerger, mergeDuplicates, mergePapers } from '@/lib/paper-merge';
+import type { Paper } from '@/lib/types';
+
+const paper = (changes: Partial<Paper>): Paper => ({
+  id: '123',
+  pmid: '123',
+  title: 'Gut microbiome composition in adults with obesity',
+  authors: 'Smith JA, Doe B',
+  journal: 'Nature',
+  year: '2020',
+  abstract: 'A full PubMed abstract.',
+  pubDate: '2020 Mar',
+  relevanceScore: 6,
+  summary: 'PubMed summary',
+  ...changes
+});
+
+const scholar = (changes: Partial<Paper>): Paper => paper({
+  id: 'scholar:abc',
+  pmid: '',
+  authors: 'JA Smith, B Doe',
+  journal: 'Unknown journal',
+  abstract: 'Snippet',
+  source: 'scholar',
+  url: 'https://scholar.example/abc',
+  ...changes
+});
+
+describe('mergePapers', () => {
+  it('keeps the PubMed record and fills its missing fields from the other one', () => {
+    const merged = mergePapers(
+      scholar({ doi: '10.1/x', relevanceScore: 9, summary: 'Scholar summary', citations: ['5'] }),
+      paper({ journal: 'Unknown journal', volume: '12', citations: ['4'], citationCount: 3 })
+    );
+
+    expect(merged).toMatchObject({
+      id: '123',
+      pmid: '123',
+      abstract: 'A full PubMed abstract.',
+      doi: '10.1/x',
+      volume: '12',
+      relevanceScore: 9,
+      summary: 'Scholar summary',
+      citations: ['5', '4'],
+      citationCount: 3,
+      provenance: [{ source: 'pubmed', id: '123' }, { source: 'scholar', id: 'scholar:abc', url: 'https://scholar.example/abc' }]
+    });
+    // Record fields stay those of the PubMed record
+    expect(merged.source).toBeUndefined();
+    expect(merged.url).toBeUndefined();
+    expect(merged.journal).toBe('Unknown journal');
+  });
+
+  it('only marks a paper not scored when no record was scored, and drops undefined fields', () => {
+    const unscored = { relevanceScore: 0, summary: '', notScored: true };
+
+    expect(mergePapers(paper(unscored), scholar({ relevanceScore: 4 }))).not.toHaveProperty('notScored');
+    expect(mergePapers(paper(unscored), scholar(unscored))).toMatchObject({ notScored: true });
+    expect(Object.values(mergePapers(paper({ doi: undefined }), scholar({})))).not.toContain(undefined);
+  });
+
+  it('keeps the earliest snowball hop and any main or seed flag', () => {
+    expect(mergePapers(paper({ snowballHop: 2 }), scholar({ snowballHop: 1, isSeed: true }))).toMatchObject({
+      snowballHop: 1,
+      isSeed: true
+    });
+  });
+});
+
+describe('mergeDuplicates', () => {
+  it('matches records by PMID, DOI and title with year and first author', () => {
+    const { papers, duplicates } = mergeDuplicates([
+      paper({ doi: '10.1/X' }),
+      paper({ id: '123-again' }),
+      scholar({ doi: '10.1/x' }),
+      scholar({ id: 'web:1', source: 'web', title: 'Gut Microbiome Composition in Adults with Obesity.' }),
+      scholar({ id: 'web:2', source: 'web', year: '2019', pubDate: '2019' }),
+      paper({ id: '456', pmid: '456', title: 'A different paper entirely, about sleep' })
+    ]);
+
+    expect(papers.map(p => p.id)).toEqual(['123', 'web:2', '456']);
+    expect(duplicates).toEqual({ total: 3, byPmid: 1, byDoi: 1, byTitle: 1 });
+    expect(papers[0].provenance?.map(p => p.id)).toEqual(['123', '123-again', 'scholar:abc', 'web:1']);
+  });
+
+  it('does not match short or placeholder titles', () => {
+    const { papers } = mergeDuplicates([
+      scholar({ id: 'a', title: 'Obesity' }),
+      scholar({ id: 'b', title: 'Obesity' }),
+      scholar({ id: 'c', title: 'No title available' }),
+      scholar({ id: 'd', title: 'No title available' })
+    ]);
+
+    expect(papers).toHaveLength(4);
+  });
+});
+
+describe('createPaperMerger', () => {
+  it('joins papers that a later record links, in the position of the first', () => {
+    const merger = createPaperMerger();
+    merger.addAll([
+      paper({ id: '0', pmid: '0', title: 'Zeroth' }),
+      paper({ id: '1', pmid: '1', title: 'First' }),
+      scholar({ id: 'doi-only', doi: '10.1/y', title: 'Short' })
+    ]);
+
+    expect(merger.has(paper({ id: 'x', pmid: '1' }))).toBe(true);
+    expect(merger.add(paper({ id: '1b', pmid: '1', doi: '10.1/y', title: 'First' }))).toBe(true);
+    // The linking record has both identifiers, so it is the most complete one
+    expect(merger.papers().map(p => p.id)).toEqual(['0', '1b']);
+    expect(merger.papers()[1].provenance?.map(p => p.id)).toEqual(['1b', '1', 'doi-only']);
+    expect(merger.stats()).toEqual({ total: 2, byPmid: 1, byDoi: 1, byTitle: 0 });
+  });
+});
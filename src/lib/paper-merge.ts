@@ -0,0 +1,197 @@
+import _ from 'lodash';
+import { doiKey } from '@/lib/doi';
+import { PLACEHOLDERS } from '@/lib/paper-identity';
+import type { DuplicateStats, Paper, PaperProvenance } from '@/lib/types';
+
+// Merging of duplicate paper records (client-safe). Records are the same paper when they share
+// a PMID, a DOI, or a normalized title with the same year and first author; the merged paper
+// keeps the best value of each field and lists every record it was merged from.
+
+type MatchKind = 'pmid' | 'doi' | 'title';
+
+// Titles shorter than this (once normalized) are too generic to identify a paper
+const MIN_TITLE_LENGTH = 20;
+
+export const EMPTY_DUPLICATE_STATS: DuplicateStats = { total: 0, byPmid: 0, byDoi: 0, byTitle: 0 };
+
+const STAT_FIELDS: Record<MatchKind, keyof Omit<DuplicateStats, 'total'>> = {
+  pmid: 'byPmid',
+  doi: 'byDoi',
+  title: 'byTitle'
+};
+
+const normalizeText = (text: string) =>
+  text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/<[^>]+>/g, ' ')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+// Surname of the first author, whether written "Smith J" (PubMed) or "J Smith" (Google Scholar)
+const firstAuthorSurname = (paper: Paper) => {
+  const lastName = paper.authorList?.[0]?.lastName;
+  if (lastName) return normalizeText(lastName).split(' ').pop() || '';
+
+  const firstAuthor = paper.authors && !PLACEHOLDERS.has(paper.authors) ? paper.authors.split(',')[0] : '';
+  const names = firstAuthor.trim().split(/\s+/).filter(name => !/^([A-Z]\.?){1,3}$/.test(name));
+  return normalizeText(names[names.length - 1] || '');
+};
+
+const publicationYear = (paper: Paper) => (paper.year || paper.pubDate || '').match(/\b(1[89]|20)\d{2}\b/)?.[0];
+
+// Keys a record can be matched on, strongest first
+const matchKeys = (paper: Paper): Array<[MatchKind, string]> => {
+  const keys: Array<[MatchKind, string]> = [];
+  if (paper.pmid) keys.push(['pmid', `pmid:${paper.pmid}`]);
+  if (paper.doi) keys.push(['doi', doiKey(paper.doi)]);
+
+  const title = PLACEHOLDERS.has(paper.title) ? '' : normalizeText(paper.title || '');
+  const year = publicationYear(paper);
+  const author = firstAuthorSurname(paper);
+  if (title.length >= MIN_TITLE_LENGTH && year && author) {
+    keys.push(['title', `title:${title}|${year}|${author}`]);
+  }
+  return keys;
+};
+
+// Where a record came from; records without a source were loaded from PubMed
+const provenanceOf = (paper: Paper): PaperProvenance[] =>
+  paper.provenance || [{ source: paper.source || 'pubmed', id: paper.id, ...(paper.url ? { url: paper.url } : {}) }];
+
+// PubMed records have the fullest metadata, then records with a DOI, then the longer abstract
+const completeness = (paper: Paper) =>
+  (paper.pmid ? 4 : 0) + (paper.doi ? 2 : 0) + (PLACEHOLDERS.has(paper.abstract) ? 0 : paper.abstract.length / 1e6);
+
+// Fields that describe the record rather than the paper are never copied across
+const RECORD_FIELDS = new Set<keyof Paper>(['id', 'source', 'url', 'provenance']);
+
+const hasValue = (value: unknown) =>
+  value !== undefined && value !== null && value !== '' && !(typeof value === 'string' && PLACEHOLDERS.has(value));
+
+const fillMissing = <K extends keyof Paper>(merged: Paper, other: Paper, key: K) => {
+  if (!hasValue(merged[key]) && hasValue(other[key])) {
+    merged[key] = other[key];
+  }
+};
+
+// Drop the fields left undefined so merged papers carry only the fields they have
+const withoutUndefined = (paper: Paper): Paper => {
+  for (const key of Object.keys(paper) as Array<keyof Paper>) {
+    if (paper[key] === undefined) delete paper[key];
+  }
+  return paper;
+};
+
+// Combine two records of the same paper into one
+export const mergePapers = (a: Paper, b: Paper): Paper => {
+  const [primary, secondary] = completeness(b) > completeness(a) ? [b, a] : [a, b];
+  const merged: Paper = { ...primary };
+
+  // Fill fields the primary record lacks from the other one
+  for (const key of Object.keys(secondary) as Array<keyof Paper>) {
+    if (!RECORD_FIELDS.has(key)) fillMissing(merged, secondary, key);
+  }
+
+  // The best score wins, with its summary; a paper is only "not scored" if no record was scored
+  const scored = [a, b].filter(paper => !paper.notScored);
+  const best = _.maxBy(scored, 'relevanceScore');
+  if (best) {
+    merged.relevanceScore = best.relevanceScore;
+    merged.summary = best.summary;
+    delete merged.notScored;
+  }
+
+  const union = (x?: string[], y?: string[]) => (x || y ? _.union(x || [], y || []) : undefined);
+  merged.citations = union(a.citations, b.citations);
+  merged.references = union(a.references, b.references);
+  if (a.referenceCitations || b.referenceCitations) {
+    merged.referenceCitations = { ...secondary.referenceCitations, ...primary.referenceCitations };
+  }
+  merged.citationCount = _.max([a.citationCount, b.citationCount]);
+  merged.citationsOffset = _.max([a.citationsOffset, b.citationsOffset]);
+  merged.isMainPaper = a.isMainPaper || b.isMainPaper || undefined;
+  merged.isSeed = a.isSeed || b.isSeed || undefined;
+  merged.snowballHop = _.min([a.snowballHop, b.snowballHop]);
+  merged.provenance = _.uniqBy([...provenanceOf(primary), ...provenanceOf(secondary)], ({ source, id }) => `${source}|${id}`);
+
+  return withoutUndefined(merged);
+};
+
+// Collects papers from any number of batches, merging each into the record it duplicates.
+// Papers keep the position of their first record.
+export const createPaperMerger = () => {
+  const slots: Array<Paper | null> = [];
+  const index = new Map<string, number>();
+  // Slots emptied by merging them into another one, pointing at that one
+  const movedTo = new Map<number, number>();
+  const stats: DuplicateStats = { ...EMPTY_DUPLICATE_STATS };
+
+  const indexPaper = (paper: Paper, slot: number) => {
+    for (const [, key] of matchKeys(paper)) index.set(key, slot);
+  };
+
+  const resolve = (slot: number): number => {
+    const target = movedTo.get(slot);
+    return target === undefined ? slot : resolve(target);
+  };
+
+  // Slots of the known papers a record duplicates, with the strongest key that matched
+  const findMatches = (paper: Paper) => {
+    const matches = new Map<number, MatchKind>();
+    for (const [kind, key] of matchKeys(paper)) {
+      const slot = index.get(key);
+      if (slot !== undefined && !matches.has(resolve(slot))) matches.set(resolve(slot), kind);
+    }
+    return matches;
+  };
+
+  const count = (kind: MatchKind) => {
+    stats.total += 1;
+    stats[STAT_FIELDS[kind]] += 1;
+  };
+
+  // Add a record; returns true when it was merged into a paper already collected
+  const add = (paper: Paper): boolean => {
+    const matches = findMatches(paper);
+    if (matches.size === 0) {
+      slots.push(paper);
+      indexPaper(paper, slots.length - 1);
+      return false;
+    }
+
+    // A record can link papers that didn't match each other, e.g. a PMID-only and a DOI-only record
+    const [target, ...others] = [...matches.keys()].sort((x, y) => x - y);
+    let merged = mergePapers(slots[target]!, paper);
+    count(matches.get(target)!);
+    for (const slot of others) {
+      const other = slots[slot]!;
+      merged = mergePapers(merged, other);
+      slots[slot] = null;
+      movedTo.set(slot, target);
+      count(matches.get(slot)!);
+    }
+
+    slots[target] = merged;
+    indexPaper(paper, target);
+    indexPaper(merged, target);
+    return true;
+  };
+
+  return {
+    add,
+    addAll: (papers: Paper[]) => papers.forEach(add),
+    // Whether the record duplicates a paper already collected
+    has: (paper: Paper) => findMatches(paper).size > 0,
+    papers: () => slots.filter((paper): paper is Paper => paper !== null),
+    stats: () => ({ ...stats })
+  };
+};
+
+// Merge the duplicates within one list of papers
+export const mergeDuplicates = (papers: Paper[]) => {
+  const merger = createPaperMerger();
+  merger.addAll(papers);
+  return { papers: merger.papers(), duplicates: merger.stats() };
+};
@@ -0,0 +1,91 @@
+import { doiFromKey, doiKey, doiOnlyPaper, doiUrl, extractDoi } from '@/lib/doi';
+import { efetch, findPmidByDoi } from '@/lib/eutils';
+import { parsePubmedArticles, type PubmedArticleRecord, type PubmedReference } from '@/lib/pubmed-xml';
+import type { Paper, PaperAuthor } from '@/lib/types';
+
+// Paper metadata before it has been scored against a discussion
+export type PaperDetails = Omit<Paper, 'relevanceScore' | 'summary'>;
+
+// "Smith J" style name, matching the esummary author format
+export const formatAuthorName = (author: PaperAuthor) =>
+  author.collectiveName || [author.lastName, author.initials].filter(Boolean).join(' ');
+
+// Flatten structured abstract sections into readable text, keeping their labels
+const formatAbstract = (record: PubmedArticleRecord) =>
+  record.abstractSections
+    .map(section => section.label ? `${section.label}: ${section.text}` : section.text)
+    .join('\n');
+
+// References keep their PMID, or a "doi:" key when PubMed only knows the DOI
+const referenceKey = (reference: PubmedReference) => {
+  const doi = reference.doi || extractDoi(reference.citation);
+  return reference.pmid || (doi ? doiKey(doi) : null);
+};
+
+export const articleToPaper = (record: PubmedArticleRecord): PaperDetails => {
+  const authors = record.authors.map(formatAuthorName).filter(Boolean);
+  const referenceCitations = Object.fromEntries(record.references
+    .filter(reference => !reference.pmid && reference.citation && referenceKey(reference))
+    .map(reference => [referenceKey(reference), reference.citation]));
+
+  return {
+    id: record.pmid,
+    pmid: record.pmid,
+    title: record.title || 'No title available',
+    authors: authors.length > 0 ? authors.join(', ') : 'Unknown authors',
+    journal: record.journal.title || record.journal.isoAbbreviation || 'Unknown journal',
+    year: record.year || 'Unknown year',
+    abstract: formatAbstract(record) || 'No abstract available',
+    pubDate: record.pubDate || 'Unknown date',
+    doi: record.doi,
+    url: record.doi ? doiUrl(record.doi) : `https://pubmed.ncbi.nlm.nih.gov/${record.pmid}/`,
+    references: [...new Set(record.references
+      .map(referenceKey)
+      .filter((key): key is string => !!key))],
+    referenceCitations: Object.keys(referenceCitations).length > 0 ? referenceCitations : undefined,
+    source: 'pubmed',
+    abstractSections: record.abstractSections,
+    authorList: record.authors,
+    meshTerms: record.meshHeadings,
+    keywords: record.keywords,
+    publicationTypes: record.publicationTypes,
+    grants: record.grants,
+    journalAbbreviation: record.journal.isoAbbreviation,
+    volume: record.journal.volume,
+    issue: record.journal.issue,
+    pages: record.pages,
+    language: record.language,
+    pmcid: record.pmcid
+  };
+};
+
+// Load PubMed records for the given PMIDs
+export const fetchPaperDetails = async (ids: string[]): Promise<PaperDetails[]> => {
+  if (ids.length === 0) return [];
+  return parsePubmedArticles(await efetch(ids)).map(articleToPaper);
+};
+
+// Resolve a DOI through esearch [DOI], falling back to a DOI-only paper
+export const fetchPaperByDoi = async (doi: string, citation?: string): Promise<PaperDetails> => {
+  const pmid = await findPmidByDoi(doi);
+  const [record] = pmid ? await fetchPaperDetails([pmid]) : [];
+  return record || doiOnlyPaper(doi, citation);
+};
+
+// Load papers by PMID or "doi:" key, in the given order
+export const fetchPapersByKey = async (
+  keys: string[],
+  citations: Record<string, string> = {}
+): Promise<PaperDetails[]> => {
+  const pmidPapers = await fetchPaperDetails(keys.filter(key => !doiFromKey(key)));
+  const byKey = new Map(pmidPapers.map(paper => [paper.pmid, paper]));
+
+  for (const key of keys) {
+    const doi = doiFromKey(key);
+    if (doi) {
+      byKey.set(key, await fetchPaperByDoi(doi, citations[key]));
+    }
+  }
+
+  return keys.map(key => byKey.get(key)).filter((paper): paper is PaperDetails => !!paper);
+};
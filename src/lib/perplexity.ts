@@ -0,0 +1,61 @@
+import { cached } from '@/lib/response-cache';
+
+const PERPLEXITY_API_KEY = process.env.PERPLEXITY_API_KEY;
+const PERPLEXITY_MODEL = "sonar-deep-research";
+
+export interface PerplexityResponse {
+  choices?: Array<{ message: { content: string } }>;
+  citations?: string[];
+}
+
+export const isPerplexityConfigured = () => !!PERPLEXITY_API_KEY;
+
+const requestPerplexity = async (textContent: string): Promise<PerplexityResponse> => {
+  const options = {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${PERPLEXITY_API_KEY}`,
+      'Content-Type': 'application/json'
+    },
+    // API 요청 본문 수정
+    body: JSON.stringify({
+      model: PERPLEXITY_MODEL,
+      messages: [
+        {
+          role: "system",
+          content: "You are a helpful AI research assistant that specializes in finding academic papers and their identifiers."
+        },
+        {
+          role: "user",
+          content: `${textContent}\n\n해당 논문의 pubmed id 알려줘`
+        }
+      ],
+      max_tokens: 500,
+      temperature: 0.1,
+      top_p: 0.9
+    })
+  };
+
+  const response = await fetch('https://api.perplexity.ai/chat/completions', options);
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error('Perplexity API error response:', errorText);
+    throw new Error(`Perplexity API request failed with status ${response.status}`);
+  }
+
+  return response.json();
+};
+
+// Answers are cached per model and text
+export const askPerplexity = async (textContent: string): Promise<PerplexityResponse> => {
+  if (!PERPLEXITY_API_KEY) {
+    throw new Error('Perplexity API key is not configured');
+  }
+
+  return cached('perplexity', { model: PERPLEXITY_MODEL, textContent }, () => requestPerplexity(textContent));
+};
+
+// The answer text of a chat completion, empty when there is none
+export const answerText = (response: PerplexityResponse) =>
+  response.choices?.[0]?.message.content.trim() || '';
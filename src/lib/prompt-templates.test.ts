@@ -0,0 +1,90 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, describe, expect, it, vi } from 'vitest';
+
+// DATA_DIR is read when the store module loads
+const dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'prompt-templates-'));
+vi.stubEnv('DATA_DIR', dataDir);
+
+const { DEFAULT_PROMPTS } = await import('@/lib/prompts');
+const {
+  addPromptTemplateVersion,
+  createPromptTemplate,
+  deletePromptTemplate,
+  listPromptTemplates,
+  pinPrompts,
+  resolvePrompts
+} = await import('@/lib/prompt-templates');
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  await fs.rm(dataDir, { recursive: true, force: true });
+});
+
+describe('prompt templates', () => {
+  it('list the built-in templates before the user-defined ones', async () => {
+    const template = await createPromptTemplate({ name: 'Trials', task: 'searchTerms', instructions: 'v1' });
+
+    const ids = (await listPromptTemplates()).map(t => t.id);
+    expect(ids.slice(0, 3)).toEqual(['builtin-searchTerms', 'builtin-scoring', 'builtin-summarisation']);
+    expect(ids[ids.length - 1]).toBe(template.id);
+  });
+
+  it('add a version only when the instructions change', async () => {
+    const template = await createPromptTemplate({ name: 'Strict', task: 'scoring', instructions: 'v1' });
+
+    await addPromptTemplateVersion(template.id, { instructions: 'v1', name: 'Renamed' });
+    const updated = await addPromptTemplateVersion(template.id, { instructions: 'v2' });
+
+    expect(updated?.name).toBe('Renamed');
+    expect(updated?.versions.map(v => [v.version, v.instructions])).toEqual([[1, 'v1'], [2, 'v2']]);
+    expect(await addPromptTemplateVersion('missing', { instructions: 'v1' })).toBeNull();
+  });
+
+  it('resolve the latest or a pinned version, and the built-in ones for other tasks', async () => {
+    const template = await createPromptTemplate({ name: 'Strict', task: 'scoring', instructions: 'v1' });
+    await addPromptTemplateVersion(template.id, { instructions: 'v2' });
+
+    const latest = await resolvePrompts({ scoring: { templateId: template.id } });
+    const pinned = await resolvePrompts({ scoring: { templateId: template.id, version: 1 } });
+
+    expect(latest).toEqual({
+      prompts: {
+        searchTerms: DEFAULT_PROMPTS.searchTerms,
+        scoring: { templateId: template.id, name: 'Strict', version: 2, instructions: 'v2' },
+        summarisation: DEFAULT_PROMPTS.summarisation
+      }
+    });
+    expect('prompts' in pinned && pinned.prompts.scoring.instructions).toBe('v1');
+    expect('prompts' in latest && pinPrompts(latest.prompts)).toEqual({
+      searchTerms: { templateId: 'builtin-searchTerms', version: 1 },
+      scoring: { templateId: template.id, version: 2 },
+      summarisation: { templateId: 'builtin-summarisation', version: 1 }
+    });
+  });
+
+  it('report unknown templates, unknown versions and templates of another task', async () => {
+    const template = await createPromptTemplate({ name: 'Strict', task: 'scoring', instructions: 'v1' });
+
+    expect(await resolvePrompts({
+      searchTerms: { templateId: template.id },
+      scoring: { templateId: template.id, version: 9 },
+      summarisation: { templateId: 'missing' }
+    }, 'prompts')).toEqual({
+      fields: [
+        { field: 'prompts.searchTerms.templateId', message: 'is not a searchTerms template' },
+        { field: 'prompts.scoring.version', message: 'was not found' },
+        { field: 'prompts.summarisation.templateId', message: 'was not found' }
+      ]
+    });
+  });
+
+  it('stop resolving deleted templates', async () => {
+    const template = await createPromptTemplate({ name: 'Short', task: 'summarisation', instructions: 'v1' });
+
+    expect(await deletePromptTemplate(template.id)).toBe(true);
+    expect(await deletePromptTemplate(template.id)).toBe(false);
+    expect(await resolvePrompts({ summarisation: { templateId: template.id } })).toHaveProperty('fields');
+  });
+});
@@ -0,0 +1,110 @@
+import { randomUUID } from 'crypto';
+import type { FieldError, PromptTemplateInput, PromptTemplateUpdate } from '@/lib/api-contracts';
+import { createJsonStore } from '@/lib/json-store';
+import { BUILT_IN_TEMPLATES, DEFAULT_PROMPTS } from '@/lib/prompts';
+import {
+  PROMPT_TASKS,
+  type PromptRef,
+  type PromptTask,
+  type PromptSelection,
+  type PromptTemplate,
+  type ResolvedPrompt,
+  type ResolvedPrompts
+} from '@/lib/types';
+
+// User-defined prompt templates; the built-in ones live in code and are listed first
+const store = createJsonStore<{ templates: PromptTemplate[] }>('prompt-templates.json', () => ({ templates: [] }));
+
+const now = () => new Date().toISOString();
+
+const latestVersion = (template: PromptTemplate) => template.versions[template.versions.length - 1];
+
+export const listPromptTemplates = async (): Promise<PromptTemplate[]> => {
+  const data = await store.read();
+  return [...BUILT_IN_TEMPLATES, ...data.templates];
+};
+
+export const getPromptTemplate = async (id: string): Promise<PromptTemplate | null> =>
+  (await listPromptTemplates()).find(template => template.id === id) || null;
+
+export const createPromptTemplate = ({ name, task, description, instructions }: PromptTemplateInput) =>
+  store.update(data => {
+    const template: PromptTemplate = {
+      id: randomUUID(),
+      name,
+      task,
+      description,
+      versions: [{ version: 1, instructions, createdAt: now() }],
+      createdAt: now(),
+      updatedAt: now()
+    };
+    data.templates.push(template);
+    return template;
+  });
+
+// Save new instructions as the next version; earlier versions stay available to recorded searches
+export const addPromptTemplateVersion = (id: string, { instructions, name, description }: PromptTemplateUpdate) =>
+  store.update(data => {
+    const template = data.templates.find(t => t.id === id);
+    if (!template) return null;
+
+    if (instructions !== latestVersion(template).instructions) {
+      template.versions.push({ version: latestVersion(template).version + 1, instructions, createdAt: now() });
+    }
+    if (name !== undefined) template.name = name;
+    if (description !== undefined) template.description = description;
+    template.updatedAt = now();
+    return template;
+  });
+
+// Searches that used a deleted template keep their copy of its instructions
+export const deletePromptTemplate = (id: string) =>
+  store.update(data => {
+    const before = data.templates.length;
+    data.templates = data.templates.filter(t => t.id !== id);
+    return data.templates.length < before;
+  });
+
+export const isBuiltInTemplate = (id: string) => BUILT_IN_TEMPLATES.some(template => template.id === id);
+
+// Turn a selection into the exact instructions to use: tasks without a template get the built-in
+// one and references without a version get the latest. Unknown templates or versions and
+// templates chosen for the wrong task are reported as field errors.
+export const resolvePrompts = async (
+  selection: PromptSelection = {},
+  fieldPrefix = 'config.prompts'
+): Promise<{ prompts: ResolvedPrompts } | { fields: FieldError[] }> => {
+  const templates = await listPromptTemplates();
+  const fields: FieldError[] = [];
+
+  const resolve = (task: PromptTask, ref: PromptRef | undefined): ResolvedPrompt => {
+    if (!ref) return DEFAULT_PROMPTS[task];
+
+    const field = `${fieldPrefix}.${task}`;
+    const template = templates.find(t => t.id === ref.templateId);
+    if (!template || template.task !== task) {
+      fields.push({ field: `${field}.templateId`, message: template ? `is not a ${task} template` : 'was not found' });
+      return DEFAULT_PROMPTS[task];
+    }
+
+    const version = ref.version === undefined
+      ? latestVersion(template)
+      : template.versions.find(v => v.version === ref.version);
+    if (!version) {
+      fields.push({ field: `${field}.version`, message: 'was not found' });
+      return DEFAULT_PROMPTS[task];
+    }
+
+    return { templateId: template.id, name: template.name, version: version.version, instructions: version.instructions };
+  };
+
+  const prompts = Object.fromEntries(PROMPT_TASKS.map(task => [task, resolve(task, selection[task])])) as ResolvedPrompts;
+  return fields.length > 0 ? { fields } : { prompts };
+};
+
+// The selection pinned to the versions a search resolved, as recorded in its config
+export const pinPrompts = (prompts: ResolvedPrompts): PromptSelection =>
+  Object.fromEntries(PROMPT_TASKS.map(task => [task, {
+    templateId: prompts[task].templateId,
+    version: prompts[task].version
+  }]));
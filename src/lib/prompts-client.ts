@@ -0,0 +1,39 @@
+// Browser-side helpers for the /api/prompts routes
+import type {
+  PromptTemplateInput,
+  PromptTemplateResponse,
+  PromptTemplatesResponse,
+  PromptTemplateUpdate
+} from '@/lib/api-contracts';
+
+const request = async <T>(url: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers }
+  });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || `Prompt template request failed with status ${response.status}`);
+  }
+
+  return response.json();
+};
+
+export const fetchPromptTemplates = async () =>
+  (await request<PromptTemplatesResponse>('/api/prompts')).templates;
+
+export const createPromptTemplate = async (input: PromptTemplateInput) =>
+  (await request<PromptTemplateResponse>('/api/prompts', {
+    method: 'POST',
+    body: JSON.stringify(input)
+  })).template;
+
+export const savePromptTemplate = async (id: string, update: PromptTemplateUpdate) =>
+  (await request<PromptTemplateResponse>(`/api/prompts/${id}`, {
+    method: 'PUT',
+    body: JSON.stringify(update)
+  })).template;
+
+export const deletePromptTemplate = (id: string) =>
+  request<{ deleted: boolean }>(`/api/prompts/${id}`, { method: 'DELETE' });
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import type { PaperDetails } from '@/lib/papers';
+import { DEFAULT_PROMPTS, scoringPrompt, searchTermsPrompt, withPrompts } from '@/lib/prompts';
+import type { ResolvedPrompts } from '@/lib/types';
+
+const paper = (changes: Partial<PaperDetails>): PaperDetails => ({
+  id: '123',
+  pmid: '123',
+  title: 'Gut microbiome and obesity',
+  authors: 'Smith J',
+  journal: 'Nature',
+  year: '2020',
+  abstract: 'An abstract.',
+  pubDate: '2020',
+  ...changes
+});
+
+const customPrompts: ResolvedPrompts = {
+  searchTerms: { templateId: 't1', name: 'Trials', version: 2, instructions: 'Only clinical trial terms.' },
+  scoring: { templateId: 't2', name: 'Strict', version: 1, instructions: 'Penalise reviews.' },
+  summarisation: { templateId: 't3', name: 'Short', version: 3, instructions: 'One line per paper.' }
+};
+
+describe('searchTermsPrompt', () => {
+  it('uses the built-in instructions outside a search', () => {
+    const prompt = searchTermsPrompt('gut microbiome in obesity');
+
+    expect(prompt.startsWith(DEFAULT_PROMPTS.searchTerms.instructions)).toBe(true);
+    expect(prompt).toContain('Return only the search terms, one per line');
+    expect(prompt.endsWith('gut microbiome in obesity')).toBe(true);
+  });
+
+  it('uses the instructions of the search it runs in', async () => {
+    const prompt = await withPrompts(customPrompts, async () => searchTermsPrompt('text'));
+
+    expect(prompt.startsWith('Only clinical trial terms.')).toBe(true);
+    expect(prompt).not.toContain(DEFAULT_PROMPTS.searchTerms.instructions);
+  });
+});
+
+describe('scoringPrompt', () => {
+  it('lists each paper under its key, DOI-only papers included', () => {
+    const prompt = scoringPrompt(
+      [paper({}), paper({ id: 'doi:10.1/x', pmid: '', doi: '10.1/X', title: 'DOI only' })],
+      'discussion'
+    );
+
+    expect(prompt).toContain('Discussion content:\ndiscussion');
+    expect(prompt).toContain('[123]\nTitle: Gut microbiome and obesity\nAbstract: An abstract.');
+    expect(prompt).toContain('[doi:10.1/x]\nTitle: DOI only');
+  });
+
+  it('keeps the answer format when the templates are replaced', async () => {
+    const prompt = await withPrompts(customPrompts, async () => scoringPrompt([paper({})], 'discussion'));
+
+    expect(prompt.startsWith('Penalise reviews.')).toBe(true);
+    expect(prompt).toContain('Summary instructions:\nOne line per paper.');
+    expect(prompt).toContain('Respond with a JSON array containing one object per paper');
+    expect(prompt).toContain('"relevanceScore": <integer between 1 and 10>');
+  });
+});
@@ -0,0 +1,82 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { paperKey } from '@/lib/paper-identity';
+import type { PaperDetails } from '@/lib/papers';
+import { PROMPT_TASKS, type PromptTask, type PromptTemplate, type ResolvedPrompts } from '@/lib/types';
+
+// Prompts sent to the language model. The instructions come from the prompt templates chosen
+// for the search (see prompt-templates.ts); the data and the expected answer format are added
+// here, so an edited template can't break the parsing in analysis.ts.
+
+const DEFAULT_INSTRUCTIONS: Record<PromptTask, string> = {
+  searchTerms: `You are a scientific research assistant tasked with generating detailed PubMed search terms.
+
+Given the following research discussion, generate 8-12 diverse and specific PubMed search terms.
+Include both specific concepts and broader related areas. Include terms for:
+1. Main concepts directly mentioned
+2. Related biological mechanisms or pathways
+3. Key techniques or methodologies relevant to this research
+4. Potential applications or clinical relevance
+5. Consider including 1-2 authors if any prominent researchers are known in this field
+
+Format each search term for optimal PubMed results using appropriate search operators.`,
+  scoring: 'Task: Analyze the relevance of each research paper below to the given discussion content.',
+  summarisation: 'Summarise each paper in three lines: its main finding, its method, and how it relates to the discussion.'
+};
+
+const BUILT_IN_CREATED_AT = '2025-01-01T00:00:00.000Z';
+
+export const BUILT_IN_TEMPLATES: PromptTemplate[] = PROMPT_TASKS.map(task => ({
+  id: `builtin-${task}`,
+  name: 'Default',
+  task,
+  description: 'Built-in instructions',
+  builtIn: true,
+  versions: [{ version: 1, instructions: DEFAULT_INSTRUCTIONS[task], createdAt: BUILT_IN_CREATED_AT }],
+  createdAt: BUILT_IN_CREATED_AT,
+  updatedAt: BUILT_IN_CREATED_AT
+}));
+
+export const DEFAULT_PROMPTS = Object.fromEntries(BUILT_IN_TEMPLATES.map(template => [template.task, {
+  templateId: template.id,
+  name: template.name,
+  version: 1,
+  instructions: template.versions[0].instructions
+}])) as ResolvedPrompts;
+
+// Prompts of the search (or citation page) being handled
+const activeScope = new AsyncLocalStorage<ResolvedPrompts>();
+
+export const withPrompts = <T>(prompts: ResolvedPrompts, work: () => Promise<T>): Promise<T> =>
+  activeScope.run(prompts, work);
+
+const activePrompts = () => activeScope.getStore() || DEFAULT_PROMPTS;
+
+// Answer: one PubMed search term per line
+export const searchTermsPrompt = (discussionText: string) => `${activePrompts().searchTerms.instructions}
+Return only the search terms, one per line, with no additional text:
+
+${discussionText}`;
+
+// Answer: a JSON array with one { pmid, relevanceScore, summary } object per paper
+export const scoringPrompt = (papers: PaperDetails[], discussionContent: string) => {
+  const { scoring, summarisation } = activePrompts();
+  return `${scoring.instructions}
+
+Discussion content:
+${discussionContent}
+
+Papers:
+${papers.map(paper => `[${paperKey(paper)}]\nTitle: ${paper.title}\nAbstract: ${paper.abstract}`).join('\n\n')}
+
+Summary instructions:
+${summarisation.instructions}
+
+Respond with a JSON array containing one object per paper, in this exact format (and nothing else):
+[
+  {
+    "pmid": "<the PMID in square brackets above the paper>",
+    "relevanceScore": <integer between 1 and 10>,
+    "summary": "<the summary described above, with each line separated by \\n>"
+  }
+]`;
+};
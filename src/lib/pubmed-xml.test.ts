@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest';
+import { parsePubmedArticles, parseXml, textContent } from '@/lib/pubmed-xml';
+
+const article = (body: string, pubmedData = '') => `<?xml version="1.0"?>
+<!DOCTYPE PubmedArticleSet>
+<PubmedArticleSet>
+  <PubmedArticle>
+    <MedlineCitation Status="MEDLINE">
+      <PMID Version="1">12345</PMID>
+      <Article>
+        ${body}
+      </Article>
+      <MeshHeadingList>
+        <MeshHeading>
+          <DescriptorName UI="D009765" MajorTopicYN="Y">Obesity</DescriptorName>
+          <QualifierName UI="Q000503" MajorTopicYN="N">physiopathology</QualifierName>
+        </MeshHeading>
+      </MeshHeadingList>
+      <KeywordList><Keyword>microbiome</Keyword><Keyword> </Keyword></KeywordList>
+    </MedlineCitation>
+    <PubmedData>${pubmedData}</PubmedData>
+  </PubmedArticle>
+</PubmedArticleSet>`;
+
+describe('parseXml', () => {
+  it('decodes entities and keeps CDATA and mixed content', () => {
+    const root = parseXml('<a title="x &amp; y">1 &lt; 2 &#x3B1;&#946; <i>in</i> vivo<![CDATA[ <raw> ]]></a>');
+    const [a] = root.children;
+
+    expect(a.attributes.title).toBe('x & y');
+    expect(textContent(a)).toBe('1 < 2 αβ in vivo <raw> ');
+  });
+
+  it('tolerates unbalanced closing tags', () => {
+    const root = parseXml('<a><b>one</c></b><d/></a>');
+
+    expect(root.children[0].children.map(child => child.name)).toEqual(['b', 'd']);
+  });
+});
+
+describe('parsePubmedArticles', () => {
+  it('reads the citation fields of an article', () => {
+    const [record] = parsePubmedArticles(article(`
+        <Journal>
+          <ISSN IssnType="Electronic">1476-4687</ISSN>
+          <JournalIssue><Volume>580</Volume><Issue>7</Issue><PubDate><Year>2020</Year><Month>Mar</Month></PubDate></JournalIssue>
+          <Title>Nature</Title>
+          <ISOAbbreviation>Nature</ISOAbbreviation>
+        </Journal>
+        <ArticleTitle>Gut <i>microbiome</i> and obesity.</ArticleTitle>
+        <Pagination><MedlinePgn>100-5</MedlinePgn></Pagination>
+        <ELocationID EIdType="doi">10.1000/eloc</ELocationID>
+        <Abstract>
+          <AbstractText Label="BACKGROUND" NlmCategory="BACKGROUND">Some background.</AbstractText>
+          <AbstractText Label="EMPTY"> </AbstractText>
+        </Abstract>
+        <AuthorList>
+          <Author ValidYN="Y">
+            <LastName>Smith</LastName><ForeName>Jane</ForeName><Initials>J</Initials>
+            <Identifier Source="ORCID">https://orcid.org/0000-0001-2345-6789</Identifier>
+            <AffiliationInfo><Affiliation>University A</Affiliation></AffiliationInfo>
+          </Author>
+          <Author ValidYN="N"><LastName>Removed</LastName></Author>
+          <Author><CollectiveName>Obesity Study Group</CollectiveName></Author>
+        </AuthorList>
+        <Language>eng</Language>
+        <GrantList><Grant><GrantID>R01</GrantID><Agency>NIH</Agency><Country>United States</Country></Grant></GrantList>
+        <PublicationTypeList><PublicationType UI="D016428">Journal Article</PublicationType></PublicationTypeList>
+    `, `
+      <ArticleIdList>
+        <ArticleId IdType="pubmed">12345</ArticleId>
+        <ArticleId IdType="doi">10.1000/xyz</ArticleId>
+        <ArticleId IdType="pmc">PMC111</ArticleId>
+      </ArticleIdList>
+      <ReferenceList>
+        <Reference>
+          <Citation>Doe J. Earlier work. 2010.</Citation>
+          <ArticleIdList><ArticleId IdType="pubmed">999</ArticleId></ArticleIdList>
+        </Reference>
+      </ReferenceList>
+    `));
+
+    expect(record).toMatchObject({
+      pmid: '12345',
+      title: 'Gut microbiome and obesity.',
+      abstractSections: [{ label: 'BACKGROUND', category: 'BACKGROUND', text: 'Some background.' }],
+      journal: { title: 'Nature', isoAbbreviation: 'Nature', issn: '1476-4687', volume: '580', issue: '7' },
+      pages: '100-5',
+      pubDate: '2020 Mar',
+      year: '2020',
+      keywords: ['microbiome'],
+      publicationTypes: ['Journal Article'],
+      grants: [{ grantId: 'R01', agency: 'NIH', country: 'United States' }],
+      language: 'eng',
+      doi: '10.1000/xyz',
+      pmcid: 'PMC111',
+      references: [{ citation: 'Doe J. Earlier work. 2010.', pmid: '999', doi: undefined }]
+    });
+    expect(record.authors).toEqual([
+      {
+        lastName: 'Smith',
+        foreName: 'Jane',
+        initials: 'J',
+        collectiveName: undefined,
+        orcid: '0000-0001-2345-6789',
+        affiliations: ['University A']
+      },
+      expect.objectContaining({ collectiveName: 'Obesity Study Group', affiliations: [] })
+    ]);
+    expect(record.meshHeadings).toEqual([{
+      descriptor: 'Obesity',
+      descriptorUi: 'D009765',
+      majorTopic: true,
+      qualifiers: [{ name: 'physiopathology', majorTopic: false }]
+    }]);
+  });
+
+  it('takes the year of a MedlineDate and the DOI of an ELocationID', () => {
+    const [record] = parsePubmedArticles(article(`
+        <Journal><JournalIssue><PubDate><MedlineDate>2019 Nov-Dec</MedlineDate></PubDate></JournalIssue></Journal>
+        <ArticleTitle>Title</ArticleTitle>
+        <ELocationID EIdType="pii">S0001</ELocationID>
+        <ELocationID EIdType="doi">10.1000/eloc</ELocationID>
+    `));
+
+    expect(record.pubDate).toBe('2019 Nov-Dec');
+    expect(record.year).toBe('2019');
+    expect(record.doi).toBe('10.1000/eloc');
+  });
+
+  it('falls back to the ArticleDate when the issue has no year', () => {
+    const [record] = parsePubmedArticles(article(`
+        <Journal><JournalIssue><PubDate><Season>Spring</Season></PubDate></JournalIssue></Journal>
+        <ArticleTitle>Title</ArticleTitle>
+        <ArticleDate DateType="Electronic"><Year>2021</Year><Month>05</Month><Day>03</Day></ArticleDate>
+    `));
+
+    expect(record.pubDate).toBe('2021 05 03');
+    expect(record.year).toBe('2021');
+  });
+
+  it('skips articles without a PMID and returns nothing for an empty response', () => {
+    const xml = article('<ArticleTitle>Title</ArticleTitle>').replace('<PMID Version="1">12345</PMID>', '');
+
+    expect(parsePubmedArticles(xml)).toEqual([]);
+    expect(parsePubmedArticles('')).toEqual([]);
+  });
+});
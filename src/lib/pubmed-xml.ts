@@ -0,0 +1,324 @@
+// Lightweight XML reader and typed parser for PubMed efetch responses.
+// DOMParser is only available in the browser, so this works on plain strings and runs anywhere.
+import type { AbstractSection, GrantInfo, MeshHeading, PaperAuthor } from '@/lib/types';
+
+export interface XmlNode {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlNode[];
+  text: string;
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'"
+};
+
+const decodeEntities = (value: string) =>
+  value.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      return Number.isNaN(code) ? match : String.fromCodePoint(code);
+    }
+    return ENTITIES[entity] ?? match;
+  });
+
+const parseAttributes = (source: string) => {
+  const attributes: Record<string, string> = {};
+  const attributePattern = /([\w:.-]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+  let match;
+  while ((match = attributePattern.exec(source)) !== null) {
+    attributes[match[1]] = decodeEntities(match[3] ?? match[4] ?? '');
+  }
+  return attributes;
+};
+
+// Parse an XML document into a tree. Text is stored on the element it appears in,
+// mixed content (e.g. <i> inside AbstractText) is kept as child elements.
+export const parseXml = (xml: string): XmlNode => {
+  const root: XmlNode = { name: '#document', attributes: {}, children: [], text: '' };
+  const stack: XmlNode[] = [root];
+  const tokenPattern = /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<![^>]*>|<\?[\s\S]*?\?>|<\/([\w:.-]+)\s*>|<([\w:.-]+)((?:\s+[^\s=>/]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)/g;
+  let match;
+
+  while ((match = tokenPattern.exec(xml)) !== null) {
+    const current = stack[stack.length - 1];
+    const [, cdata, closingName, openingName, attributeSource, selfClosing, text] = match;
+
+    if (cdata !== undefined) {
+      current.children.push({ name: '#text', attributes: {}, children: [], text: cdata });
+    } else if (closingName) {
+      // Pop back to the matching element, tolerating unbalanced markup
+      for (let i = stack.length - 1; i > 0; i--) {
+        if (stack[i].name === closingName) {
+          stack.length = i;
+          break;
+        }
+      }
+    } else if (openingName) {
+      const node: XmlNode = {
+        name: openingName,
+        attributes: parseAttributes(attributeSource || ''),
+        children: [],
+        text: ''
+      };
+      current.children.push(node);
+      if (!selfClosing) {
+        stack.push(node);
+      }
+    } else if (text !== undefined && !/^\s*\n\s*$/.test(text)) {
+      // Whitespace-only text is kept unless it is just indentation between elements
+      current.children.push({ name: '#text', attributes: {}, children: [], text: decodeEntities(text) });
+    }
+  }
+
+  return root;
+};
+
+// Equivalent of Element.textContent
+export const textContent = (node: XmlNode | undefined): string => {
+  if (!node) return '';
+  if (node.name === '#text') return node.text;
+  return node.children.map(textContent).join('');
+};
+
+export const childElements = (node: XmlNode, name?: string) =>
+  node.children.filter(child => child.name !== '#text' && (!name || child.name === name));
+
+// Depth-first search for all descendants with the given tag name
+export const findAll = (node: XmlNode, name: string, results: XmlNode[] = []): XmlNode[] => {
+  for (const child of node.children) {
+    if (child.name === name) {
+      results.push(child);
+    }
+    if (child.children.length > 0) {
+      findAll(child, name, results);
+    }
+  }
+  return results;
+};
+
+export const findFirst = (node: XmlNode, name: string): XmlNode | undefined => {
+  for (const child of node.children) {
+    if (child.name === name) {
+      return child;
+    }
+    const nested = findFirst(child, name);
+    if (nested) {
+      return nested;
+    }
+  }
+  return undefined;
+};
+
+export interface PubmedReference {
+  citation?: string;
+  pmid?: string;
+  doi?: string;
+}
+
+export interface PubmedArticleRecord {
+  pmid: string;
+  title: string;
+  abstractSections: AbstractSection[];
+  journal: {
+    title?: string;
+    isoAbbreviation?: string;
+    issn?: string;
+    volume?: string;
+    issue?: string;
+  };
+  pages?: string;
+  pubDate?: string;
+  year?: string;
+  authors: PaperAuthor[];
+  meshHeadings: MeshHeading[];
+  keywords: string[];
+  publicationTypes: string[];
+  grants: GrantInfo[];
+  language?: string;
+  doi?: string;
+  pmcid?: string;
+  references: PubmedReference[];
+}
+
+const childText = (node: XmlNode | undefined, name: string) => {
+  const child = node && childElements(node, name)[0];
+  return child ? textContent(child).trim() || undefined : undefined;
+};
+
+const isYes = (value: string | undefined) => value === 'Y';
+
+const normalizeOrcid = (value: string) =>
+  value.replace(/^https?:\/\/orcid\.org\//i, '').trim();
+
+const parseAbstract = (article: XmlNode): AbstractSection[] => {
+  const abstractElement = childElements(article, 'Abstract')[0];
+  if (!abstractElement) return [];
+
+  return childElements(abstractElement, 'AbstractText')
+    .map(section => ({
+      label: section.attributes.Label || undefined,
+      category: section.attributes.NlmCategory || undefined,
+      text: textContent(section).trim()
+    }))
+    .filter(section => section.text !== '');
+};
+
+const parseAuthors = (article: XmlNode): PaperAuthor[] => {
+  const authorList = childElements(article, 'AuthorList')[0];
+  if (!authorList) return [];
+
+  return childElements(authorList, 'Author')
+    .filter(author => author.attributes.ValidYN !== 'N')
+    .map(author => {
+      const orcid = childElements(author, 'Identifier').find(id => id.attributes.Source === 'ORCID');
+      return {
+        lastName: childText(author, 'LastName'),
+        foreName: childText(author, 'ForeName'),
+        initials: childText(author, 'Initials'),
+        collectiveName: childText(author, 'CollectiveName'),
+        orcid: orcid ? normalizeOrcid(textContent(orcid)) : undefined,
+        affiliations: childElements(author, 'AffiliationInfo')
+          .map(info => childText(info, 'Affiliation'))
+          .filter((affiliation): affiliation is string => !!affiliation)
+      };
+    });
+};
+
+const parseMeshHeadings = (citation: XmlNode): MeshHeading[] => {
+  const headingList = childElements(citation, 'MeshHeadingList')[0];
+  if (!headingList) return [];
+
+  return childElements(headingList, 'MeshHeading').flatMap(heading => {
+    const descriptor = childElements(heading, 'DescriptorName')[0];
+    if (!descriptor) return [];
+
+    return [{
+      descriptor: textContent(descriptor).trim(),
+      descriptorUi: descriptor.attributes.UI || undefined,
+      majorTopic: isYes(descriptor.attributes.MajorTopicYN),
+      qualifiers: childElements(heading, 'QualifierName').map(qualifier => ({
+        name: textContent(qualifier).trim(),
+        majorTopic: isYes(qualifier.attributes.MajorTopicYN)
+      }))
+    }];
+  });
+};
+
+const parseGrants = (article: XmlNode): GrantInfo[] => {
+  const grantList = childElements(article, 'GrantList')[0];
+  if (!grantList) return [];
+
+  return childElements(grantList, 'Grant').map(grant => ({
+    grantId: childText(grant, 'GrantID'),
+    agency: childText(grant, 'Agency'),
+    country: childText(grant, 'Country')
+  }));
+};
+
+// PubDate is either Year/Month/Day or a free-text MedlineDate such as "2019 Nov-Dec"
+const parsePubDate = (article: XmlNode) => {
+  const journalIssue = findFirst(article, 'JournalIssue');
+  const pubDate = journalIssue && childElements(journalIssue, 'PubDate')[0];
+  const articleDate = childElements(article, 'ArticleDate')[0];
+
+  const medlineDate = childText(pubDate, 'MedlineDate');
+  if (medlineDate) {
+    return { pubDate: medlineDate, year: medlineDate.match(/\d{4}/)?.[0] };
+  }
+
+  const dateNode = childText(pubDate, 'Year') ? pubDate : articleDate;
+  const year = childText(dateNode, 'Year');
+  const parts = [year, childText(dateNode, 'Month'), childText(dateNode, 'Day')].filter(Boolean);
+  return { pubDate: parts.length > 0 ? parts.join(' ') : undefined, year };
+};
+
+const parseArticleIds = (node: XmlNode | undefined) => {
+  const ids: Record<string, string> = {};
+  const idList = node && childElements(node, 'ArticleIdList')[0];
+  if (!idList) return ids;
+
+  for (const id of childElements(idList, 'ArticleId')) {
+    const type = id.attributes.IdType;
+    const value = textContent(id).trim();
+    if (type && value && !ids[type]) {
+      ids[type] = value;
+    }
+  }
+  return ids;
+};
+
+const parseReferences = (pubmedData: XmlNode | undefined): PubmedReference[] => {
+  if (!pubmedData) return [];
+
+  return childElements(pubmedData, 'ReferenceList')
+    .flatMap(list => findAll(list, 'Reference'))
+    .map(reference => {
+      const ids = parseArticleIds(reference);
+      return {
+        citation: childText(reference, 'Citation'),
+        pmid: ids.pubmed,
+        doi: ids.doi
+      };
+    });
+};
+
+const parseArticle = (pubmedArticle: XmlNode): PubmedArticleRecord | null => {
+  const citation = childElements(pubmedArticle, 'MedlineCitation')[0];
+  const article = citation && childElements(citation, 'Article')[0];
+  const pmid = childText(citation, 'PMID');
+  if (!citation || !article || !pmid) return null;
+
+  const journal = childElements(article, 'Journal')[0];
+  const journalIssue = journal && childElements(journal, 'JournalIssue')[0];
+  const pubmedData = childElements(pubmedArticle, 'PubmedData')[0];
+  const articleIds = parseArticleIds(pubmedData);
+  const eLocationDoi = childElements(article, 'ELocationID')
+    .find(id => id.attributes.EIdType === 'doi');
+  const keywordLists = childElements(citation, 'KeywordList');
+  const publicationTypeList = childElements(article, 'PublicationTypeList')[0];
+
+  return {
+    pmid,
+    title: textContent(childElements(article, 'ArticleTitle')[0]).trim(),
+    abstractSections: parseAbstract(article),
+    journal: {
+      title: childText(journal, 'Title'),
+      isoAbbreviation: childText(journal, 'ISOAbbreviation')
+        || childText(childElements(citation, 'MedlineJournalInfo')[0], 'MedlineTA'),
+      issn: childText(journal, 'ISSN'),
+      volume: childText(journalIssue, 'Volume'),
+      issue: childText(journalIssue, 'Issue')
+    },
+    pages: childText(childElements(article, 'Pagination')[0], 'MedlinePgn'),
+    ...parsePubDate(article),
+    authors: parseAuthors(article),
+    meshHeadings: parseMeshHeadings(citation),
+    keywords: keywordLists.flatMap(list =>
+      childElements(list, 'Keyword').map(keyword => textContent(keyword).trim()).filter(Boolean)
+    ),
+    publicationTypes: publicationTypeList
+      ? childElements(publicationTypeList, 'PublicationType').map(type => textContent(type).trim())
+      : [],
+    grants: parseGrants(article),
+    language: childText(article, 'Language'),
+    doi: articleIds.doi || (eLocationDoi ? textContent(eLocationDoi).trim() : undefined),
+    pmcid: articleIds.pmc,
+    references: parseReferences(pubmedData)
+  };
+};
+
+// Parse every PubmedArticle in an efetch response, in document order
+export const parsePubmedArticles = (xml: string): PubmedArticleRecord[] => {
+  if (!xml) return [];
+
+  return findAll(parseXml(xml), 'PubmedArticle')
+    .map(parseArticle)
+    .filter((article): article is PubmedArticleRecord => article !== null);
+};
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyFilters,
+  compileClauses,
+  compileFilters,
+  EMPTY_QUERY_FILTERS,
+  hasQueryFilters,
+  QUERY_DATE_PATTERN
+} from '@/lib/query-builder';
+
+describe('compileClauses', () => {
+  it('tags each clause, quotes phrases and joins them with their operators', () => {
+    expect(compileClauses([
+      { field: 'titleAbstract', value: 'gut microbiome', operator: 'AND' },
+      { field: 'author', value: 'Smith J', operator: 'AND' },
+      { field: 'all', value: 'obesity', operator: 'OR' },
+      { field: 'journal', value: 'Nature', operator: 'NOT' }
+    ])).toBe('"gut microbiome"[tiab] AND "Smith J"[au] OR obesity NOT Nature[ta]');
+  });
+
+  it('ignores the operator of the first clause, empty clauses and quotes in values', () => {
+    expect(compileClauses([
+      { field: 'title', value: '  ', operator: 'AND' },
+      { field: 'title', value: '"insulin"', operator: 'NOT' },
+      { field: 'affiliation', value: 'Seoul', operator: 'AND' }
+    ])).toBe('insulin[ti] AND Seoul[ad]');
+    expect(compileClauses([])).toBe('');
+  });
+});
+
+describe('compileFilters', () => {
+  it('ANDs the filters, with alternatives of one filter ORed', () => {
+    expect(compileFilters({
+      ...EMPTY_QUERY_FILTERS,
+      dateFrom: '2015',
+      dateTo: '2020/06',
+      articleTypes: ['Review', 'Meta-Analysis'],
+      languages: ['english'],
+      species: 'humans',
+      freeFullText: true
+    })).toBe(
+      '("2015"[dp] : "2020/06"[dp]) AND ("Review"[pt] OR "Meta-Analysis"[pt]) AND english[la] AND humans[mh] AND free full text[sb]'
+    );
+  });
+
+  it('leaves an open end of the date range unbounded', () => {
+    expect(compileFilters({ ...EMPTY_QUERY_FILTERS, dateTo: '2010' })).toBe('("1800"[dp] : "2010"[dp])');
+    expect(compileFilters({ ...EMPTY_QUERY_FILTERS, species: 'animals' })).toBe('(animals[mh] NOT humans[mh])');
+  });
+});
+
+describe('applyFilters', () => {
+  it('restricts a term with the filters, or leaves it as it is without any', () => {
+    const filters = { ...EMPTY_QUERY_FILTERS, languages: ['english', 'korean'] };
+
+    expect(applyFilters('obesity OR adiposity', filters)).toBe('(obesity OR adiposity) AND (english[la] OR korean[la])');
+    expect(applyFilters('obesity', EMPTY_QUERY_FILTERS)).toBe('obesity');
+    expect(applyFilters('obesity')).toBe('obesity');
+  });
+
+  it('counts only filters that change the query', () => {
+    expect(hasQueryFilters(EMPTY_QUERY_FILTERS)).toBe(false);
+    expect(hasQueryFilters({ ...EMPTY_QUERY_FILTERS, clauses: [{ field: 'all', value: 'x', operator: 'AND' }] })).toBe(false);
+    expect(hasQueryFilters({ ...EMPTY_QUERY_FILTERS, freeFullText: true })).toBe(true);
+    expect(hasQueryFilters(undefined)).toBe(false);
+  });
+});
+
+describe('QUERY_DATE_PATTERN', () => {
+  it('accepts the date forms PubMed takes', () => {
+    expect(['2020', '2020/01', '2020/12/31'].every(date => QUERY_DATE_PATTERN.test(date))).toBe(true);
+    expect(['20', '2020-01', '2020/13', '2020/01/32'].some(date => QUERY_DATE_PATTERN.test(date))).toBe(false);
+  });
+});
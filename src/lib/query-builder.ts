@@ -0,0 +1,106 @@
+// Structured PubMed query: field clauses typed by the user plus filters (dates, article types,
+// languages, species, free full text) that restrict every PubMed search term. Compiles to
+// E-utilities query syntax; shared by the search pipeline, /api/pubmed and the search form.
+import type { QueryClause, QueryField, QueryFilters } from '@/lib/types';
+
+export const QUERY_FIELDS: Record<QueryField, { label: string; tag: string }> = {
+  all: { label: 'All fields', tag: '' },
+  titleAbstract: { label: 'Title/Abstract', tag: '[tiab]' },
+  title: { label: 'Title', tag: '[ti]' },
+  author: { label: 'Author', tag: '[au]' },
+  journal: { label: 'Journal', tag: '[ta]' },
+  mesh: { label: 'MeSH term', tag: '[mh]' },
+  affiliation: { label: 'Affiliation', tag: '[ad]' }
+};
+
+export const QUERY_OPERATORS = ['AND', 'OR', 'NOT'] as const;
+
+// Publication types as PubMed names them ([pt])
+export const ARTICLE_TYPES = [
+  'Clinical Trial',
+  'Randomized Controlled Trial',
+  'Meta-Analysis',
+  'Systematic Review',
+  'Review',
+  'Observational Study',
+  'Case Reports',
+  'Guideline'
+] as const;
+
+export const LANGUAGES = ['english', 'french', 'german', 'spanish', 'italian', 'chinese', 'japanese', 'korean'] as const;
+
+export const SPECIES = {
+  humans: { label: 'Humans', query: 'humans[mh]' },
+  animals: { label: 'Other animals', query: '(animals[mh] NOT humans[mh])' }
+} as const;
+
+// YYYY, YYYY/MM or YYYY/MM/DD, as PubMed's [dp] field takes them
+export const QUERY_DATE_PATTERN = /^\d{4}(\/(0[1-9]|1[0-2])(\/(0[1-9]|[12]\d|3[01]))?)?$/;
+
+export const EMPTY_QUERY_FILTERS: QueryFilters = {
+  clauses: [],
+  articleTypes: [],
+  languages: [],
+  freeFullText: false
+};
+
+// Quote multi-word values so the field tag applies to the whole phrase
+const quote = (value: string) => {
+  const cleaned = value.replace(/"/g, '').trim();
+  return /\s/.test(cleaned) ? `"${cleaned}"` : cleaned;
+};
+
+const either = (parts: string[]) => (parts.length > 1 ? `(${parts.join(' OR ')})` : parts[0]);
+
+// MeSH clauses search the narrower descriptors too unless explode is false
+const clauseTag = (clause: QueryClause) =>
+  clause.field === 'mesh' && clause.explode === false ? '[mh:noexp]' : QUERY_FIELDS[clause.field].tag;
+
+// The user's field clauses as one query, e.g. `"gut microbiome"[tiab] AND Smith J[au]`
+export const compileClauses = (clauses: QueryClause[]) =>
+  clauses
+    .filter(clause => clause.value.trim())
+    .reduce((query, clause) => {
+      const term = `${quote(clause.value)}${clauseTag(clause)}`;
+      return query ? `${query} ${clause.operator} ${term}` : term;
+    }, '');
+
+// A MeSH descriptor as a search term; without explode only the descriptor itself matches
+export const meshTerm = (descriptor: string, explode = true) =>
+  `"${descriptor.replace(/"/g, '')}"[MeSH Terms${explode ? '' : ':noexp'}]`;
+
+// A free-text term widened with a MeSH descriptor, e.g. `(heart attack) OR "Myocardial Infarction"[MeSH Terms]`,
+// so papers are found whether or not they were indexed with the descriptor yet
+export const expandWithMesh = (term: string, descriptor: string, explode = true) =>
+  term.trim() ? `(${term.trim()}) OR ${meshTerm(descriptor, explode)}` : meshTerm(descriptor, explode);
+
+// The filters ANDed together, or '' when none is set
+export const compileFilters = (filters: QueryFilters) => {
+  const parts: string[] = [];
+
+  if (filters.dateFrom || filters.dateTo) {
+    parts.push(`("${filters.dateFrom || '1800'}"[dp] : "${filters.dateTo || '3000'}"[dp])`);
+  }
+  if (filters.articleTypes.length > 0) {
+    parts.push(either(filters.articleTypes.map(type => `"${type}"[pt]`)));
+  }
+  if (filters.languages.length > 0) {
+    parts.push(either(filters.languages.map(language => `${language}[la]`)));
+  }
+  if (filters.species) {
+    parts.push(SPECIES[filters.species].query);
+  }
+  if (filters.freeFullText) {
+    parts.push('free full text[sb]');
+  }
+
+  return parts.join(' AND ');
+};
+
+// Restrict a search term (user or AI-generated) with the filters
+export const applyFilters = (term: string, filters?: QueryFilters) => {
+  const filterQuery = filters ? compileFilters(filters) : '';
+  return filterQuery ? `(${term}) AND ${filterQuery}` : term;
+};
+
+export const hasQueryFilters = (filters?: QueryFilters) => !!filters && compileFilters(filters) !== '';
@@ -0,0 +1,57 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, describe, expect, it, vi } from 'vitest';
+
+// DATA_DIR is read when the module loads
+const dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'response-cache-'));
+vi.stubEnv('DATA_DIR', dataDir);
+
+const { cached, clearCache, getCacheSummary, isCacheNamespace, trackCache } = await import('@/lib/response-cache');
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  await fs.rm(dataDir, { recursive: true, force: true });
+});
+
+describe('isCacheNamespace', () => {
+  it('accepts the cache namespaces only', () => {
+    expect(isCacheNamespace('pubmed')).toBe(true);
+    expect(isCacheNamespace('toString')).toBe(false);
+    expect(isCacheNamespace('__proto__')).toBe(false);
+    expect(isCacheNamespace(1)).toBe(false);
+  });
+});
+
+describe('cached', () => {
+  it('serves a stored response and counts hits and misses', async () => {
+    const load = vi.fn(async () => ({ ids: ['1'] }));
+
+    const first = await trackCache(() => cached('pubmed', { term: 'obesity' }, load));
+    const second = await trackCache(() => cached('pubmed', { term: 'obesity' }, load));
+
+    expect(second.value).toEqual({ ids: ['1'] });
+    expect(load).toHaveBeenCalledTimes(1);
+    expect(first.stats).toEqual({ hits: 0, misses: 1 });
+    expect(second.stats).toEqual({ hits: 1, misses: 0 });
+  });
+
+  it('does not store responses rejected by shouldCache', async () => {
+    const load = vi.fn(async () => 'error');
+
+    await cached('llm', 'prompt', load, value => value !== 'error');
+    await cached('llm', 'prompt', load, value => value !== 'error');
+
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('clearCache', () => {
+  it('removes one namespace and reports how many entries it held', async () => {
+    await cached('serp', 'query', async () => 'hits');
+
+    expect(await clearCache('serp')).toBe(1);
+    expect((await getCacheSummary()).serp).toBe(0);
+    expect((await getCacheSummary()).pubmed).toBe(1);
+  });
+});
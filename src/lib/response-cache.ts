@@ -0,0 +1,151 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { DATA_DIR } from '@/lib/json-store';
+
+// On-disk cache of external API responses, one file per entry under DATA_DIR/cache/<namespace>/
+export type CacheNamespace = 'pubmed' | 'llm' | 'perplexity' | 'serp' | 'tavily';
+
+const HOUR = 60 * 60 * 1000;
+
+// How long a response stays fresh. PubMed records and search hits change slowly,
+// LLM answers for the same prompt are reused for a month.
+export const CACHE_TTLS: Record<CacheNamespace, number> = {
+  pubmed: 24 * HOUR,
+  llm: 30 * 24 * HOUR,
+  perplexity: 30 * 24 * HOUR,
+  serp: 7 * 24 * HOUR,
+  tavily: 7 * 24 * HOUR
+};
+
+export const CACHE_NAMESPACES = Object.keys(CACHE_TTLS) as CacheNamespace[];
+
+export const isCacheNamespace = (value: unknown): value is CacheNamespace =>
+  typeof value === 'string' && Object.hasOwn(CACHE_TTLS, value);
+
+const CACHE_DIR = path.join(DATA_DIR, 'cache');
+
+// RESPONSE_CACHE=off turns caching off, e.g. while debugging an API integration
+const isCacheEnabled = () => process.env.RESPONSE_CACHE !== 'off';
+
+interface CacheEntry<T> {
+  createdAt: string;
+  expiresAt: string;
+  value: T;
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+}
+
+// Hits and misses of the cached calls made while handling the current request
+const requestStats = new AsyncLocalStorage<CacheStats>();
+
+const entryPath = (namespace: CacheNamespace, params: unknown) =>
+  path.join(CACHE_DIR, namespace, `${createHash('sha256').update(JSON.stringify(params)).digest('hex')}.json`);
+
+const readEntry = async <T>(filePath: string): Promise<CacheEntry<T> | null> => {
+  try {
+    const entry = JSON.parse(await fs.readFile(filePath, 'utf8')) as CacheEntry<T>;
+    if (Date.parse(entry.expiresAt) > Date.now()) {
+      return entry;
+    }
+    await fs.rm(filePath, { force: true });
+    return null;
+  } catch (error) {
+    // A missing or unreadable entry is a miss
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error('Error reading cache entry:', error);
+    }
+    return null;
+  }
+};
+
+const writeEntry = async <T>(filePath: string, entry: CacheEntry<T>) => {
+  try {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(entry), 'utf8');
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    // Caching is best effort: the response is still returned
+    console.error('Error writing cache entry:', error);
+  }
+};
+
+// Return the cached response for `params`, or load it and cache it for the namespace's TTL.
+// `params` must identify the request completely (and must not contain API keys);
+// responses rejected by `shouldCache` (e.g. API error payloads) are returned but not stored.
+export const cached = async <T>(
+  namespace: CacheNamespace,
+  params: unknown,
+  load: () => Promise<T>,
+  shouldCache: (value: T) => boolean = () => true
+): Promise<T> => {
+  if (!isCacheEnabled()) {
+    return load();
+  }
+
+  const stats = requestStats.getStore();
+  const filePath = entryPath(namespace, params);
+  const entry = await readEntry<T>(filePath);
+  if (entry) {
+    if (stats) stats.hits++;
+    return entry.value;
+  }
+
+  if (stats) stats.misses++;
+  const value = await load();
+  if (shouldCache(value)) {
+    const now = Date.now();
+    await writeEntry(filePath, {
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + CACHE_TTLS[namespace]).toISOString(),
+      value
+    });
+  }
+  return value;
+};
+
+// Run a route handler's work while counting its cache hits and misses
+export const trackCache = async <T>(work: () => Promise<T>): Promise<{ value: T; stats: CacheStats }> => {
+  const stats: CacheStats = { hits: 0, misses: 0 };
+  const value = await requestStats.run(stats, work);
+  return { value, stats };
+};
+
+// X-Cache is HIT when every cached call was served from the cache, MISS when none was,
+// and PARTIAL in between; requests that made no cacheable calls get no X-Cache header
+export const cacheHeaders = ({ hits, misses }: CacheStats): Record<string, string> => {
+  if (hits + misses === 0) return {};
+  return {
+    'X-Cache': misses === 0 ? 'HIT' : hits === 0 ? 'MISS' : 'PARTIAL',
+    'X-Cache-Hits': String(hits),
+    'X-Cache-Misses': String(misses)
+  };
+};
+
+// Number of entries stored per namespace
+export const getCacheSummary = async (): Promise<Record<CacheNamespace, number>> => {
+  const entries = await Promise.all(CACHE_NAMESPACES.map(async namespace => {
+    try {
+      const files = await fs.readdir(path.join(CACHE_DIR, namespace));
+      return [namespace, files.filter(file => file.endsWith('.json')).length] as const;
+    } catch {
+      return [namespace, 0] as const;
+    }
+  }));
+  return Object.fromEntries(entries) as Record<CacheNamespace, number>;
+};
+
+// Remove the cached responses of one namespace, or all of them; returns how many were removed
+export const clearCache = async (namespace?: CacheNamespace): Promise<number> => {
+  const summary = await getCacheSummary();
+  const namespaces = namespace ? [namespace] : CACHE_NAMESPACES;
+
+  await Promise.all(namespaces.map(name =>
+    fs.rm(path.join(CACHE_DIR, name), { recursive: true, force: true })));
+  return namespaces.reduce((total, name) => total + summary[name], 0);
+};
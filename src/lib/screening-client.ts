@@ -0,0 +1,49 @@
+// Browser-side helpers for the /api/sessions/[id]/screening routes
+import type {
+  ScreeningResolutionRequest,
+  ScreeningResponse,
+  ScreeningSetup,
+  ScreeningVoteRequest
+} from '@/lib/api-contracts';
+
+const request = async <T>(url: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers }
+  });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || `Screening request failed with status ${response.status}`);
+  }
+
+  return response.json();
+};
+
+const screeningUrl = (sessionId: string, path = '', reviewer?: string) =>
+  `/api/sessions/${sessionId}/screening${path}${reviewer ? `?reviewer=${encodeURIComponent(reviewer)}` : ''}`;
+
+// null when screening of the session hasn't started
+export const fetchScreening = async (sessionId: string, reviewer?: string) =>
+  (await request<ScreeningResponse>(screeningUrl(sessionId, '', reviewer))).screening;
+
+export const saveScreening = async (sessionId: string, setup: ScreeningSetup) =>
+  (await request<ScreeningResponse>(screeningUrl(sessionId), {
+    method: 'PUT',
+    body: JSON.stringify(setup)
+  })).screening!;
+
+export const deleteScreening = (sessionId: string) =>
+  request<{ deleted: boolean }>(screeningUrl(sessionId), { method: 'DELETE' });
+
+export const recordVote = async (sessionId: string, vote: ScreeningVoteRequest) =>
+  (await request<ScreeningResponse>(screeningUrl(sessionId, '/votes'), {
+    method: 'POST',
+    body: JSON.stringify(vote)
+  })).screening!;
+
+export const resolveConflict = async (sessionId: string, resolution: ScreeningResolutionRequest, reviewer?: string) =>
+  (await request<ScreeningResponse>(screeningUrl(sessionId, '/resolutions', reviewer), {
+    method: 'POST',
+    body: JSON.stringify(resolution)
+  })).screening!;
@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import { prismaCounts, screeningStatus, screeningView } from '@/lib/screening-flow';
+import type { Paper, Screening, ScreeningVote } from '@/lib/types';
+
+const vote = (decision: ScreeningVote['decision'], reason?: string): ScreeningVote => ({
+  decision,
+  ...(reason ? { reason } : {}),
+  decidedAt: '2026-01-01T00:00:00.000Z'
+});
+
+const screening = (changes: Partial<Screening>): Screening => ({
+  sessionId: 's1',
+  reviewers: ['ana', 'ben'],
+  exclusionReasons: ['Wrong population', 'Wrong design'],
+  votes: {},
+  resolutions: {},
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+  ...changes
+});
+
+const paper = (pmid: string): Paper => ({
+  id: pmid,
+  pmid,
+  title: `Paper ${pmid}`,
+  authors: 'Smith J',
+  journal: 'Nature',
+  year: '2020',
+  abstract: 'An abstract.',
+  pubDate: '2020',
+  relevanceScore: 7,
+  summary: ''
+});
+
+describe('screeningStatus', () => {
+  it('waits for every reviewer, then takes their common decision or reports a conflict', () => {
+    const votes = {
+      1: { ana: vote('include') },
+      2: { ana: vote('exclude', 'Wrong design'), ben: vote('exclude', 'Wrong population') },
+      3: { ana: vote('include'), ben: vote('maybe') }
+    };
+
+    expect(screeningStatus(screening({ votes }), '1')).toEqual({ status: 'pending' });
+    expect(screeningStatus(screening({ votes }), '2')).toEqual({ status: 'exclude', reason: 'Wrong design' });
+    expect(screeningStatus(screening({ votes }), '3')).toEqual({ status: 'conflict' });
+    expect(screeningStatus(screening({ votes, reviewers: ['ana'] }), '1')).toEqual({ status: 'include', reason: undefined });
+  });
+
+  it('lets a resolution settle the paper', () => {
+    const settled = screening({
+      votes: { 3: { ana: vote('include'), ben: vote('maybe') } },
+      resolutions: { 3: vote('exclude', 'Wrong population') }
+    });
+
+    expect(screeningStatus(settled, '3')).toEqual({ status: 'exclude', reason: 'Wrong population', resolved: true });
+  });
+});
+
+describe('screeningView', () => {
+  const votes = {
+    1: { ana: vote('include'), ben: vote('include') },
+    2: { ana: vote('exclude', 'Wrong design') },
+    3: { ben: vote('maybe') }
+  };
+  const session = { papers: [paper('1'), paper('2'), paper('3'), paper('1')], duplicates: { total: 2, byPmid: 2, byDoi: 0, byTitle: 0 } };
+
+  it("shows a reviewer their own votes, and the other reviewer's only once both voted", () => {
+    const view = screeningView(screening({ votes }), session, 'ana');
+
+    expect(view.entries.map(({ key, status, vote: own, votes: both }) => ({ key, status, own: own?.decision, both: !!both })))
+      .toEqual([
+        { key: '1', status: 'include', own: 'include', both: true },
+        { key: '2', status: 'pending', own: 'exclude', both: false },
+        { key: '3', status: 'pending', own: undefined, both: false }
+      ]);
+    expect(view).not.toHaveProperty('votes');
+    expect(view).not.toHaveProperty('resolutions');
+  });
+
+  it('shows no own votes without a reviewer', () => {
+    expect(screeningView(screening({ votes }), session).entries.some(entry => entry.vote)).toBe(false);
+  });
+
+  it('counts the PRISMA flow, with the duplicates removed by the search', () => {
+    expect(screeningView(screening({ votes }), session).prisma).toEqual({
+      identified: 5,
+      duplicatesRemoved: 2,
+      screened: 3,
+      excluded: 0,
+      exclusionReasons: [],
+      included: 1,
+      maybe: 0,
+      conflicts: 0,
+      pending: 2
+    });
+  });
+});
+
+describe('prismaCounts', () => {
+  it('counts exclusions by reason, most frequent first', () => {
+    const entry = (key: string, status: 'exclude' | 'include' | 'conflict', reason?: string) =>
+      ({ key, paper: paper(key), status, ...(reason ? { reason } : {}) });
+
+    const counts = prismaCounts([
+      entry('1', 'exclude', 'Wrong design'),
+      entry('2', 'exclude', 'Wrong population'),
+      entry('3', 'exclude', 'Wrong population'),
+      entry('4', 'exclude'),
+      entry('5', 'conflict'),
+      entry('6', 'include')
+    ], 0);
+
+    expect(counts).toMatchObject({ identified: 6, screened: 6, excluded: 4, included: 1, conflicts: 1 });
+    expect(counts.exclusionReasons).toEqual([
+      { reason: 'Wrong population', count: 2 },
+      { reason: 'No reason given', count: 1 },
+      { reason: 'Wrong design', count: 1 }
+    ]);
+  });
+});
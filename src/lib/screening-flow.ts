@@ -0,0 +1,82 @@
+import _ from 'lodash';
+import { paperKey } from '@/lib/paper-identity';
+import type {
+  PrismaCounts,
+  Screening,
+  ScreeningEntry,
+  ScreeningStatus,
+  ScreeningView,
+  ScreeningVote,
+  SearchSession
+} from '@/lib/types';
+
+// Where a paper stands: a resolution settles it, otherwise the reviewers' votes do once every
+// reviewer voted, when they agree on the decision (the first reviewer's reason is kept)
+export const screeningStatus = (
+  screening: Pick<Screening, 'reviewers' | 'votes' | 'resolutions'>,
+  key: string
+): { status: ScreeningStatus; reason?: string; resolved?: boolean } => {
+  const resolution = screening.resolutions[key];
+  if (resolution) {
+    return { status: resolution.decision, reason: resolution.reason, resolved: true };
+  }
+
+  const votes = screening.reviewers.map(reviewer => screening.votes[key]?.[reviewer]);
+  if (votes.some(vote => !vote)) {
+    return { status: 'pending' };
+  }
+
+  const [first, ...others] = votes as ScreeningVote[];
+  return others.every(vote => vote.decision === first.decision)
+    ? { status: first.decision, reason: first.reason }
+    : { status: 'conflict' };
+};
+
+export const prismaCounts = (entries: ScreeningEntry[], duplicatesRemoved: number): PrismaCounts => {
+  const count = (status: ScreeningStatus) => entries.filter(entry => entry.status === status).length;
+  const reasons = _.countBy(entries.filter(entry => entry.status === 'exclude'), entry => entry.reason || 'No reason given');
+
+  return {
+    identified: entries.length + duplicatesRemoved,
+    duplicatesRemoved,
+    screened: entries.length,
+    excluded: count('exclude'),
+    exclusionReasons: _.orderBy(
+      Object.entries(reasons).map(([reason, total]) => ({ reason, count: total })),
+      ['count', 'reason'],
+      ['desc', 'asc']
+    ),
+    included: count('include'),
+    maybe: count('maybe'),
+    conflicts: count('conflict'),
+    pending: count('pending')
+  };
+};
+
+// The screening of a session's papers as a reviewer sees it: their own votes, and the other
+// reviewer's only on papers both have voted on. Without a reviewer, no own votes are shown.
+export const screeningView = (
+  screening: Screening,
+  session: Pick<SearchSession, 'papers' | 'duplicates'>,
+  reviewer?: string
+): ScreeningView => {
+  const { votes, resolutions: _resolutions, ...details } = screening;
+  const papers = _.uniqBy(session.papers, paperKey);
+
+  const entries = papers.map((paper): ScreeningEntry => {
+    const key = paperKey(paper);
+    const paperVotes = votes[key] || {};
+    const { status, reason, resolved } = screeningStatus(screening, key);
+    return {
+      key,
+      paper,
+      status,
+      ...(reason ? { reason } : {}),
+      ...(resolved ? { resolved } : {}),
+      ...(reviewer && paperVotes[reviewer] ? { vote: paperVotes[reviewer] } : {}),
+      ...(screening.reviewers.every(name => paperVotes[name]) ? { votes: paperVotes } : {})
+    };
+  });
+
+  return { ...details, entries, prisma: prismaCounts(entries, session.duplicates?.total || 0) };
+};
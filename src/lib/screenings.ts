@@ -0,0 +1,69 @@
+import { createJsonStore } from '@/lib/json-store';
+import type { ScreeningResolutionRequest, ScreeningSetup, ScreeningVoteRequest } from '@/lib/api-contracts';
+import type { Screening, ScreeningVote } from '@/lib/types';
+
+// Screenings by the id of the session whose papers they screen
+const store = createJsonStore<{ screenings: Record<string, Screening> }>('screenings.json', () => ({ screenings: {} }));
+
+const now = () => new Date().toISOString();
+
+const toVote = ({ decision, reason }: Pick<ScreeningVoteRequest, 'decision' | 'reason'>): ScreeningVote => ({
+  decision,
+  ...(decision === 'exclude' ? { reason } : {}),
+  decidedAt: now()
+});
+
+export const getScreening = async (sessionId: string): Promise<Screening | null> => {
+  const data = await store.read();
+  return data.screenings[sessionId] || null;
+};
+
+export const screenedSessionIds = async (): Promise<string[]> => {
+  const data = await store.read();
+  return Object.keys(data.screenings);
+};
+
+// Start screening a session, or change the exclusion reasons of a started one.
+// The reviewers can only change until the first vote.
+export const saveScreening = (sessionId: string, { reviewers, exclusionReasons }: ScreeningSetup) =>
+  store.update(data => {
+    const existing = data.screenings[sessionId];
+    const screening: Screening = existing
+      ? { ...existing, exclusionReasons, updatedAt: now() }
+      : { sessionId, reviewers, exclusionReasons, votes: {}, resolutions: {}, createdAt: now(), updatedAt: now() };
+
+    if (existing && Object.keys(existing.votes).length === 0) {
+      screening.reviewers = reviewers;
+    }
+    data.screenings[sessionId] = screening;
+    return screening;
+  });
+
+// A changed vote drops the paper's resolution: the conflict it settled may be gone
+export const recordVote = (sessionId: string, { reviewer, paperKey, ...decision }: ScreeningVoteRequest) =>
+  store.update(data => {
+    const screening = data.screenings[sessionId];
+    if (!screening) return null;
+
+    screening.votes[paperKey] = { ...screening.votes[paperKey], [reviewer]: toVote(decision) };
+    delete screening.resolutions[paperKey];
+    screening.updatedAt = now();
+    return screening;
+  });
+
+export const resolveConflict = (sessionId: string, { paperKey, ...decision }: ScreeningResolutionRequest) =>
+  store.update(data => {
+    const screening = data.screenings[sessionId];
+    if (!screening) return null;
+
+    screening.resolutions[paperKey] = toVote(decision);
+    screening.updatedAt = now();
+    return screening;
+  });
+
+export const deleteScreening = (sessionId: string) =>
+  store.update(data => {
+    const existed = !!data.screenings[sessionId];
+    delete data.screenings[sessionId];
+    return existed;
+  });
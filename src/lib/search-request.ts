@@ -0,0 +1,65 @@
+import { describeFieldErrors, parseSearchRequestBody, type FieldError } from '@/lib/api-contracts';
+import { pinPrompts, resolvePrompts } from '@/lib/prompt-templates';
+import { getSession } from '@/lib/sessions';
+import { DEFAULT_SEARCH_CONFIG, type ResolvedPrompts, type SearchConfig, type SeedReference } from '@/lib/types';
+
+export interface SearchRequest {
+  discussionText: string;
+  // config.prompts is pinned to the template versions in `prompts`
+  config: SearchConfig;
+  seeds: SeedReference[];
+  prompts: ResolvedPrompts;
+  // Set when re-running a recorded session
+  parentId?: string;
+}
+
+export type SearchRequestError = { error: string; status: number; fields?: FieldError[] };
+
+const invalid = (fields: FieldError[]): SearchRequestError =>
+  ({ error: describeFieldErrors(fields), status: 400, fields });
+
+// Resolve a /api/search body: either a new discussion, or `rerunOf` a recorded session
+// (optionally with config overrides). A re-run uses the session's recorded prompt instructions
+// unless the overrides choose other templates.
+export const parseSearchRequest = async (body: unknown): Promise<SearchRequest | SearchRequestError> => {
+  const parsed = parseSearchRequestBody(body);
+  if (!parsed.ok) {
+    return invalid(parsed.fields);
+  }
+
+  const { rerunOf, config: overrides = {}, discussionText = '', seeds = [] } = parsed.value;
+  const session = rerunOf !== undefined ? await getSession(rerunOf) : null;
+  if (rerunOf !== undefined && !session) {
+    return { error: 'Session to re-run was not found', status: 404 };
+  }
+
+  const config = { ...DEFAULT_SEARCH_CONFIG, ...session?.config, ...overrides };
+  let prompts = !overrides.prompts ? session?.prompts : undefined;
+  if (!prompts) {
+    const resolved = await resolvePrompts(config.prompts);
+    if ('fields' in resolved) {
+      return invalid(resolved.fields);
+    }
+    prompts = resolved.prompts;
+  }
+
+  if (session) {
+    return {
+      discussionText: session.discussionText,
+      config: { ...config, prompts: pinPrompts(prompts) },
+      seeds: session.seeds || [],
+      prompts,
+      parentId: session.id
+    };
+  }
+
+  return {
+    discussionText,
+    config: { ...config, prompts: pinPrompts(prompts) },
+    seeds,
+    prompts
+  };
+};
+
+export const isSearchRequestError = (value: SearchRequest | SearchRequestError): value is SearchRequestError =>
+  'error' in value;
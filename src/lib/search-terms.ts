@@ -0,0 +1,46 @@
+import type { SearchTermCount } from '@/lib/api-contracts';
+import { generateSearchTerms } from '@/lib/analysis';
+import { esearch } from '@/lib/eutils';
+import { applyFilters, compileClauses } from '@/lib/query-builder';
+import type { QueryFilters, SearchConfig } from '@/lib/types';
+
+// Parts of the esearch result that explain a bad or partly ignored query
+interface ESearchResult {
+  count?: string;
+  ERROR?: string;
+  errorlist?: { phrasesnotfound?: string[]; fieldsnotfound?: string[] };
+  warninglist?: { phrasesignored?: string[]; quotedphrasesnotfound?: string[]; outputmessages?: string[] };
+}
+
+// Search terms for a search: the query builder clauses (if any) first, then the generated terms
+export const generateQueryTerms = async (context: string, searchConfig: Pick<SearchConfig, 'query'>) => {
+  const userTerm = compileClauses(searchConfig.query?.clauses || []);
+  return [...(userTerm ? [userTerm] : []), ...await generateSearchTerms(context)];
+};
+
+const describeProblems = (result: ESearchResult) => [
+  ...(result.ERROR ? [result.ERROR] : []),
+  ...(result.errorlist?.phrasesnotfound || []).map(phrase => `Phrase not found: ${phrase}`),
+  ...(result.errorlist?.fieldsnotfound || []).map(field => `Unknown field: ${field}`),
+  ...(result.warninglist?.phrasesignored || []).map(phrase => `Ignored: ${phrase}`),
+  ...(result.warninglist?.quotedphrasesnotfound || []).map(phrase => `Quoted phrase not found: ${phrase}`),
+  ...(result.warninglist?.outputmessages || [])
+].filter(Boolean);
+
+// PubMed hit counts of the terms with the filters applied, so terms with broken Boolean syntax
+// or no hits can be fixed before a search spends its budget on them
+export const countSearchTerms = async (terms: string[], filters?: QueryFilters): Promise<SearchTermCount[]> => {
+  const counts: SearchTermCount[] = [];
+  for (const term of terms) {
+    const query = applyFilters(term, filters);
+    try {
+      const result: ESearchResult = (await esearch(query, '0')).esearchresult || {};
+      const count = result.count === undefined ? null : Number(result.count);
+      counts.push({ term, query, count, problems: describeProblems(result) });
+    } catch (error) {
+      console.error(`Error counting PubMed hits for ${query}:`, error);
+      counts.push({ term, query, count: null, problems: ['PubMed could not run this term'] });
+    }
+  }
+  return counts;
+};
@@ -0,0 +1,451 @@
+import _ from 'lodash';
+import { SCORING_BATCH_SIZE, scorePapers } from '@/lib/analysis';
+import { withCitationCounts } from '@/lib/citations';
+import { askPerplexity } from '@/lib/perplexity';
+import { doiOnlyPaper, extractDoi } from '@/lib/doi';
+import { esearch, elink, findPmidByDoi, type LinkResponse } from '@/lib/eutils';
+import { searchScholar, searchWeb } from '@/lib/external-search';
+import { createPaperMerger } from '@/lib/paper-merge';
+import { fetchPaperDetails, fetchPapersByKey } from '@/lib/papers';
+import { applyFilters, compileClauses } from '@/lib/query-builder';
+import { generateQueryTerms } from '@/lib/search-terms';
+import { describeSeed, resolveSeeds, searchContext, seedContext } from '@/lib/seeds';
+import { snowballSearch } from '@/lib/snowball';
+import {
+  DEFAULT_MAX_RESULTS,
+  type Paper,
+  type SearchConfig,
+  type SearchEventHandler,
+  type SearchResult,
+  type SeedReference
+} from '@/lib/types';
+
+const ignoreEvent: SearchEventHandler = () => {};
+
+// Function to search PubMed and score each hit against the discussion
+export const searchPubMed = async (
+  searchTerm: string,
+  discussionText: string,
+  maxResults = DEFAULT_MAX_RESULTS,
+  onEvent: SearchEventHandler = ignoreEvent
+) => {
+  try {
+    console.log('Searching for term:', searchTerm, 'max results:', maxResults);
+
+    const searchData = await esearch(searchTerm, String(maxResults));
+    const ids: string[] = searchData.esearchresult?.idlist || [];
+    console.log('Found IDs:', ids);
+
+    if (ids.length === 0) {
+      return [];
+    }
+
+    // Each batch is scored in one Claude call; the E-utilities client paces the PubMed requests
+    const batchSize = SCORING_BATCH_SIZE;
+    let allPapers: Paper[] = [];
+
+    for (let i = 0; i < ids.length; i += batchSize) {
+      const batchPapers = await fetchPaperDetails(ids.slice(i, i + batchSize));
+      onEvent({ type: 'fetched', fetched: Math.min(i + batchSize, ids.length), total: ids.length, term: searchTerm });
+
+      // Analyze the batch using Claude
+      const papersWithAnalysis = await scorePapers(batchPapers, discussionText);
+      allPapers = [...allPapers, ...papersWithAnalysis];
+      onEvent({ type: 'scored', papers: papersWithAnalysis, scored: allPapers.length, total: ids.length, term: searchTerm });
+    }
+
+    return allPapers;
+  } catch (error) {
+    console.error('Error searching PubMed:', error);
+    onEvent({ type: 'error', message: `PubMed search failed for "${searchTerm}"` });
+    return [];
+  }
+};
+
+// 참고문헌 논문 가져오기 함수 ("doi:" 참고문헌은 DOI로 조회하거나 DOI 전용 논문으로 유지)
+export const findReferencedPapers = async (
+  referenceIds: string[],
+  maxResults = 100,
+  onEvent: SearchEventHandler = ignoreEvent,
+  citations: Record<string, string> = {}
+) => {
+  const allReferencedPapers: Paper[] = [];
+  const idsToProcess = referenceIds.slice(0, maxResults);
+
+  // 각 ID를 개별적으로 처리 (요청 속도는 E-utilities 클라이언트가 제한)
+  for (const [index, id] of idsToProcess.entries()) {
+    try {
+      const [paper] = await fetchPapersByKey([id], citations);
+      if (!paper) {
+        console.log('Skipping invalid response for ID:', id);
+        continue;
+      }
+
+      const referencedPaper = {
+        ...paper,
+        references: undefined,
+        relevanceScore: 8, // 참고문헌은 관련성 높음
+        summary: "1. Referenced in the main paper\n2. Provides important background research\n3. Essential for understanding the research context"
+      };
+      allReferencedPapers.push(referencedPaper);
+      onEvent({ type: 'scored', papers: [referencedPaper], scored: index + 1, total: idsToProcess.length });
+    } catch (idError) {
+      console.error(`Error processing reference ID ${id}:`, idError);
+      onEvent({ type: 'error', message: `Could not load referenced paper ${id}` });
+    }
+  }
+
+  return allReferencedPapers;
+};
+
+// Papers citing the seeds, preferring those that cite several of them, scored against the context
+export const findPapersCitingSeeds = async (
+  seedPmids: string[],
+  maxResults: number,
+  context: string,
+  onEvent: SearchEventHandler = ignoreEvent
+) => {
+  const citationCounts = new Map<string, number>();
+  for (const pmid of seedPmids) {
+    try {
+      for (const id of extractReferenceIds(await elink(pmid, 'pubmed_pubmed_citedin'))) {
+        citationCounts.set(id, (citationCounts.get(id) || 0) + 1);
+      }
+    } catch (error) {
+      console.error(`Error loading papers citing ${pmid}:`, error);
+      onEvent({ type: 'error', message: `Could not load papers citing PMID ${pmid}` });
+    }
+  }
+
+  const seedSet = new Set(seedPmids);
+  const ids = _.orderBy([...citationCounts.entries()], ([, count]) => count, 'desc')
+    .map(([id]) => id)
+    .filter(id => !seedSet.has(id))
+    .slice(0, maxResults);
+
+  const citingPapers: Paper[] = [];
+  for (let i = 0; i < ids.length; i += SCORING_BATCH_SIZE) {
+    const batch = await fetchPaperDetails(ids.slice(i, i + SCORING_BATCH_SIZE));
+    onEvent({ type: 'fetched', fetched: Math.min(i + SCORING_BATCH_SIZE, ids.length), total: ids.length });
+
+    const scored = await scorePapers(batch, context);
+    citingPapers.push(...scored);
+    onEvent({ type: 'scored', papers: scored, scored: citingPapers.length, total: ids.length });
+  }
+
+  return citingPapers;
+};
+
+// 메인 논문 정보 가져오기
+export const fetchMainPaper = async (pmid: string): Promise<Paper | null> => {
+  const [paper] = await fetchPaperDetails([pmid]);
+  if (!paper) {
+    return null;
+  }
+
+  return {
+    ...paper,
+    relevanceScore: 10, // 직접 검색된 논문은 높은 관련성 점수 부여
+    summary: "1. This paper was directly searched by PMID\n2. Full content and references are available\n3. Central paper for the research topic",
+    isMainPaper: true
+  };
+};
+
+export const extractPMIDFromAbstract = (text: string): string | null => {
+  const pmidMatch = text.match(/PMID:\s*(\d+)/i);
+  return pmidMatch ? pmidMatch[1] : null;
+};
+
+// 참고문헌 ID 추출 함수
+export const extractReferenceIds = (referencesData: LinkResponse): string[] => {
+  const allIds: string[] = [];
+
+  referencesData?.linksets?.forEach(linkset => {
+    linkset.linksetdbs?.forEach(db => {
+      // 참고문헌 관련 링크 포함
+      if (db.linkname?.includes('pubmed_pubmed') && db.links) {
+        allIds.push(...db.links.map(link => typeof link === 'object' ? link.id : link));
+      }
+    });
+  });
+
+  // 중복 제거
+  return [...new Set(allIds)];
+};
+
+// Perplexity API를 사용하여 초록으로부터 논문의 PMID 찾기
+export const findPMIDWithPerplexity = async (abstract: string): Promise<string | null> => {
+  try {
+    const data = await askPerplexity(abstract);
+
+    // Perplexity 응답에서 PMID 추출
+    if (data.choices && data.choices.length > 0) {
+      const responseText = data.choices[0].message.content.trim();
+
+      // PMID만 응답으로 받았는지 확인
+      if (/^\d{8}$/.test(responseText)) {
+        return responseText;
+      }
+
+      // 또는 응답 텍스트에서 PMID 패턴 추출
+      const pmidMatch = responseText.match(/PMID:?\s*(\d{8})/i) ||
+        responseText.match(/\b(\d{8})\b/);
+
+      if (pmidMatch) {
+        return pmidMatch[1];
+      }
+
+      //  NOT_FOUND인 경우 citations에서 PMID 추출 시도
+      if (responseText === 'NOT_FOUND' && data.citations) {
+        for (const url of data.citations) {
+          const citationMatch = url.match(/pubmed\.ncbi\.nlm\.nih\.gov\/(\d+)/);
+          if (citationMatch) {
+            return citationMatch[1]; // 첫 번째 citation의 PMID 반환
+          }
+        }
+      }
+    }
+
+    return null;
+  } catch (error) {
+    console.error('Error finding PMID with Perplexity API:', error);
+    return null;
+  }
+};
+
+// Load imported references as seed papers, plus the papers they reference and that cite them
+const loadSeedPapers = async (
+  seeds: SeedReference[],
+  searchConfig: SearchConfig,
+  onEvent: SearchEventHandler
+) => {
+  onEvent({ type: 'phase', phase: 'seeds', message: `Resolving ${seeds.length} imported references` });
+  const { papers, unresolved } = await resolveSeeds(seeds);
+  unresolved.forEach(seed => onEvent({ type: 'error', message: `Could not find ${describeSeed(seed)} in PubMed` }));
+
+  const seedPapers: Paper[] = papers.map(paper => ({
+    ...paper,
+    relevanceScore: 10,
+    summary: "1. Imported from your bibliography\n2. Used as a seed for references, citations and search terms\n3. Central paper for the research topic",
+    isSeed: true
+  }));
+  if (seedPapers.length > 0) {
+    onEvent({ type: 'scored', papers: seedPapers, scored: seedPapers.length, total: seeds.length });
+  }
+  // Snowball search follows the seeds' links itself, over several hops
+  if (seedPapers.length === 0 || searchConfig.snowball) {
+    return { seedPapers, related: [] };
+  }
+
+  // DOI-only seeds have no PubMed links to follow
+  const linkedSeeds = seedPapers.filter(paper => paper.pmid);
+  const seedPmids = linkedSeeds.map(paper => paper.pmid);
+  const related: Paper[] = [];
+
+  // 시드 논문의 참고문헌: XML 참고문헌 목록이 없으면 elink로 보완
+  if (searchConfig.includeReferences) {
+    onEvent({ type: 'phase', phase: 'references', message: 'Loading papers referenced by the imported references' });
+    const refIds: string[] = [];
+    for (const paper of linkedSeeds) {
+      try {
+        refIds.push(...(paper.references?.length
+          ? paper.references
+          : extractReferenceIds(await elink(paper.pmid, 'pubmed_pubmed_refs'))));
+      } catch (error) {
+        console.error(`Error loading references of ${paper.pmid}:`, error);
+        onEvent({ type: 'error', message: `Could not load references of PMID ${paper.pmid}` });
+      }
+    }
+
+    const seedSet = new Set(seedPmids);
+    const uniqueRefIds = _.uniq(refIds).filter(id => !seedSet.has(id));
+    const citations = Object.assign({}, ...linkedSeeds.map(paper => paper.referenceCitations));
+    related.push(...await findReferencedPapers(uniqueRefIds, Math.floor(searchConfig.maxResults * 0.5), onEvent, citations));
+  }
+
+  if (searchConfig.includeCitations) {
+    onEvent({ type: 'phase', phase: 'citations', message: 'Loading papers that cite the imported references' });
+    const context = seedContext(seedPapers);
+    related.push(...await findPapersCitingSeeds(seedPmids, Math.floor(searchConfig.maxResults * 0.3), context, onEvent));
+  }
+
+  return { seedPapers, related };
+};
+
+// Run the full search pipeline for a discussion and/or imported seed references:
+// seed and main paper lookup, their references (or a multi-hop snowball search),
+// then keyword search scored by Claude
+export const runSearch = async (
+  discussionText: string,
+  searchConfig: SearchConfig,
+  onEvent: SearchEventHandler = ignoreEvent,
+  seeds: SeedReference[] = []
+): Promise<SearchResult> => {
+  // 초기 논문 결과 배열
+  let allResults: Paper[] = [];
+
+  // 0. 가져온 참고문헌을 시드로 사용
+  let seedPapers: Paper[] = [];
+  let seedRelated: Paper[] = [];
+  if (seeds.length > 0) {
+    ({ seedPapers, related: seedRelated } = await loadSeedPapers(seeds, searchConfig, onEvent));
+  }
+
+  // Relevance is judged against the discussion and the seeds' combined abstracts
+  const context = searchContext(discussionText, seedPapers);
+
+  // 1. 초록에서 PMID 또는 DOI 직접 추출 시도, 실패 시 Perplexity API 검색
+  let pmid: string | null = null;
+  let doi: string | undefined;
+  if (discussionText.trim()) {
+    onEvent({ type: 'phase', phase: 'pmid-detection', message: 'Looking for the paper under discussion' });
+    pmid = extractPMIDFromAbstract(discussionText);
+    doi = pmid ? undefined : extractDoi(discussionText);
+    if (doi) {
+      console.log('DOI found in abstract, resolving to PMID:', doi);
+      pmid = await findPmidByDoi(doi);
+    }
+    if (!pmid && !doi) {
+      console.log('PMID not found in abstract, trying Perplexity API search');
+      pmid = await findPMIDWithPerplexity(discussionText);
+    }
+  }
+
+  // 2. PMID로 메인 논문과 참고문헌 가져오기 (존재하는 경우)
+  if (pmid) {
+    console.log('Using PMID for search:', pmid);
+
+    onEvent({ type: 'phase', phase: 'main-paper', message: `Loading main paper (PMID ${pmid})` });
+    const mainPaper = await fetchMainPaper(pmid);
+    if (mainPaper) {
+      onEvent({ type: 'scored', papers: [mainPaper], scored: 1, total: 1 });
+
+      // 스노우볼 검색이면 참고문헌은 2.1단계에서 여러 단계에 걸쳐 추적
+      let referencesPapers: Paper[] = [];
+      if (!searchConfig.snowball) {
+        onEvent({ type: 'phase', phase: 'references', message: 'Loading referenced papers' });
+        // elink 참고문헌에 XML 참고문헌 목록의 DOI 전용 참고문헌 추가
+        const refIds = _.uniq([
+          ...extractReferenceIds(await elink(pmid, 'pubmed_pubmed_refs')),
+          ...(mainPaper.references || [])
+        ]);
+
+        // searchConfig.maxResults의 80%를 참고문헌에 할당
+        if (refIds.length > 0) {
+          const maxReferencesToGet = Math.floor(searchConfig.maxResults * 0.8);
+          referencesPapers = await findReferencedPapers(refIds, maxReferencesToGet, onEvent, mainPaper.referenceCitations);
+        }
+      }
+
+      allResults = [mainPaper, ...referencesPapers];
+    } else {
+      onEvent({ type: 'error', message: `Could not load paper with PMID ${pmid}` });
+    }
+  } else if (doi) {
+    // PubMed에 없는 DOI: DOI 전용 메인 논문으로 유지
+    onEvent({ type: 'phase', phase: 'main-paper', message: `DOI ${doi} is not in PubMed, keeping it as a DOI-only paper` });
+    const mainPaper: Paper = {
+      ...doiOnlyPaper(doi),
+      relevanceScore: 10,
+      summary: "1. This paper was given by DOI\n2. PubMed has no record of it, so references are not available\n3. Central paper for the research topic",
+      isMainPaper: true
+    };
+    onEvent({ type: 'scored', papers: [mainPaper], scored: 1, total: 1 });
+    allResults = [mainPaper];
+  }
+
+  // PMID, DOI 또는 제목+연도+제1저자가 같은 논문은 하나로 병합 (출처 정보 유지)
+  const merger = createPaperMerger();
+  merger.addAll([...allResults, ...seedPapers, ...seedRelated]);
+  allResults = merger.papers();
+
+  // 2.1 스노우볼 검색: 메인 논문과 시드 논문에서 참고문헌/피인용 논문을 여러 단계 추적
+  if (searchConfig.snowball) {
+    const startPapers = allResults.filter(paper => paper.pmid);
+    if (startPapers.length > 0) {
+      const snowballPapers = await snowballSearch(startPapers, context, searchConfig, onEvent);
+      merger.addAll(snowballPapers);
+      allResults = merger.papers();
+    } else {
+      onEvent({ type: 'error', message: 'Snowball search needs a PubMed paper to start from: add seed references or a PMID/DOI to the discussion' });
+    }
+  }
+
+  // 3. 키워드 기반 검색 (추가적인 관련 논문을 찾기 위해)
+  // 검색 전에 사용자가 검토한 검색어가 있으면 그대로 사용하고, 없으면 새로 생성
+  const userTerm = compileClauses(searchConfig.query?.clauses || []);
+  const plannedTerms = searchConfig.terms || [];
+  let terms = plannedTerms.map(({ term }) => term);
+  if (terms.length === 0) {
+    onEvent({ type: 'phase', phase: 'term-generation', message: 'Generating search terms' });
+    terms = await generateQueryTerms(context, searchConfig);
+    console.log('Generated search terms for additional papers:', terms);
+  }
+  onEvent({ type: 'terms', searchTerms: terms });
+
+  // 검토한 검색어는 모두 사용, 생성된 검색어는 상위 5개만 사용 (사용자 검색어 제외)
+  const keywordsToUse = plannedTerms.length > 0 ? terms : terms.slice(0, userTerm ? 6 : 5);
+
+  // 남은 자리를 키워드 검색 결과에 할당 (키워드당 최소 1개), 검토한 검색어는 각자의 할당량 사용
+  const remainingSpots = Math.max(2, searchConfig.maxResults - allResults.length);
+  const resultsPerKeyword = Math.max(1, Math.ceil(remainingSpots / keywordsToUse.length));
+
+  onEvent({ type: 'phase', phase: 'keyword-search', message: 'Searching PubMed' });
+  const allKeywordResults: Paper[] = [];
+  for (const [index, term] of keywordsToUse.entries()) {
+    onEvent({ type: 'term', term, index, total: keywordsToUse.length });
+    // 날짜, 논문 유형, 언어 등의 필터는 모든 PubMed 검색어에 적용
+    const termResults = plannedTerms[index]?.maxResults ?? resultsPerKeyword;
+    allKeywordResults.push(...await searchPubMed(applyFilters(term, searchConfig.query), context, termResults, onEvent));
+  }
+
+  // 3.1 PubMed에 없는 논문을 위해 Google Scholar / 웹 검색 결과도 후보에 추가
+  if (searchConfig.includeScholar || searchConfig.includeWeb) {
+    onEvent({ type: 'phase', phase: 'external-search', message: 'Searching Google Scholar and the web' });
+    // 필드 태그가 붙은 사용자 검색어는 PubMed 전용이므로 AI 검색어만 사용
+    for (const term of keywordsToUse.filter(term => term !== userTerm).slice(0, 2)) {
+      if (searchConfig.includeScholar) {
+        allKeywordResults.push(...await searchScholar(term, context, resultsPerKeyword, onEvent));
+      }
+      if (searchConfig.includeWeb) {
+        allKeywordResults.push(...await searchWeb(term, context, resultsPerKeyword, onEvent));
+      }
+    }
+  }
+
+  // 4. 중복 병합 및 관련성 높은 상위 결과 선택 (최대 결과 수의 20%, 최소 2개)
+  // 기존 결과와 중복되는 논문은 선택 개수와 상관없이 기존 논문에 병합
+  onEvent({ type: 'phase', phase: 'ranking', message: 'Ranking results' });
+  const keywordMerger = createPaperMerger();
+  keywordMerger.addAll(_.orderBy(allKeywordResults, ['relevanceScore'], ['desc']));
+  const maxAdditionalPapers = Math.max(2, Math.floor(searchConfig.maxResults * 0.2));
+  let additionalPapers = 0;
+  for (const paper of _.orderBy(keywordMerger.papers(), ['relevanceScore'], ['desc'])) {
+    if (merger.has(paper)) {
+      merger.add(paper);
+    } else if (additionalPapers < maxAdditionalPapers) {
+      merger.add(paper);
+      additionalPapers += 1;
+    }
+  }
+  const duplicates = _.mergeWith(merger.stats(), keywordMerger.stats(), (a: number, b: number) => a + b);
+
+  console.log('Final results count:', merger.papers().length,
+    '(Main paper, seeds + references:', allResults.length,
+    ', Additional papers:', additionalPapers,
+    ', Duplicates merged:', duplicates.total, ')');
+
+  // 5. 메인 논문과 시드 논문 우선, 그 다음 관련성 점수로 정렬 (목록에 표시할 피인용 수 포함)
+  const rankedPapers = await withCitationCounts(merger.papers());
+  return {
+    papers: _.orderBy(
+      rankedPapers,
+      ['isMainPaper', 'isSeed', 'relevanceScore'],
+      ['desc', 'desc', 'desc']
+    ),
+    searchTerms: terms,
+    pmid,
+    doi,
+    duplicates
+  };
+};
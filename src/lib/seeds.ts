@@ -0,0 +1,69 @@
+import { esearch, findPmidByDoi } from '@/lib/eutils';
+import { doiOnlyPaper } from '@/lib/doi';
+import { fetchPaperDetails, type PaperDetails } from '@/lib/papers';
+import type { SeedReference } from '@/lib/types';
+
+// Characters of each seed abstract used for term generation and scoring
+const SEED_ABSTRACT_LENGTH = 1500;
+
+export const describeSeed = (seed: SeedReference) =>
+  seed.pmid ? `PMID ${seed.pmid}` : seed.doi ? `DOI ${seed.doi}` : `"${seed.title}"`;
+
+// Exact title search, accepted only when it identifies a single record
+const findPmidByTitle = async (title: string): Promise<string | null> => {
+  const searchData = await esearch(`"${title.replace(/"/g, '')}"[Title]`, '2');
+  const ids: string[] = searchData.esearchresult?.idlist || [];
+  return ids.length === 1 ? ids[0] : null;
+};
+
+const findSeedPmid = async (seed: SeedReference): Promise<string | null> => {
+  if (seed.pmid) return seed.pmid;
+  return (seed.doi ? await findPmidByDoi(seed.doi) : null)
+    || (seed.title ? await findPmidByTitle(seed.title) : null);
+};
+
+// Resolve imported references to PubMed records. DOIs PubMed doesn't know are kept as
+// DOI-only papers; entries that can't be matched at all are reported back.
+export const resolveSeeds = async (seeds: SeedReference[]) => {
+  const matched: Array<{ seed: SeedReference; pmid: string }> = [];
+  const doiOnly: PaperDetails[] = [];
+  const unresolved: SeedReference[] = [];
+
+  for (const seed of seeds) {
+    try {
+      const pmid = await findSeedPmid(seed);
+      if (pmid) {
+        matched.push({ seed, pmid });
+      } else if (seed.doi) {
+        doiOnly.push(doiOnlyPaper(seed.doi, seed.title));
+      } else {
+        unresolved.push(seed);
+      }
+    } catch (error) {
+      console.error(`Error resolving seed ${describeSeed(seed)}:`, error);
+      unresolved.push(seed);
+    }
+  }
+
+  const pmids = [...new Set(matched.map(({ pmid }) => pmid))];
+  const papers: PaperDetails[] = [];
+  for (let i = 0; i < pmids.length; i += 50) {
+    papers.push(...await fetchPaperDetails(pmids.slice(i, i + 50)));
+  }
+
+  // PMIDs that efetch doesn't know are as unresolved as DOIs without a match
+  const found = new Set(papers.map(paper => paper.pmid));
+  unresolved.push(...matched.filter(({ pmid }) => !found.has(pmid)).map(({ seed }) => seed));
+
+  return { papers: [...papers, ...doiOnly], unresolved };
+};
+
+// Combined titles and abstracts of the seeds, used in place of (or next to) the discussion text
+export const seedContext = (papers: Array<Pick<PaperDetails, 'title' | 'abstract'>>) =>
+  papers
+    .map(paper => `${paper.title}\n${paper.abstract.slice(0, SEED_ABSTRACT_LENGTH)}`)
+    .join('\n\n');
+
+// The text relevance is judged against: the discussion and the seeds' combined abstracts
+export const searchContext = (discussionText: string, seedPapers: Array<Pick<PaperDetails, 'title' | 'abstract'>>) =>
+  [discussionText.trim(), seedContext(seedPapers)].filter(Boolean).join('\n\n');
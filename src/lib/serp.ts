@@ -0,0 +1,39 @@
+import { getJson } from 'serpapi';
+import { cached } from '@/lib/response-cache';
+
+const SERP_API_KEY = process.env.SERP_API_KEY;
+
+export interface ScholarResult {
+  result_id?: string;
+  title: string;
+  link?: string;
+  snippet?: string;
+  publication_info?: {
+    summary?: string;
+    authors?: Array<{ name: string }>;
+  };
+  inline_links?: {
+    cited_by?: { total?: number };
+  };
+  resources?: Array<{ title?: string; link?: string }>;
+}
+
+export interface ScholarResponse {
+  organic_results?: ScholarResult[];
+}
+
+export const isSerpConfigured = () => !!SERP_API_KEY;
+
+export const searchGoogleScholar = async (query: string, num = 10): Promise<ScholarResponse> => {
+  if (!SERP_API_KEY) {
+    throw new Error('SERP API key is not configured');
+  }
+
+  const params = {
+    engine: "google_scholar",
+    q: query,
+    num
+  };
+
+  return cached('serp', params, () => getJson({ ...params, api_key: SERP_API_KEY }) as Promise<ScholarResponse>);
+};
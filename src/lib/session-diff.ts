@@ -0,0 +1,26 @@
+import { paperKey } from '@/lib/paper-identity';
+import type { SearchSession, SessionDiff } from '@/lib/types';
+
+// Compare two runs of a search: papers that are new, papers that dropped out,
+// and papers whose relevance score changed between the runs (a paper Claude
+// couldn't score in either run has no score to compare)
+export const diffSessions = (
+  base: Pick<SearchSession, 'id' | 'papers'>,
+  current: Pick<SearchSession, 'id' | 'papers'>
+): SessionDiff => {
+  const basePapers = new Map(base.papers.map(paper => [paperKey(paper), paper]));
+  const currentKeys = new Set(current.papers.map(paperKey));
+
+  return {
+    baseId: base.id,
+    currentId: current.id,
+    added: current.papers.filter(paper => !basePapers.has(paperKey(paper))),
+    removed: base.papers.filter(paper => !currentKeys.has(paperKey(paper))),
+    scoreChanges: current.papers.flatMap(paper => {
+      const previous = basePapers.get(paperKey(paper));
+      return previous && !previous.notScored && !paper.notScored && previous.relevanceScore !== paper.relevanceScore
+        ? [{ paper, previousScore: previous.relevanceScore }]
+        : [];
+    })
+  };
+};
@@ -0,0 +1,27 @@
+// Browser-side helpers for the /api/sessions routes
+import type { SearchSession, SearchSessionSummary, SessionDiff } from '@/lib/types';
+
+const request = async <T>(url: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(url, init);
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || `Session request failed with status ${response.status}`);
+  }
+
+  return response.json();
+};
+
+export const fetchSessions = async () =>
+  (await request<{ sessions: SearchSessionSummary[] }>('/api/sessions')).sessions;
+
+export const fetchSession = async (id: string) =>
+  (await request<{ session: SearchSession }>(`/api/sessions/${id}`)).session;
+
+export const deleteSession = (id: string) =>
+  request<{ deleted: boolean }>(`/api/sessions/${id}`, { method: 'DELETE' });
+
+export const fetchSessionDiff = async (id: string, againstId?: string) =>
+  (await request<{ diff: SessionDiff }>(
+    `/api/sessions/${id}/diff${againstId ? `?against=${againstId}` : ''}`
+  )).diff;
@@ -0,0 +1,68 @@
+import { randomUUID } from 'crypto';
+import { createJsonStore } from '@/lib/json-store';
+import { screenedSessionIds } from '@/lib/screenings';
+import { diffSessions } from '@/lib/session-diff';
+import type { SearchRequest } from '@/lib/search-request';
+import type { SearchResult, SearchSession, SearchSessionSummary } from '@/lib/types';
+
+// Oldest sessions are dropped beyond this many, except those with a screening: it needs their papers
+const MAX_SESSIONS = 100;
+
+const store = createJsonStore<{ sessions: SearchSession[] }>('sessions.json', () => ({ sessions: [] }));
+
+const toSummary = ({ papers, ...session }: SearchSession): SearchSessionSummary => ({
+  ...session,
+  paperCount: papers.length
+});
+
+export const recordSession = (
+  { discussionText, config, seeds, prompts, parentId }: SearchRequest,
+  result: SearchResult
+): Promise<SearchSession> =>
+  store.update(async data => {
+    const session: SearchSession = {
+      id: randomUUID(),
+      createdAt: new Date().toISOString(),
+      discussionText,
+      config,
+      seeds: seeds.length > 0 ? seeds : undefined,
+      searchTerms: result.searchTerms,
+      pmid: result.pmid,
+      doi: result.doi,
+      papers: result.papers,
+      duplicates: result.duplicates,
+      parentId,
+      prompts
+    };
+    const screened = new Set(await screenedSessionIds());
+    data.sessions = [session, ...data.sessions].filter((kept, index) => index < MAX_SESSIONS || screened.has(kept.id));
+    return session;
+  });
+
+// Most recent first
+export const listSessions = async (): Promise<SearchSessionSummary[]> => {
+  const data = await store.read();
+  return data.sessions.map(toSummary);
+};
+
+export const getSession = async (id: string): Promise<SearchSession | null> => {
+  const data = await store.read();
+  return data.sessions.find(session => session.id === id) || null;
+};
+
+export const deleteSession = (id: string) =>
+  store.update(data => {
+    const before = data.sessions.length;
+    data.sessions = data.sessions.filter(session => session.id !== id);
+    return data.sessions.length < before;
+  });
+
+// Diff a session against another one, defaulting to the session it re-ran
+export const getSessionDiff = async (id: string, againstId?: string) => {
+  const data = await store.read();
+  const current = data.sessions.find(session => session.id === id);
+  const baseId = againstId || current?.parentId;
+  const base = baseId ? data.sessions.find(session => session.id === baseId) : undefined;
+
+  return current && base ? diffSessions(base, current) : null;
+};
@@ -0,0 +1,127 @@
+import _ from 'lodash';
+import { SCORING_BATCH_SIZE, scorePapers } from '@/lib/analysis';
+import { elinkEach, type LinkResponse } from '@/lib/eutils';
+import { paperKey } from '@/lib/paper-identity';
+import { fetchPaperDetails } from '@/lib/papers';
+import {
+  MAX_SNOWBALL_HOPS,
+  MAX_SNOWBALL_PAPERS,
+  type Paper,
+  type SearchConfig,
+  type SearchEventHandler
+} from '@/lib/types';
+
+// PMIDs per elink call when following a hop's links
+const LINK_BATCH_SIZE = 100;
+
+type Linkname = 'pubmed_pubmed_refs' | 'pubmed_pubmed_citedin';
+
+const linkedIds = (linkset: NonNullable<LinkResponse['linksets']>[number], linkname: Linkname) =>
+  (linkset.linksetdbs || [])
+    .filter(db => db.linkname === linkname)
+    .flatMap(db => (db.links || []).map(link => typeof link === 'object' ? link.id : link));
+
+// PMIDs linked to each of the given papers, keyed by the paper's PMID
+const fetchLinks = async (pmids: string[], linkname: Linkname) => {
+  const links = new Map<string, string[]>();
+  for (let i = 0; i < pmids.length; i += LINK_BATCH_SIZE) {
+    const linkData = await elinkEach(pmids.slice(i, i + LINK_BATCH_SIZE), linkname);
+    for (const linkset of linkData.linksets || []) {
+      const id = linkset.ids?.[0];
+      if (id) links.set(id, linkedIds(linkset, linkname));
+    }
+  }
+  return links;
+};
+
+// Candidates one hop away from the frontier, counting how many frontier papers link to each.
+// References come from the PubMed XML when it lists PMIDs, otherwise from elink.
+const collectCandidates = async (
+  frontier: Paper[],
+  searchConfig: SearchConfig,
+  onEvent: SearchEventHandler
+) => {
+  const counts = new Map<string, number>();
+  const add = (ids: string[]) => _.uniq(ids).forEach(id => counts.set(id, (counts.get(id) || 0) + 1));
+  const pmids = frontier.map(paper => paper.pmid);
+
+  if (searchConfig.includeReferences) {
+    const withXmlReferences = frontier.filter(paper => paper.references?.some(key => /^\d+$/.test(key)));
+    withXmlReferences.forEach(paper => add(paper.references!.filter(key => /^\d+$/.test(key))));
+
+    const missing = _.difference(pmids, withXmlReferences.map(paper => paper.pmid));
+    try {
+      (await fetchLinks(missing, 'pubmed_pubmed_refs')).forEach(add);
+    } catch (error) {
+      console.error('Error loading references for snowball search:', error);
+      onEvent({ type: 'error', message: 'Could not load references for snowball search' });
+    }
+  }
+
+  if (searchConfig.includeCitations) {
+    try {
+      (await fetchLinks(pmids, 'pubmed_pubmed_citedin')).forEach(add);
+    } catch (error) {
+      console.error('Error loading citing papers for snowball search:', error);
+      onEvent({ type: 'error', message: 'Could not load citing papers for snowball search' });
+    }
+  }
+
+  return counts;
+};
+
+// Multi-hop citation chasing from the starting papers: each hop follows references (backward)
+// and citing papers (forward) of the papers kept in the previous hop, scores the new candidates
+// against the context and keeps those at or above the minimum score. Stops after the configured
+// number of hops, when nothing new is kept, or when the budget of scored papers is spent.
+export const snowballSearch = async (
+  startPapers: Paper[],
+  context: string,
+  searchConfig: SearchConfig,
+  onEvent: SearchEventHandler
+): Promise<Paper[]> => {
+  const hops = _.clamp(Math.floor(searchConfig.snowballHops) || 1, 1, MAX_SNOWBALL_HOPS);
+  const budget = _.clamp(Math.floor(searchConfig.snowballMaxPapers) || 1, 1, MAX_SNOWBALL_PAPERS);
+  const minScore = searchConfig.snowballMinScore;
+
+  const visited = new Set(startPapers.flatMap(paper => [paperKey(paper), paper.pmid]).filter(Boolean));
+  const kept: Paper[] = [];
+  let frontier = startPapers.filter(paper => paper.pmid);
+  let scoredCount = 0;
+
+  for (let hop = 1; hop <= hops && frontier.length > 0 && scoredCount < budget; hop++) {
+    onEvent({
+      type: 'phase',
+      phase: 'snowball',
+      message: `Snowball hop ${hop} of ${hops}: following the links of ${frontier.length} papers`
+    });
+
+    // Papers linked from several frontier papers are scored first when the budget runs short
+    const counts = await collectCandidates(frontier, searchConfig, onEvent);
+    const ids = _.orderBy([...counts.entries()], ([, count]) => count, 'desc')
+      .map(([id]) => id)
+      .filter(id => !visited.has(id))
+      .slice(0, budget - scoredCount);
+    ids.forEach(id => visited.add(id));
+
+    const hopKept: Paper[] = [];
+    for (let i = 0; i < ids.length; i += SCORING_BATCH_SIZE) {
+      const batch = await fetchPaperDetails(ids.slice(i, i + SCORING_BATCH_SIZE));
+      onEvent({ type: 'fetched', fetched: Math.min(i + SCORING_BATCH_SIZE, ids.length), total: ids.length });
+
+      // Papers Claude couldn't score are kept for review but not followed further
+      const relevant = (await scorePapers(batch, context))
+        .filter(paper => paper.notScored || paper.relevanceScore >= minScore)
+        .map(paper => ({ ...paper, snowballHop: hop }));
+      hopKept.push(...relevant);
+      onEvent({ type: 'scored', papers: relevant, scored: Math.min(i + SCORING_BATCH_SIZE, ids.length), total: ids.length });
+    }
+
+    scoredCount += ids.length;
+    console.log(`Snowball hop ${hop}: scored ${ids.length} candidates, kept ${hopKept.length}`);
+    kept.push(...hopKept);
+    frontier = hopKept.filter(paper => !paper.notScored);
+  }
+
+  return kept;
+};
@@ -0,0 +1,40 @@
+import type { SearchEvent } from '@/lib/types';
+
+const encoder = new TextEncoder();
+
+// Encode a search event as a single Server-Sent Events frame
+export const encodeEvent = (event: SearchEvent) =>
+  encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+
+// Read an SSE response body and hand each decoded event to the callback.
+// EventSource only supports GET, so the search stream is consumed through fetch.
+export const readEventStream = async (response: Response, onEvent: (event: SearchEvent) => void) => {
+  if (!response.body) {
+    throw new Error('Response has no body to stream');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const frames = buffer.split('\n\n');
+    buffer = frames.pop() || '';
+
+    for (const frame of frames) {
+      const data = frame
+        .split('\n')
+        .filter(line => line.startsWith('data:'))
+        .map(line => line.slice(5).trim())
+        .join('\n');
+
+      if (data) {
+        onEvent(JSON.parse(data));
+      }
+    }
+  }
+};
@@ -0,0 +1,23 @@
+import { tavily } from '@tavily/core';
+import { cached } from '@/lib/response-cache';
+
+const TAVILY_API_KEY = process.env.TAVILY_API_KEY;
+
+export const isTavilyConfigured = () => !!TAVILY_API_KEY;
+
+export const searchTavily = async (query: string, maxResults = 5) => {
+  if (!TAVILY_API_KEY) {
+    throw new Error('Tavily API key is not configured');
+  }
+
+  const options = {
+    searchDepth: "advanced" as const,
+    maxResults,
+    includeAnswer: true,
+    includeRawContent: false as const,
+    includeImages: false
+  };
+
+  const tvly = tavily({ apiKey: TAVILY_API_KEY });
+  return cached('tavily', { query, ...options }, () => tvly.search(query, options));
+};
@@ -0,0 +1,404 @@
+// Where a paper record was found
+export type PaperSource = 'pubmed' | 'scholar' | 'web';
+
+// One source record of a paper, e.g. the PubMed record and the Google Scholar hit of the same paper
+export interface PaperProvenance {
+  source: PaperSource;
+  // Record id in that source, e.g. the PMID or "scholar:<result id>"
+  id: string;
+  url?: string;
+}
+
+export interface AbstractSection {
+  label?: string;
+  category?: string;
+  text: string;
+}
+
+export interface PaperAuthor {
+  lastName?: string;
+  foreName?: string;
+  initials?: string;
+  collectiveName?: string;
+  orcid?: string;
+  affiliations: string[];
+}
+
+export interface MeshHeading {
+  descriptor: string;
+  descriptorUi?: string;
+  majorTopic: boolean;
+  qualifiers: Array<{ name: string; majorTopic: boolean }>;
+}
+
+export interface GrantInfo {
+  grantId?: string;
+  agency?: string;
+  country?: string;
+}
+
+export interface Paper {
+  id: string;
+  pmid: string;
+  title: string;
+  authors: string;
+  journal: string;
+  year: string;
+  abstract: string;
+  pubDate: string;
+  relevanceScore: number;
+  summary: string;
+  // Claude returned no valid score for the paper: relevanceScore is 0 and summary is empty
+  notScored?: boolean;
+  doi?: string;
+  url?: string;
+  // PMIDs of the citing papers loaded so far
+  citations?: string[];
+  // Number of PubMed papers citing this one
+  citationCount?: number;
+  // Position in the cited-by list the next page of citing papers starts at
+  citationsOffset?: number;
+  // PMIDs of referenced papers, or "doi:<doi>" keys for references PubMed has no record of
+  references?: string[];
+  // Citation text of DOI-only references, keyed like `references`
+  referenceCitations?: Record<string, string>;
+  isExpanded?: boolean;
+  isMainPaper?: boolean;
+  // Imported from the user's bibliography to seed the search
+  isSeed?: boolean;
+  // Citation hop at which snowball search reached this paper (1 = linked to a starting paper)
+  snowballHop?: number;
+  source?: PaperSource;
+  // Every record merged into this paper (see paper-merge.ts); absent when it came from one record
+  provenance?: PaperProvenance[];
+  // Structured PubMed metadata, present when the paper was loaded from efetch XML
+  abstractSections?: AbstractSection[];
+  authorList?: PaperAuthor[];
+  meshTerms?: MeshHeading[];
+  keywords?: string[];
+  publicationTypes?: string[];
+  grants?: GrantInfo[];
+  journalAbbreviation?: string;
+  volume?: string;
+  issue?: string;
+  pages?: string;
+  language?: string;
+  pmcid?: string;
+}
+
+export interface SearchConfig {
+  maxResults: number;
+  includeReferences: boolean;
+  includeCitations: boolean;
+  // Score citing papers against the discussion with Claude instead of a default score
+  scoreCitations: boolean;
+  includeScholar: boolean;
+  includeWeb: boolean;
+  // Snowball search: follow references (backward) and citing papers (forward) from the main
+  // and seed papers for several hops, keeping papers scored at least snowballMinScore
+  snowball: boolean;
+  snowballHops: number;
+  snowballMinScore: number;
+  // Most candidate papers scored with Claude across all hops
+  snowballMaxPapers: number;
+  // Prompt templates to use instead of the built-in ones; pinned to a version once the search ran
+  prompts?: PromptSelection;
+  // Structured PubMed query (see query-builder.ts): the clauses are searched as an extra term
+  // and the filters restrict every PubMed search term
+  query?: QueryFilters;
+  // Search terms reviewed before the search, searched in this order instead of generating
+  // new ones; maxResults is the number of PubMed hits scored for the term
+  terms?: SearchTermPlan[];
+}
+
+export interface SearchTermPlan {
+  term: string;
+  maxResults: number;
+}
+
+export type QueryField = 'all' | 'titleAbstract' | 'title' | 'author' | 'journal' | 'mesh' | 'affiliation';
+
+export interface QueryClause {
+  field: QueryField;
+  value: string;
+  // Joins the clause to the ones before it; ignored on the first clause
+  operator: 'AND' | 'OR' | 'NOT';
+  // MeSH clauses include the narrower descriptors unless this is false ([mh:noexp])
+  explode?: boolean;
+}
+
+export interface QueryFilters {
+  clauses: QueryClause[];
+  // Publication date bounds, YYYY[/MM[/DD]]
+  dateFrom?: string;
+  dateTo?: string;
+  // Any of these publication types ([pt])
+  articleTypes: string[];
+  // Any of these languages ([la])
+  languages: string[];
+  species?: 'humans' | 'animals';
+  freeFullText: boolean;
+}
+
+// A MeSH descriptor record from the E-utilities mesh database
+export interface MeshDescriptor {
+  uid: string;
+  // Descriptor UI, e.g. D003920
+  ui: string;
+  name: string;
+  scopeNote?: string;
+  // Synonyms PubMed maps to the descriptor
+  entryTerms: string[];
+  trees: MeshTreeLocation[];
+}
+
+// One place of a descriptor in the MeSH hierarchy
+export interface MeshTreeLocation {
+  // e.g. C18.452.394.750
+  treeNumber: string;
+  parent?: { uid: string; name: string };
+  // Number of narrower descriptors included when the term is exploded
+  narrower: number;
+}
+
+// An imported bibliography entry, resolved to a PubMed record before it seeds a search
+export interface SeedReference {
+  pmid?: string;
+  doi?: string;
+  title?: string;
+}
+
+export interface SearchResult {
+  papers: Paper[];
+  searchTerms: string[];
+  pmid: string | null;
+  // DOI found in the discussion, when the paper was given by DOI
+  doi?: string;
+  // Id of the history session this search was recorded as
+  sessionId?: string;
+  // Duplicate records collapsed into other papers
+  duplicates?: DuplicateStats;
+}
+
+// Duplicates merged during a search, by the strongest identifier they matched on
+export interface DuplicateStats {
+  total: number;
+  byPmid: number;
+  byDoi: number;
+  // Same normalized title, year and first author
+  byTitle: number;
+}
+
+// A recorded search, reopened or re-run from the history panel
+export interface SearchSession extends Omit<SearchResult, 'sessionId'> {
+  id: string;
+  createdAt: string;
+  discussionText: string;
+  config: SearchConfig;
+  seeds?: SeedReference[];
+  // Session this one re-ran; the default baseline when diffing
+  parentId?: string;
+  // The exact instructions the search ran with, reused when it is re-run
+  prompts?: ResolvedPrompts;
+}
+
+export type SearchSessionSummary = Omit<SearchSession, 'papers'> & { paperCount: number };
+
+export interface SessionDiff {
+  baseId: string;
+  currentId: string;
+  added: Paper[];
+  removed: Paper[];
+  scoreChanges: Array<{ paper: Paper; previousScore: number }>;
+}
+
+// Title/abstract screening decision on a paper of a recorded search
+export type ScreeningDecision = 'include' | 'exclude' | 'maybe';
+
+export const SCREENING_DECISIONS: ScreeningDecision[] = ['include', 'exclude', 'maybe'];
+
+export const DEFAULT_EXCLUSION_REASONS = [
+  'Wrong population',
+  'Wrong intervention or exposure',
+  'Wrong comparator',
+  'Wrong outcome',
+  'Wrong study design',
+  'Wrong publication type',
+  'Not in an eligible language',
+  'Not a research article'
+];
+
+export interface ScreeningVote {
+  decision: ScreeningDecision;
+  // One of the screening's exclusion reasons; required when excluding
+  reason?: string;
+  decidedAt: string;
+}
+
+// Screening of the papers of one recorded search
+export interface Screening {
+  sessionId: string;
+  // One reviewer, or two screening blind: neither sees the other's vote on a paper until both voted on it
+  reviewers: string[];
+  exclusionReasons: string[];
+  // Paper key (see paperKey) → reviewer → vote
+  votes: Record<string, Record<string, ScreeningVote>>;
+  // Paper key → final decision settling the reviewers' conflict
+  resolutions: Record<string, ScreeningVote>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Waiting for a reviewer's vote, reviewers disagreeing, or decided
+export type ScreeningStatus = 'pending' | 'conflict' | ScreeningDecision;
+
+export interface ScreeningEntry {
+  key: string;
+  paper: Paper;
+  status: ScreeningStatus;
+  // Exclusion reason of the final decision
+  reason?: string;
+  // The final decision settled a conflict
+  resolved?: boolean;
+  // The viewing reviewer's own vote
+  vote?: ScreeningVote;
+  // Every reviewer's vote, revealed once all of them voted
+  votes?: Record<string, ScreeningVote>;
+}
+
+// Counts of the PRISMA flow diagram; screened = excluded + included + maybe + conflicts + pending
+export interface PrismaCounts {
+  // Records found, before duplicates were merged
+  identified: number;
+  duplicatesRemoved: number;
+  screened: number;
+  excluded: number;
+  exclusionReasons: Array<{ reason: string; count: number }>;
+  included: number;
+  maybe: number;
+  conflicts: number;
+  // Not yet voted on by every reviewer
+  pending: number;
+}
+
+// A screening as one reviewer (or whoever resolves conflicts) sees it
+export interface ScreeningView extends Omit<Screening, 'votes' | 'resolutions'> {
+  entries: ScreeningEntry[];
+  prisma: PrismaCounts;
+}
+
+export const DEFAULT_MAX_RESULTS = 20;
+export const MAX_SEARCH_RESULTS = 100;
+// Reviewed search terms accepted per search
+export const MAX_SEARCH_TERMS = 20;
+
+// Upper bounds on the snowball settings, whatever the request asks for
+export const MAX_SNOWBALL_HOPS = 5;
+export const MAX_SNOWBALL_PAPERS = 500;
+
+export const DEFAULT_SEARCH_CONFIG: SearchConfig = {
+  maxResults: DEFAULT_MAX_RESULTS,
+  includeReferences: true,
+  includeCitations: true,
+  scoreCitations: false,
+  includeScholar: true,
+  includeWeb: true,
+  snowball: false,
+  snowballHops: 2,
+  snowballMinScore: 6,
+  snowballMaxPapers: 100,
+};
+
+export type SearchPhase =
+  | 'seeds'
+  | 'pmid-detection'
+  | 'main-paper'
+  | 'references'
+  | 'citations'
+  | 'snowball'
+  | 'term-generation'
+  | 'keyword-search'
+  | 'external-search'
+  | 'ranking';
+
+// Progress events emitted by the search pipeline and streamed to the UI over SSE
+export type SearchEvent =
+  | { type: 'phase'; phase: SearchPhase; message: string }
+  | { type: 'terms'; searchTerms: string[] }
+  | { type: 'term'; term: string; index: number; total: number }
+  | { type: 'fetched'; fetched: number; total: number; term?: string }
+  | { type: 'scored'; papers: Paper[]; scored: number; total: number; term?: string }
+  | { type: 'error'; message: string }
+  | { type: 'result'; result: SearchResult };
+
+export type SearchEventHandler = (event: SearchEvent) => void;
+
+export interface Collection {
+  id: string;
+  name: string;
+  description?: string;
+  // Library keys (see paperKey) of the papers in this collection, in the order they were added
+  paperIds: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A paper saved to the library together with the user's note on it
+export interface LibraryEntry {
+  paper: Paper;
+  note: string;
+  addedAt: string;
+  updatedAt: string;
+}
+
+export interface CollectionWithPapers extends Collection {
+  entries: LibraryEntry[];
+}
+
+// Language model tasks whose instructions are editable prompt templates. Scoring and summarisation
+// instructions are sent in the same call; the answer format stays fixed in code.
+export type PromptTask = 'searchTerms' | 'scoring' | 'summarisation';
+
+export const PROMPT_TASKS: PromptTask[] = ['searchTerms', 'scoring', 'summarisation'];
+
+export const PROMPT_TASK_LABELS: Record<PromptTask, string> = {
+  searchTerms: 'Search term generation',
+  scoring: 'Relevance scoring',
+  summarisation: 'Summarisation'
+};
+
+export interface PromptTemplateVersion {
+  version: number;
+  instructions: string;
+  createdAt: string;
+}
+
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  task: PromptTask;
+  description?: string;
+  // Built-in templates ship with the app and can't be edited or deleted
+  builtIn?: boolean;
+  // Oldest first; editing a template adds a version instead of changing one
+  versions: PromptTemplateVersion[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A template chosen for a task; without a version the latest one is used
+export interface PromptRef {
+  templateId: string;
+  version?: number;
+}
+
+export type PromptSelection = Partial<Record<PromptTask, PromptRef>>;
+
+export interface ResolvedPrompt {
+  templateId: string;
+  name: string;
+  version: number;
+  instructions: string;
+}
+
+export type ResolvedPrompts = Record<PromptTask, ResolvedPrompt>;